@@ -26,7 +26,7 @@ export class BtpsService implements OnModuleInit, OnModuleDestroy {
   ) {}
 
   private async cleanupServer() {
-    if (this.server) this.server.stop();
+    if (this.server) await this.server.stop();
     console.log('✅ BTPS server stopped successfully');
   }
 
@@ -1,9 +1,7 @@
 import { InMemoryTokenStore } from '@btps/sdk/authentication';
-import { BTP_ERROR_AUTHENTICATION_INVALID } from '@btps/sdk/error';
 import { BtpsAuthentication } from '@btps/sdk/authentication';
 import { BtpsServerSingletonFactory } from '@btps/sdk/server/core';
 import { computeTrustId, JsonTrustStore } from '@btps/sdk/trust';
-import type { BTPAuthReqDoc } from '@btps/sdk/server';
 import { readFileSync } from 'fs';
 const TrustStore = new JsonTrustStore({
   connection: `${process.cwd()}/.well-known/btps-trust.json`,
@@ -59,87 +57,17 @@ const BTPsServer = BtpsServerSingletonFactory.create({
     publicKey: readFileSync(process.cwd() + '/keys/hr/hr-public.pem').toString('utf8'),
     privateKey: readFileSync(process.cwd() + '/keys/hr/hr-private.pem').toString('utf8'),
   },
+  // auth.request and auth.refresh are answered by the server, agents decrypt by hr$ebilladdress.com
+  authentication: {
+    auth: Auth,
+    decidedBy: (ctx) =>
+      ctx.artifact.action === 'auth.refresh' ? 'admin$ebilladdress.com' : ctx.userIdentity,
+  },
 });
 
 BTPsServer.start();
 
-BTPsServer.onIncomingArtifact('Agent', async (artifact, resCtx) => {
-  if (artifact.respondNow) {
-    const { action } = artifact;
-
-    switch (action) {
-      case 'auth.request':
-        const { document, to, id: reqId } = artifact;
-        if (!document) {
-          return resCtx.sendError(BTP_ERROR_AUTHENTICATION_INVALID);
-        }
-        const { authToken, publicKey, identity, agentInfo } = document as BTPAuthReqDoc;
-        const { isValid } = await Auth.validateAuthToken(to, authToken);
-        if (!isValid) {
-          return resCtx.sendError(BTP_ERROR_AUTHENTICATION_INVALID);
-        }
-
-        const authResponseDoc = await Auth.createAgent(
-          {
-            decidedBy: 'finance$ebilladdress.com',
-            publicKey,
-            userIdentity: identity,
-            agentInfo,
-          },
-          'hr$ebilladdress.com',
-        );
-
-        return resCtx.sendRes({
-          ...BTPsServer.prepareBtpsResponse(
-            {
-              ok: true,
-              message: 'Authentication successful',
-              code: 200,
-            },
-            reqId,
-          ),
-          type: 'btps_response',
-          document: authResponseDoc,
-        });
-      case 'auth.refresh':
-        const { document: refreshAuthDoc, agentId, id: refreshReqId } = artifact;
-        if (!refreshAuthDoc) {
-          return resCtx.sendError(BTP_ERROR_AUTHENTICATION_INVALID);
-        }
-
-        const authDoc = refreshAuthDoc as BTPAuthReqDoc;
-        const { data, error } = await Auth.validateAndReissueRefreshToken(
-          agentId,
-          authDoc.authToken,
-          {
-            decryptBy: 'hr$ebilladdress.com',
-            decidedBy: 'admin$ebilladdress.com',
-            publicKey: authDoc.publicKey,
-            agentInfo: authDoc?.agentInfo ?? {},
-          },
-        );
-
-        if (error) {
-          return resCtx.sendError(BTP_ERROR_AUTHENTICATION_INVALID);
-        }
-
-        return resCtx.sendRes({
-          ...BTPsServer.prepareBtpsResponse(
-            {
-              ok: true,
-              message: 'Refresh Auth Session Successful',
-              code: 200,
-            },
-            refreshReqId,
-          ),
-          type: 'btps_response',
-          document: data,
-        });
-
-      default:
-        break;
-    }
-  }
-
+// Actions without a routed handler
+BTPsServer.onIncomingArtifact('Agent', async (artifact) => {
   console.log('INCOMING AGENT ARTIFACT', JSON.stringify(artifact, null, 2));
 });
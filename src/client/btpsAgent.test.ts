@@ -8,6 +8,7 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { EventEmitter } from 'events';
 import { BtpsAgent } from './btpsAgent.js';
+import { BtpsClient } from './btpsClient.js';
 import {
   BTPErrorException,
   BTP_ERROR_VALIDATION,
@@ -16,7 +17,7 @@ import {
 } from '../core/error/index.js';
 import * as utils from '../core/utils/index.js';
 import * as crypto from '../core/crypto/index.js';
-import { BTPDocType, BTPServerResponse } from '../core/server/types.js';
+import { BTPAgentArtifact, BTPDocType, BTPServerResponse } from '../core/server/types.js';
 import { BTPAgentOptions } from './types/index.js';
 import { BTP_PROTOCOL_VERSION } from '../core/server/constants/index.js';
 
@@ -113,7 +114,7 @@ describe('BtpsAgent', () => {
       fingerprint: 'test-fingerprint',
     });
 
-    mockCrypto.encryptBtpPayload.mockReturnValue({
+    mockCrypto.encryptBtpPayload.mockResolvedValue({
       data: 'encrypted-data',
       encryption: {
         algorithm: 'aes-256-gcm',
@@ -546,6 +547,115 @@ describe('BtpsAgent', () => {
     });
   });
 
+  describe('encrypted responses', () => {
+    const encryptedResponse = {
+      reqId: 'test-req-id',
+      status: { ok: true, code: 200 },
+      type: 'btps_response' as const,
+      version: '1.0.0',
+      id: 'test-id',
+      issuedAt: '2023-12-31T00:00:00.000Z',
+      document: 'encrypted-document',
+      encryption: {
+        algorithm: 'aes-256-gcm' as const,
+        encryptedKey: 'encrypted-key',
+        iv: 'test-iv',
+        type: 'standardEncrypt' as const,
+        authTag: 'test-tag',
+      },
+    };
+
+    it('should decrypt the response document with the agent private key', async () => {
+      vi.mocked(agent.send).mockResolvedValue({ response: encryptedResponse, error: undefined });
+      mockCrypto.decryptBtpPayload.mockResolvedValue({ data: { results: [] }, error: undefined });
+
+      const result = await agent.command('inbox.fetch', 'alice$example.com');
+
+      expect(mockCrypto.decryptBtpPayload).toHaveBeenCalledWith(
+        'encrypted-document',
+        encryptedResponse.encryption,
+        'PRIVATE_KEY',
+      );
+      expect(result.error).toBeUndefined();
+      expect(result.response?.document).toEqual({ results: [] });
+      expect(result.response?.encryption).toBeUndefined();
+    });
+
+    it('should return the decryption error', async () => {
+      const decryptError = new BTPErrorException({ message: 'decrypt failed' });
+      vi.mocked(agent.send).mockResolvedValue({ response: encryptedResponse, error: undefined });
+      mockCrypto.decryptBtpPayload.mockResolvedValue({ data: undefined, error: decryptError });
+
+      const result = await agent.command('inbox.fetch', 'alice$example.com');
+
+      expect(result.response).toBeUndefined();
+      expect(result.error).toBe(decryptError);
+    });
+
+    it('should leave unencrypted responses untouched', async () => {
+      const result = await agent.command('system.ping', 'alice$example.com');
+
+      expect(mockCrypto.decryptBtpPayload).not.toHaveBeenCalled();
+      expect(result.response?.id).toBe('test-id');
+    });
+  });
+
+  describe('version negotiation', () => {
+    const versionRejection = {
+      reqId: 'test-req-id',
+      status: { ok: false, code: 505, message: 'Unsupported protocol version' },
+      type: 'btps_error' as const,
+      version: '1.0.0',
+      id: 'test-id',
+      issuedAt: '2023-12-31T00:00:00.000Z',
+      document: { minVersion: '1.0.0', maxVersion: '1.0.0', supportedVersions: ['1.0.0'] },
+    };
+    const okResponse = {
+      reqId: 'test-req-id',
+      status: { ok: true, code: 200 },
+      type: 'btps_response' as const,
+      version: '1.0.0',
+      id: 'test-id',
+      issuedAt: '2023-12-31T00:00:00.000Z',
+    };
+
+    it('should rebuild the rejected request and keep the negotiated version for the host', async () => {
+      BtpsClient['negotiatedVersions'].clear();
+      agent['host'] = 'localhost:3443';
+      vi.mocked(agent.send).mockRestore();
+      const responses: BTPServerResponse[] = [versionRejection, okResponse, okResponse];
+      const dispatch = vi
+        .spyOn(agent as unknown as { dispatch: (job: unknown) => Promise<void> }, 'dispatch')
+        .mockImplementation(async (job) => {
+          (job as { resolve: (result: unknown) => void }).resolve({
+            response: responses.shift(),
+            error: undefined,
+          });
+        });
+
+      const result = await agent.command('system.ping', 'alice$example.com');
+      await agent.command('system.ping', 'alice$example.com');
+
+      const sentVersions = dispatch.mock.calls.map(
+        ([job]) => (job as { artifact: BTPAgentArtifact }).artifact.version,
+      );
+      expect(sentVersions).toEqual([BTP_PROTOCOL_VERSION, '1.0.0', '1.0.0']);
+      expect(result.response?.status.ok).toBe(true);
+      BtpsClient['negotiatedVersions'].clear();
+    });
+
+    it('should not retry when the rejection failed verification', async () => {
+      vi.spyOn(agent, 'getProtocolVersion').mockReturnValue('1.1.0');
+      const verifyError = new BTPErrorException({ message: 'Unsigned response rejected' });
+      vi.mocked(agent.send).mockResolvedValueOnce({ response: undefined, error: verifyError });
+
+      const result = await agent.command('system.ping', 'alice$example.com');
+
+      expect(agent.send).toHaveBeenCalledTimes(1);
+      expect(result.error).toBe(verifyError);
+    });
+  });
+
   describe('artifact creation', () => {
     it('should create agent artifact with correct structure', async () => {
       const document: BTPDocType = {
@@ -1007,7 +1117,7 @@ describe('BtpsAgent', () => {
       };
 
       // Mock encryptBtpPayload to return encrypted data
-      mockCrypto.encryptBtpPayload.mockReturnValue({
+      mockCrypto.encryptBtpPayload.mockResolvedValue({
         data: 'encrypted-data',
         encryption: {
           algorithm: 'aes-256-gcm',
@@ -28,6 +28,7 @@ import type {
   BTPIdentityResDoc,
   AgentAction,
   BTPAgentDocument,
+  BTPServerResDocs,
 } from 'server/index.js';
 import type {
   BTPCryptoArtifact,
@@ -39,7 +40,7 @@ import type {
 import { BtpsAgentCommandCallSchema } from './libs/schema.js';
 import { validate } from '@core/utils/validation.js';
 import { AGENT_ACTIONS_REQUIRING_DOCUMENT } from '@core/server/constants/index.js';
-import { encryptBtpPayload, signBtpPayload } from '@core/crypto/index.js';
+import { decryptBtpPayload, encryptBtpPayload, signBtpPayload } from '@core/crypto/index.js';
 import { randomUUID } from 'crypto';
 import { isValidIdentity } from '@core/utils/index.js';
 
@@ -82,6 +83,7 @@ export class BtpsAgent extends BtpsClient {
 
   protected async getAgentArtifact(
     commandParams: BtpsAgentCommandParams,
+    version: string = this.getProtocolVersion(),
   ): Promise<BTPCryptoResponse<BTPDocType>> {
     const { actionType, options, document: providedDocument } = commandParams;
     const agentArtifact: Partial<BTPAgentArtifact> = {
@@ -111,10 +113,13 @@ export class BtpsAgent extends BtpsClient {
     const needForTransport = Object.keys(mappedTransporterAction).includes(actionType);
     if (needForTransport) {
       const { payload: transporterPayload, error: transporterError } =
-        await this.buildTransportArtifact({
-          ...commandParams,
-          to: commandParams.to,
-        });
+        await this.buildTransportArtifact(
+          {
+            ...commandParams,
+            to: commandParams.to,
+          },
+          version,
+        );
 
       if (transporterError) {
         return await this.buildClientErrorResponse(transporterError);
@@ -133,7 +138,7 @@ export class BtpsAgent extends BtpsClient {
     agentArtifact.encryption = null;
     agentArtifact.id = randomUUID();
     agentArtifact.issuedAt = new Date().toISOString();
-    agentArtifact.version = this.getProtocolVersion();
+    agentArtifact.version = version;
 
     try {
       const signature = signBtpPayload(agentArtifact, {
@@ -153,6 +158,7 @@ export class BtpsAgent extends BtpsClient {
 
   protected async buildTransportArtifact(
     commandParams: BtpsAgentCommandParams,
+    version: string = this.getProtocolVersion(),
   ): Promise<BTPCryptoResponse<BTPDocType>> {
     const { document, actionType, to, options } = commandParams;
 
@@ -190,7 +196,7 @@ export class BtpsAgent extends BtpsClient {
         version: string;
       };
       try {
-        const { data, encryption: encryptionInfo } = encryptBtpPayload(
+        const { data, encryption: encryptionInfo } = await encryptBtpPayload(
           document,
           publicKey,
           options.encryption,
@@ -216,7 +222,7 @@ export class BtpsAgent extends BtpsClient {
     const transporterArtifact: Omit<BTPTransporterArtifact, 'signature'> = {
       id: randomUUID(),
       issuedAt: new Date().toISOString(),
-      version: this.getProtocolVersion(),
+      version,
       type: artifactType,
       document: encryptedDocument as BTPDocType | string,
       from: this.options.to,
@@ -277,7 +283,46 @@ export class BtpsAgent extends BtpsClient {
       return await this.buildClientErrorResponse(error);
     }
 
-    return this.send(payload as BTPAgentArtifact, timeoutMs);
+    const result = await this.send(payload as BTPAgentArtifact, timeoutMs);
+
+    /*
+     * The server rejected our protocol version and `send` negotiated a lower one with the host,
+     * the signed artifact can only be rebuilt here, once, in that version.
+     */
+    const { response } = result;
+    const negotiated = this.getProtocolVersion();
+    if (response && this.isVersionRejection(response) && negotiated !== payload?.version) {
+      const { payload: retryPayload, error: retryError } = await this.getAgentArtifact(
+        commandParams,
+        negotiated,
+      );
+      if (retryError) {
+        return await this.buildClientErrorResponse(retryError);
+      }
+      return this.decryptResponse(await this.send(retryPayload as BTPAgentArtifact, timeoutMs));
+    }
+
+    return this.decryptResponse(result);
+  }
+
+  /**
+   * Decrypts a response document the server encrypted to the agent public key
+   */
+  protected async decryptResponse(result: BTPClientResponse): Promise<BTPClientResponse> {
+    const { response } = result;
+    if (!response?.encryption || typeof response.document !== 'string') return result;
+
+    const { encryption, document, ...rest } = response;
+    const { data, error } = await decryptBtpPayload<BTPServerResDocs>(
+      document,
+      encryption,
+      this.keyPair.privateKey,
+    );
+    if (error) {
+      return await this.buildClientErrorResponse(error);
+    }
+
+    return { ...result, response: { ...rest, document: data } };
   }
 
   destroy(soft: boolean = false) {
@@ -16,11 +16,13 @@ import {
   BTP_ERROR_TIMEOUT,
   BTP_ERROR_CONNECTION_CLOSED,
   BTP_ERROR_IDENTITY,
+  BTP_ERROR_SIG_VERIFICATION,
 } from '../core/error/index.js';
 import * as utils from '../core/utils/index.js';
 import { BTP_PROTOCOL_VERSION } from '../core/server/constants/index.js';
 import type { BTPClientOptions } from './types/index.js';
 import type { BTPTrustReqDoc } from '../core/trust/types.js';
+import type { BTPArtifact, BTPServerResponse } from '../core/server/types.js';
 
 // --- Mocks ---
 vi.mock('tls');
@@ -861,6 +863,281 @@ describe('BtpsClient', () => {
       expect(client.getProtocolVersion()).toBe(BTP_PROTOCOL_VERSION);
     });
 
+    it('should not change the protocol version when the server rejects it', async () => {
+      const rejection = (supportedVersions: string[]) =>
+        JSON.stringify({
+          version: '1.1.0',
+          status: { ok: false, code: 505, message: 'Unsupported protocol version: 1.1.0' },
+          id: 'res-id',
+          issuedAt: new Date().toISOString(),
+          type: 'btps_error',
+          document: { minVersion: '1.0.0', maxVersion: '1.0.0', supportedVersions },
+        });
+
+      await client['onData'](rejection(['1.0.0']));
+      expect(client.getProtocolVersion()).toBe(BTP_PROTOCOL_VERSION);
+
+      expect(client['negotiateProtocolVersion'](['9.0.0'])).toBeUndefined();
+      expect(client['negotiateProtocolVersion'](['1.0.0'])).toBe('1.0.0');
+    });
+
+    it('should downgrade unsigned artifacts and keep the negotiated version for the host', async () => {
+      BtpsClient['negotiatedVersions'].clear();
+      client['host'] = 'localhost:3443';
+      vi.mocked(client.send).mockRestore();
+      const rejection = {
+        version: '1.0.0',
+        status: { ok: false, code: 505, message: 'Unsupported protocol version: 1.1.0' },
+        id: 'res-id',
+        issuedAt: new Date().toISOString(),
+        type: 'btps_error',
+        document: { minVersion: '1.0.0', maxVersion: '1.0.0', supportedVersions: ['1.0.0'] },
+      };
+      const ok = { ...rejection, status: { ok: true, code: 200 }, type: 'btps_response' };
+      const responses = [rejection, ok];
+      const dispatch = vi
+        .spyOn(client as unknown as { dispatch: (job: unknown) => Promise<void> }, 'dispatch')
+        .mockImplementation(async (job) => {
+          (job as { resolve: (result: unknown) => void }).resolve({
+            response: responses.shift(),
+            error: undefined,
+          });
+        });
+
+      const result = await client.ping(50);
+
+      const sent = dispatch.mock.calls.map(([job]) => (job as { artifact: BTPArtifact }).artifact);
+      expect(sent.map(({ version }) => version)).toEqual([BTP_PROTOCOL_VERSION, '1.0.0']);
+      expect(sent[1].id).not.toBe(sent[0].id);
+      expect(result.response?.status.ok).toBe(true);
+      expect(client.getProtocolVersion()).toBe('1.0.0');
+      BtpsClient['negotiatedVersions'].clear();
+    });
+
+    it('should not change signed artifacts the server rejected', async () => {
+      vi.mocked(client.send).mockRestore();
+      const rejection = {
+        version: '1.0.0',
+        status: { ok: false, code: 505, message: 'Unsupported protocol version: 1.1.0' },
+        id: 'res-id',
+        issuedAt: new Date().toISOString(),
+        type: 'btps_error',
+        document: { minVersion: '1.0.0', maxVersion: '1.0.0', supportedVersions: ['1.0.0'] },
+      };
+      const downgrade = vi.spyOn(
+        client as unknown as { downgradeArtifact: (...args: unknown[]) => unknown },
+        'downgradeArtifact',
+      );
+      const signed = {
+        version: BTP_PROTOCOL_VERSION,
+        id: 'artifact-id',
+        issuedAt: new Date().toISOString(),
+        from: 'alice$example.com',
+        to: 'bob$example.com',
+        type: 'BTPS_DOC',
+        document: {},
+        signature: { algorithmHash: 'sha256', value: 'sig', fingerprint: 'fp' },
+      } as unknown as BTPArtifact;
+
+      const result = await client['retryWithNegotiatedVersion'](
+        signed,
+        { response: rejection as BTPServerResponse, error: undefined },
+        50,
+      );
+
+      expect(downgrade).toHaveReturnedWith(undefined);
+      expect(result.response).toBe(rejection);
+      BtpsClient['negotiatedVersions'].clear();
+    });
+
+    it('should ping the server and report the round trip time', async () => {
+      const result = await client.ping(50);
+
+      expect(client.send).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'PING', version: client.getProtocolVersion() }),
+        50,
+      );
+      expect(result.error).toBeUndefined();
+      expect(result.latencyMs).toBeGreaterThanOrEqual(0);
+    });
+
+    it('should ignore server heartbeats', async () => {
+      const listener = vi.fn();
+      client.on('message', listener);
+
+      await client['onData'](
+        JSON.stringify({
+          version: BTP_PROTOCOL_VERSION,
+          id: 'heartbeat-id',
+          issuedAt: new Date().toISOString(),
+          action: 'PING',
+        }),
+      );
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('should ping only while the connection is idle when keepAlive is enabled', () => {
+      const keepAliveClient = new BtpsClient({
+        ...mockOptions,
+        keepAlive: true,
+        keepAliveIntervalMs: 1000,
+      });
+      const pingSpy = vi
+        .spyOn(keepAliveClient, 'ping')
+        .mockResolvedValue({ response: undefined, error: undefined });
+      keepAliveClient['states'].isConnected = true;
+      keepAliveClient['startKeepAlive']();
+
+      vi.advanceTimersByTime(1000);
+      expect(pingSpy).toHaveBeenCalledTimes(1);
+
+      keepAliveClient['lastActivityAt'] = Date.now() + 1500;
+      vi.advanceTimersByTime(1000);
+      expect(pingSpy).toHaveBeenCalledTimes(1);
+
+      keepAliveClient.destroy();
+      vi.advanceTimersByTime(5000);
+      expect(pingSpy).toHaveBeenCalledTimes(1);
+    });
+
+    it('should ping one interval after the last activity', () => {
+      const keepAliveClient = new BtpsClient({
+        ...mockOptions,
+        keepAlive: true,
+        keepAliveIntervalMs: 1000,
+      });
+      const pingSpy = vi
+        .spyOn(keepAliveClient, 'ping')
+        .mockResolvedValue({ response: undefined, error: undefined });
+      keepAliveClient['states'].isConnected = true;
+      keepAliveClient['startKeepAlive']();
+
+      vi.advanceTimersByTime(100);
+      keepAliveClient['lastActivityAt'] = Date.now();
+      vi.advanceTimersByTime(999);
+      expect(pingSpy).not.toHaveBeenCalled();
+
+      vi.advanceTimersByTime(1);
+      expect(pingSpy).toHaveBeenCalledTimes(1);
+
+      keepAliveClient.destroy();
+    });
+
+    it('should fetch signed capabilities once per host', async () => {
+      BtpsClient['capabilitiesCache'].clear();
+      const capabilities = {
+        minVersion: '1.0.0',
+        maxVersion: '1.1.0',
+        supportedVersions: ['1.0.0', '1.1.0'],
+        agentActions: ['inbox.fetch'],
+        artifactTypes: ['TRUST_REQ', 'TRUST_RES', 'BTPS_DOC'],
+        crypto: {
+          signatureAlgorithms: ['ed25519'],
+          signatureCanonicalizations: ['none', 'jcs'],
+          encryptionAlgorithms: ['aes-256-gcm'],
+          encryptionModes: ['none', 'standardEncrypt'],
+        },
+        limits: { connectionTimeoutMs: 30000, maxArtifactBytes: 5242880, headerTimeoutMs: 10000 },
+      };
+      const sendSpy = vi.spyOn(client, 'send').mockResolvedValue({
+        response: {
+          reqId: 'caps-id',
+          status: { ok: true, code: 200 },
+          type: 'btps_response',
+          version: BTP_PROTOCOL_VERSION,
+          id: 'res-id',
+          issuedAt: new Date().toISOString(),
+          document: capabilities,
+          signedBy: 'admin$example.com',
+          selector: 'btps1',
+          signature: { algorithmHash: 'sha256', value: 'sig', fingerprint: 'fp' },
+        },
+        error: undefined,
+      } as Awaited<ReturnType<BtpsClient['send']>>);
+
+      const first = await client.getCapabilities();
+      const second = await client.getCapabilities();
+
+      expect(first.response).toEqual(capabilities);
+      expect(second.response).toBe(first.response);
+      expect(sendSpy).toHaveBeenCalledTimes(1);
+      expect(sendSpy.mock.calls[0][0]).toMatchObject({
+        action: 'CAPABILITIES',
+        hostSelector: 'btps1',
+      });
+
+      await client.getCapabilities(true);
+      expect(sendSpy).toHaveBeenCalledTimes(2);
+    });
+
+    it('should reject unsigned capabilities', async () => {
+      BtpsClient['capabilitiesCache'].clear();
+
+      const result = await client.getCapabilities();
+
+      expect(result.response).toBeUndefined();
+      expect(result.error).toBeInstanceOf(BTPErrorException);
+    });
+
+    describe('strict mode', () => {
+      const response = {
+        version: BTP_PROTOCOL_VERSION,
+        status: { ok: true, code: 200 },
+        id: 'res-id',
+        issuedAt: new Date().toISOString(),
+        type: 'btps_response' as const,
+        reqId: 'req-id',
+      };
+      const signature = { algorithmHash: 'sha256' as const, value: 'sig', fingerprint: 'fp' };
+
+      it('accepts unsigned responses unless strict mode is enabled', async () => {
+        expect((await client['verifyServerMessage'](response)).isValid).toBe(true);
+
+        const strictClient = new BtpsClient({ ...mockOptions, requireSignedResponses: true });
+        const { isValid, error } = await strictClient['verifyServerMessage'](response);
+        expect(isValid).toBe(false);
+        expect(error?.code).toBe(BTP_ERROR_SIG_VERIFICATION.code);
+      });
+
+      it('rejects responses signed by another domain', async () => {
+        const strictClient = new BtpsClient({ ...mockOptions, requireSignedResponses: true });
+
+        const { isValid } = await strictClient['verifyServerMessage']({
+          ...response,
+          signature,
+          signedBy: 'admin$attacker.com',
+          selector: 'btps1',
+        });
+
+        expect(isValid).toBe(false);
+        expect(mockUtils.resolvePublicKey).not.toHaveBeenCalled();
+      });
+
+      it('verifies responses signed by the server of the to domain', async () => {
+        const strictClient = new BtpsClient({ ...mockOptions, requireSignedResponses: true });
+        mockUtils.resolvePublicKey.mockResolvedValue('SERVER_PEM');
+        vi.spyOn(strictClient, 'decryptVerifyArtifact').mockResolvedValue({
+          payload: undefined,
+          error: undefined,
+        });
+
+        const { isValid } = await strictClient['verifyServerMessage']({
+          ...response,
+          signature,
+          signedBy: 'admin$example.com',
+          selector: 'btps1',
+        });
+
+        expect(isValid).toBe(true);
+        expect(mockUtils.resolvePublicKey).toHaveBeenCalledWith(
+          'admin$example.com',
+          'btps1',
+          expect.anything(),
+        );
+      });
+    });
+
     it('should return connection states', () => {
       const states = client.getConnectionStates();
       expect(states).toBeDefined();
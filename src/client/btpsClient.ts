@@ -18,6 +18,7 @@ import {
 import {
   BTPClientOptions,
   BTPClientResponse,
+  BTPPingResponse,
   BtpsClientEvents,
   BtpsHostDnsTxt,
   BTPSRetryInfo,
@@ -36,27 +37,44 @@ import {
   BTP_ERROR_SOCKET_TIMEOUT,
   BTP_ERROR_TIMEOUT,
   BTP_ERROR_VALIDATION,
+  BTP_ERROR_UNSUPPORTED_VERSION,
   BTPErrorException,
   transformToBTPErrorException,
 } from '@core/error/index.js';
 import type {
   BTPArtifact,
+  BTPCapabilitiesDoc,
+  BTPControlArtifact,
   BTPIdentityLookupRequest,
   BTPIdentityResDoc,
   BTPServerResponse,
+  BTPVersionNegotiationDoc,
 } from '@core/server/types.js';
 import { BTP_PROTOCOL_VERSION } from '@core/server/constants/index.js';
 import { randomUUID } from 'crypto';
 import isEmpty from 'lodash/isEmpty.js';
 import { BTPCryptoResponse, VerifyEncryptedPayload } from '@core/crypto/types.js';
+import { isBTPKeyType } from '@core/crypto/keys.js';
 import { decryptVerify } from '@core/crypto/decryptVerify.js';
 import { validate } from '@core/utils/validation.js';
-import { BtpArtifactServerSchema } from '@core/server/schemas/artifacts/artifacts.js';
+import { getBtpArtifactServerSchema } from '@core/server/schemas/artifacts/artifacts.js';
+import { negotiateVersion } from '@core/utils/version.js';
+import { getDefaultDnsResolver } from '@core/dns/index.js';
+import type { BtpsDnsResolver } from '@core/dns/types.js';
+
 export class BtpsClient {
+  /* capabilities are a property of the server, shared by every client of the same host */
+  protected static capabilitiesCache = new Map<string, BTPCapabilitiesDoc>();
+  /* versions negotiated after a host rejected ours, kept for every client of the same host */
+  protected static negotiatedVersions = new Map<string, string>();
+  /* `hostname:port` of the server, known once the client resolved it to connect */
+  protected host?: string;
   protected socket?: TLSSocket;
   protected emitter: EventEmitter = new EventEmitter();
   protected retries = 0;
   protected backpressureQueue: string[] = [];
+  protected keepAliveTimer?: NodeJS.Timeout;
+  protected lastActivityAt = Date.now();
   protected states: ConnectionStates = {
     isConnecting: false,
     isConnected: false,
@@ -83,6 +101,10 @@ export class BtpsClient {
     }
   }
 
+  protected get dnsResolver(): BtpsDnsResolver {
+    return this.options.dnsResolver ?? getDefaultDnsResolver();
+  }
+
   protected async getSocket(): Promise<
     | {
         socket: TLSSocket;
@@ -119,6 +141,7 @@ export class BtpsClient {
     }
 
     const { hostname, port } = btpHostDnsConfig;
+    this.host = `${hostname}:${port}`;
 
     const tlsOptions = {
       ...this.options.btpMtsOptions,
@@ -133,6 +156,7 @@ export class BtpsClient {
         sock.ref(); // keep process alive on connect
 
         this.socket = sock;
+        this.startKeepAlive();
         this.emitter.emit('connected', {
           identity: this.options.to,
           retries: this.retries,
@@ -201,6 +225,7 @@ export class BtpsClient {
     });
 
     socket.on('close', () => {
+      this.stopKeepAlive();
       // Reject all in-flight
       const err = new BTPErrorException(BTP_ERROR_CONNECTION_CLOSED, {
         cause: 'connection closed',
@@ -212,11 +237,13 @@ export class BtpsClient {
   }
 
   protected async onData(line: string) {
+    this.lastActivityAt = Date.now();
     if (!line.trim()) return;
 
     try {
       const msg: BTPServerResponse = JSON.parse(line);
       this.states.shouldRetry = false;
+      if (this.isServerHeartbeat(msg)) return;
       const { isValid: validSignature, error } = await this.verifyServerMessage(msg);
       if (msg?.reqId && this.queue.has(msg.reqId)) {
         const pendingMsg = { ...this.queue.get(msg.reqId)! };
@@ -410,7 +437,7 @@ export class BtpsClient {
         return;
       }
 
-      getHostAndSelector(receiverId)
+      getHostAndSelector(receiverId, this.dnsResolver)
         .then((btpConfig) => {
           if (!btpConfig) {
             resolve(undefined);
@@ -495,6 +522,7 @@ export class BtpsClient {
     }
 
     const serialized = JSON.stringify(artifact) + '\n';
+    this.lastActivityAt = Date.now();
     if (!this.socket?.write(serialized)) {
       this.backpressureQueue.push(serialized);
       this.states.isDraining = true;
@@ -585,18 +613,36 @@ export class BtpsClient {
   ): Promise<{ isValid: true; error: undefined } | { isValid: false; error: BTPErrorException }> {
     const { signature, signedBy, selector } = msg;
     /* If the message is not signed, no need to decrypt and verify as it is system message */
-    if (!msg.signature) {
+    if (!msg.signature && !this.options.requireSignedResponses) {
       return {
         isValid: true,
         error: undefined,
       };
     }
 
+    /* In strict mode only the server of the `to` domain may sign, a valid signature of another domain is forged */
+    if (this.options.requireSignedResponses) {
+      const domainOf = (identity?: string) => identity?.split('$')[1]?.toLowerCase();
+      const expectedDomain = domainOf(this.options.to);
+      const signerDomain = domainOf(signedBy);
+      if (!signature || !signerDomain || signerDomain !== expectedDomain) {
+        return {
+          isValid: false,
+          error: new BTPErrorException(BTP_ERROR_SIG_VERIFICATION, {
+            cause: signature
+              ? `Response signed by ${signedBy} instead of a ${expectedDomain} identity`
+              : 'Unsigned response rejected in strict mode',
+            meta: msg,
+          }),
+        };
+      }
+    }
+
     if (signature && signedBy && selector) {
       let senderPubPem: string | undefined;
       let error: BTPErrorException | undefined;
       try {
-        senderPubPem = await resolvePublicKey(signedBy, selector);
+        senderPubPem = await resolvePublicKey(signedBy, selector, this.dnsResolver);
         if (!senderPubPem) {
           error = new BTPErrorException(BTP_ERROR_SIG_VERIFICATION, {
             cause: `Failed to resolve public key for identity: ${signedBy} and selector: ${selector}`,
@@ -648,10 +694,114 @@ export class BtpsClient {
     };
   }
 
+  /**
+   * Server heartbeats are bare PING control artifacts without a status
+   */
+  protected isServerHeartbeat(msg: unknown): boolean {
+    const heartbeat = msg as Partial<BTPControlArtifact> & { status?: unknown };
+    return heartbeat?.action === 'PING' && heartbeat.status === undefined;
+  }
+
+  /**
+   * Periodically PING the server while the connection is idle
+   */
+  protected startKeepAlive() {
+    this.stopKeepAlive();
+    if (!this.options.keepAlive) return;
+
+    const intervalMs =
+      this.options.keepAliveIntervalMs ??
+      (this.options.connectionTimeoutMs ? Math.floor(this.options.connectionTimeoutMs / 2) : 15000);
+
+    /* re-armed from the last activity so an idle connection is pinged intervalMs after it went quiet */
+    const schedule = (delayMs: number) => {
+      this.keepAliveTimer = setTimeout(() => {
+        const idleMs = Date.now() - this.lastActivityAt;
+        if (idleMs < intervalMs) return schedule(intervalMs - idleMs);
+        if (this.states.isConnected && !this.states.isDestroyed) void this.ping(intervalMs);
+        schedule(intervalMs);
+      }, delayMs);
+      // keepalive alone must not hold the process open
+      this.keepAliveTimer.unref?.();
+    };
+
+    this.lastActivityAt = Date.now();
+    schedule(intervalMs);
+  }
+
+  protected stopKeepAlive() {
+    if (this.keepAliveTimer) clearTimeout(this.keepAliveTimer);
+    this.keepAliveTimer = undefined;
+  }
+
+  /**
+   * Check if the response rejects the protocol version of the request
+   * @param msg - The server response
+   * @returns True if the server listed the versions it supports
+   */
+  protected isVersionRejection(
+    msg: BTPServerResponse,
+  ): msg is BTPServerResponse & { document: BTPVersionNegotiationDoc } {
+    const document = msg?.document as BTPVersionNegotiationDoc | undefined;
+    return msg?.type === 'btps_error' && Array.isArray(document?.supportedVersions);
+  }
+
+  /**
+   * Pick the highest protocol version supported by both sides
+   * Only call it with verified responses.
+   * @param supportedVersions - The versions supported by the server
+   * @returns The negotiated version or undefined when there is no overlap
+   */
+  protected negotiateProtocolVersion(supportedVersions: string[]): string | undefined {
+    return negotiateVersion(supportedVersions);
+  }
+
+  /**
+   * Downgrade after the server rejected the protocol version of the artifact
+   * `send` only gets here with responses that passed verifyServerMessage, so a forged or (in strict mode)
+   * unsigned rejection never changes the version. The negotiated version is kept for the host.
+   * @returns The response to the downgraded artifact, or the rejection when the artifact cannot be downgraded
+   */
+  protected async retryWithNegotiatedVersion(
+    artifact: BTPArtifact,
+    result: BTPClientResponse,
+    timeoutMs: number,
+  ): Promise<BTPClientResponse> {
+    const { response } = result;
+    if (!response || !this.isVersionRejection(response)) return result;
+
+    const negotiated = this.negotiateProtocolVersion(response.document.supportedVersions);
+    if (!negotiated || negotiated === artifact.version) return result;
+    if (this.host) BtpsClient.negotiatedVersions.set(this.host, negotiated);
+
+    const downgraded = this.downgradeArtifact(artifact, negotiated);
+    return downgraded ? this.send(downgraded, timeoutMs) : result;
+  }
+
+  /**
+   * Rebuild the artifact in the negotiated protocol version
+   * Signed artifacts cannot be changed without the keys of their signer, who has to rebuild them.
+   * @returns The artifact to send again or undefined when it is signed
+   */
+  protected downgradeArtifact(artifact: BTPArtifact, version: string): BTPArtifact | undefined {
+    if ('signature' in artifact && artifact.signature) return undefined;
+    return { ...artifact, id: randomUUID(), version };
+  }
+
   protected validateArtifact(
     artifact: BTPArtifact,
   ): { isValid: true; error: undefined } | { isValid: false; error: BTPErrorException } {
-    const validationResult = validate(BtpArtifactServerSchema, artifact);
+    const schema = getBtpArtifactServerSchema(artifact.version);
+    if (!schema) {
+      return {
+        isValid: false,
+        error: new BTPErrorException(BTP_ERROR_UNSUPPORTED_VERSION, {
+          cause: `Unsupported protocol version: ${artifact.version}`,
+        }),
+      };
+    }
+
+    const validationResult = validate(schema, artifact);
     if (!validationResult.success) {
       return {
         isValid: false,
@@ -697,7 +847,7 @@ export class BtpsClient {
     artifact.id = id;
     artifact.issuedAt = artifact.issuedAt ?? new Date().toISOString();
 
-    return await new Promise<BTPClientResponse>((resolve) => {
+    const result = await new Promise<BTPClientResponse>((resolve) => {
       const job = { artifact, resolve, timeoutMs };
 
       if (this.queue.size < (this.options.maxQueue ?? 100)) {
@@ -714,20 +864,97 @@ export class BtpsClient {
         });
       }
     });
+    return this.retryWithNegotiatedVersion(artifact, result, timeoutMs);
+  }
+
+  /**
+   * Send a PING control artifact and wait for the PONG
+   * @param timeoutMs - The timeout in milliseconds
+   * @returns The server response with the measured round trip time
+   */
+  async ping(timeoutMs?: number): Promise<BTPPingResponse> {
+    const startedAt = Date.now();
+    const artifact: BTPControlArtifact = {
+      version: this.getProtocolVersion(),
+      id: randomUUID(),
+      issuedAt: new Date(startedAt).toISOString(),
+      action: 'PING',
+    };
+    const result = await this.send(artifact, timeoutMs);
+    if (result.error) return result;
+    return { ...result, latencyMs: Date.now() - startedAt };
+  }
+
+  /**
+   * Get the capabilities of the server hosting the `to` identity
+   * The signed capabilities document is cached per host, use `refresh` to fetch it again.
+   * @param refresh - Ignore the cached capabilities
+   * @returns The capabilities document of the server
+   */
+  async getCapabilities(
+    refresh: boolean = false,
+  ): Promise<
+    | { response: BTPCapabilitiesDoc; error: undefined }
+    | { response: undefined; error: BTPErrorException }
+  > {
+    const btpHostDnsConfig = await this.resolveBtpsHostDnsTxt(this.options.to);
+    if (!btpHostDnsConfig) {
+      return await this.buildClientErrorResponse(
+        new BTPErrorException(BTP_ERROR_RESOLVE_DNS, {
+          cause: `DNS resolution failed for ${this.options.to}`,
+        }),
+      );
+    }
+
+    const { hostname, port, selector } = btpHostDnsConfig;
+    const host = `${hostname}:${port}`;
+    const cached = BtpsClient.capabilitiesCache.get(host);
+    if (cached && !refresh) return { response: cached, error: undefined };
+
+    const artifact: BTPControlArtifact = {
+      version: this.getProtocolVersion(),
+      id: randomUUID(),
+      issuedAt: new Date().toISOString(),
+      action: 'CAPABILITIES',
+      hostSelector: selector,
+    };
+    const { response, error } = await this.send(artifact);
+    if (error || !response) {
+      return await this.buildClientErrorResponse(
+        error ?? new BTPErrorException({ message: 'no capabilities response' }),
+      );
+    }
+
+    /* unsigned responses pass verifyServerMessage as system messages, capabilities must be signed */
+    if (!response.status.ok || !response.signature || typeof response.document !== 'object') {
+      return await this.buildClientErrorResponse(
+        new BTPErrorException(BTP_ERROR_VALIDATION, {
+          cause: 'Capabilities response is not a signed capabilities document',
+          meta: response,
+        }),
+      );
+    }
+
+    const capabilities = response.document as BTPCapabilitiesDoc;
+    BtpsClient.capabilitiesCache.set(host, capabilities);
+    return { response: capabilities, error: undefined };
   }
 
   /**
    * Decrypt and verify the artifact
    * @param artifact - The artifact to decrypt and verify
    * @param senderPubPem - The public key of the sender
+   * @param receiverPrivatePem - The private key of the receiver
+   * @param secondFactor - The out-of-band secret, required for 2faEncrypt artifacts
    * @returns The decrypted and verified artifact
    */
   decryptVerifyArtifact = async <T = Record<string, unknown>>(
     artifact: VerifyEncryptedPayload<T>,
     senderPubPem: string,
     receiverPrivatePem?: string,
+    secondFactor?: string,
   ): Promise<BTPCryptoResponse<T>> => {
-    return await decryptVerify(senderPubPem, artifact, receiverPrivatePem);
+    return await decryptVerify(senderPubPem, artifact, receiverPrivatePem, secondFactor);
   };
 
   /**
@@ -784,13 +1011,18 @@ export class BtpsClient {
 
     try {
       /* try resolving the identity from the host dns config */
-      const dnsIdentityParts = await getDnsIdentityParts(identity, selector);
+      const dnsIdentityParts = await getDnsIdentityParts(
+        identity,
+        selector,
+        undefined,
+        this.dnsResolver,
+      );
       /* If the identity is resolved from the dns config, return the identity */
       if (dnsIdentityParts && typeof dnsIdentityParts === 'object') {
         const { key, version, pem } = dnsIdentityParts;
         return {
           response: {
-            keyType: key as 'rsa',
+            keyType: isBTPKeyType(key) ? key : 'rsa',
             publicKey: pem,
             selector,
             version,
@@ -819,7 +1051,7 @@ export class BtpsClient {
             identity,
             from,
             hostSelector: selector,
-            version: BTP_PROTOCOL_VERSION,
+            version: this.getProtocolVersion(),
             id: randomUUID(),
             issuedAt: new Date().toISOString(),
           };
@@ -856,7 +1088,7 @@ export class BtpsClient {
             }
 
             /* If the message is signed, decrypt and verify the message */
-            const hostPubPem = await resolvePublicKey(signedBy, selector);
+            const hostPubPem = await resolvePublicKey(signedBy, selector, this.dnsResolver);
             if (!hostPubPem) {
               resolve(
                 this.buildClientErrorResponse(
@@ -965,16 +1197,17 @@ export class BtpsClient {
 
   /**
    * Get the protocol version
-   * @returns The protocol version
+   * @returns The version negotiated with the host, the latest supported version until the host rejected it
    */
   getProtocolVersion(): string {
-    return BTP_PROTOCOL_VERSION;
+    return (this.host && BtpsClient.negotiatedVersions.get(this.host)) || BTP_PROTOCOL_VERSION;
   }
 
   /**
    * End the connection
    */
   end(): void {
+    this.stopKeepAlive();
     this.states.isConnecting = false;
     this.states.isConnected = false;
     this.socket?.end();
@@ -985,6 +1218,7 @@ export class BtpsClient {
    * Destroy the client
    */
   destroy(): void {
+    this.stopKeepAlive();
     this.states.isConnecting = false;
     this.states.isConnected = false;
     this.states.isDestroyed = true;
@@ -8,14 +8,26 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { BtpsTransporter } from './btpsTransporter.js';
 import { BtpsClient } from './btpsClient.js';
-import { BTPErrorException, BTP_ERROR_IDENTITY, BTP_ERROR_TIMEOUT } from '@core/error/index.js';
+import {
+  BTPErrorException,
+  BTP_ERROR_IDENTITY,
+  BTP_ERROR_IDENTITY_NOT_FOUND,
+  BTP_ERROR_RATE_LIMITER,
+  BTP_ERROR_REPLAY,
+  BTP_ERROR_UNSUPPORTED_VERSION,
+  BTP_ERROR_RESOLVE_DNS,
+  BTP_ERROR_TIMEOUT,
+  BTP_ERROR_TRUST_BLOCKED,
+} from '@core/error/index.js';
+import type { BTPError } from '@core/error/types.js';
 import {
   BTP_TRANSPORTER_DEFAULT_MAX_CONNECTIONS,
   BTP_TRANSPORTER_DEFAULT_CONNECTION_TTL_SECONDS,
   BTP_TRANSPORTER_ERROR_CONNECTION_ALREADY_EXISTS,
   BTP_TRANSPORTER_ERROR_MAX_CONNECTIONS_REACHED,
+  BTP_TRANSPORTER_ERROR_QUEUE_SIGNER_REQUIRED,
 } from './constants.ts/index.js';
-import { BTP_PROTOCOL_VERSION } from 'server/index.js';
+import { BTP_PROTOCOL_VERSION, InMemoryQueue } from 'server/index.js';
 import type {
   BTPClientOptions,
   BTPConnectionInternal,
@@ -23,6 +35,8 @@ import type {
 } from './types/index.js';
 import type { BTPTransporterArtifact } from 'server/index.js';
 import { ZodError } from 'zod';
+import { generateKeyPairSync } from 'crypto';
+import { verifySignature } from '@core/crypto/index.js';
 
 // --- Mocks ---
 vi.mock('./btpsClient.js');
@@ -43,6 +57,12 @@ beforeEach(async () => {
   );
 });
 
+const signer = generateKeyPairSync('rsa', {
+  modulusLength: 2048,
+  publicKeyEncoding: { type: 'spki', format: 'pem' },
+  privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+});
+
 describe('BtpsTransporter', () => {
   let transporter: BtpsTransporter;
   let mockClient: BtpsClient;
@@ -70,6 +90,7 @@ describe('BtpsTransporter', () => {
       }),
       onData: vi.fn(),
       update: vi.fn(),
+      getProtocolVersion: vi.fn().mockReturnValue(BTP_PROTOCOL_VERSION),
       getConnectionStates: vi.fn().mockReturnValue({
         isConnecting: false,
         isConnected: true,
@@ -889,6 +910,555 @@ describe('BtpsTransporter', () => {
     });
   });
 
+  describe('Delivery Queue', () => {
+    let queue: InMemoryQueue;
+    let queued: BtpsTransporter;
+    const unreachable = () => ({
+      response: undefined,
+      error: new BTPErrorException(BTP_ERROR_RESOLVE_DNS, { cause: 'no TXT record' }),
+    });
+    const delivered = () => ({
+      response: {
+        reqId: 'test-artifact-123',
+        status: { ok: true, code: 200 },
+        type: 'btps_response',
+        version: BTP_PROTOCOL_VERSION,
+        id: 'res-id',
+        issuedAt: new Date().toISOString(),
+      },
+      error: undefined,
+    });
+
+    beforeEach(() => {
+      queue = new InMemoryQueue();
+      queued = new BtpsTransporter({
+        ...mockOptions,
+        queue: {
+          store: queue,
+          baseDelayMs: 1000,
+          maxDelayMs: 10_000,
+          jitter: 0,
+          maxAttempts: 3,
+          signer,
+        },
+      });
+    });
+
+    afterEach(() => {
+      queued.destroy();
+    });
+
+    it('should queue the artifact when the destination is unreachable', async () => {
+      vi.mocked(mockClient.send).mockResolvedValueOnce(unreachable());
+      const onQueued = vi.fn();
+      queued.on('artifactQueued', onQueued);
+
+      const result = await queued.transport('alice$example.com', mockArtifact);
+
+      expect(result.queued).toBe(true);
+      expect(result.error?.code).toBe(BTP_ERROR_RESOLVE_DNS.code);
+      expect(await queue.getPending('alice$example.com')).toEqual([mockArtifact]);
+      expect(onQueued).toHaveBeenCalledWith(
+        mockArtifact.id,
+        'alice$example.com',
+        expect.objectContaining({
+          attempts: 1,
+          nextAttemptAt: new Date(Date.now() + 1000).toISOString(),
+        }),
+      );
+      expect(queued.getConnection('alice$example.com')).toBeUndefined();
+    });
+
+    it('should not queue errors returned by a reachable destination', async () => {
+      vi.mocked(mockClient.send).mockResolvedValueOnce({
+        response: undefined,
+        error: new BTPErrorException(BTP_ERROR_TIMEOUT),
+      });
+
+      const result = await queued.transport('alice$example.com', mockArtifact);
+
+      expect(result.queued).toBeUndefined();
+      expect(await queue.getPending()).toEqual([]);
+    });
+
+    it('should not queue anything when no queue is configured', async () => {
+      vi.mocked(mockClient.send).mockResolvedValueOnce(unreachable());
+
+      const result = await transporter.transport('alice$example.com', mockArtifact);
+
+      expect(result.queued).toBeUndefined();
+      expect(result.error?.code).toBe(BTP_ERROR_RESOLVE_DNS.code);
+    });
+
+    it('should only retry the artifact once it is due', async () => {
+      vi.mocked(mockClient.send).mockResolvedValueOnce(unreachable());
+      await queued.transport('alice$example.com', mockArtifact);
+
+      await queued.flushQueue();
+      expect(mockClient.send).toHaveBeenCalledTimes(1);
+
+      vi.mocked(mockClient.send).mockResolvedValueOnce(delivered() as never);
+      const onDelivered = vi.fn();
+      queued.on('artifactDelivered', onDelivered);
+      vi.setSystemTime(Date.now() + 1000);
+      await queued.flushQueue();
+
+      expect(mockClient.send).toHaveBeenCalledTimes(2);
+      expect(onDelivered).toHaveBeenCalledWith(
+        mockArtifact.id,
+        'alice$example.com',
+        expect.objectContaining({ status: { ok: true, code: 200 } }),
+      );
+      expect(await queue.getPending()).toEqual([]);
+    });
+
+    it('should not deliver an artifact again when removing it from the queue fails', async () => {
+      vi.mocked(mockClient.send).mockResolvedValueOnce(unreachable());
+      await queued.transport('alice$example.com', mockArtifact);
+      const markHandled = vi
+        .spyOn(queue, 'markHandled')
+        .mockRejectedValueOnce(new Error('disk full'));
+      const onQueueError = vi.fn();
+      const onDelivered = vi.fn();
+      queued.on('queueError', onQueueError);
+      queued.on('artifactDelivered', onDelivered);
+
+      vi.mocked(mockClient.send).mockResolvedValueOnce(delivered() as never);
+      vi.setSystemTime(Date.now() + 1000);
+      await queued.flushQueue();
+
+      expect(onDelivered).toHaveBeenCalledTimes(1);
+      expect(onQueueError.mock.calls[0][0].message).toBe('disk full');
+      expect(await queue.getPending()).toEqual([mockArtifact]);
+
+      await queued.flushQueue();
+
+      expect(mockClient.send).toHaveBeenCalledTimes(2);
+      expect(markHandled).toHaveBeenCalledTimes(2);
+      expect(await queue.getPending()).toEqual([]);
+    });
+
+    it('should back off exponentially between attempts', async () => {
+      vi.mocked(mockClient.send).mockResolvedValue(unreachable());
+      await queued.transport('alice$example.com', mockArtifact);
+
+      vi.setSystemTime(Date.now() + 1000);
+      await queued.flushQueue();
+
+      const [entry] = await queue.getDue(Number.MAX_SAFE_INTEGER);
+      expect(entry.attempts).toBe(2);
+      expect(entry.nextAttemptAt).toBe(new Date(Date.now() + 2000).toISOString());
+      expect(entry.lastError).toBe(BTP_ERROR_RESOLVE_DNS.message);
+    });
+
+    it('should give up after maxAttempts', async () => {
+      vi.mocked(mockClient.send).mockResolvedValue(unreachable());
+      const onFailed = vi.fn();
+      queued.on('deliveryFailed', onFailed);
+      await queued.transport('alice$example.com', mockArtifact);
+
+      vi.setSystemTime(Date.now() + 1000);
+      await queued.flushQueue();
+      vi.setSystemTime(Date.now() + 2000);
+      await queued.flushQueue();
+
+      expect(mockClient.send).toHaveBeenCalledTimes(3);
+      expect(onFailed).toHaveBeenCalledWith(
+        mockArtifact.id,
+        'alice$example.com',
+        expect.objectContaining({ artifact: mockArtifact, attempts: 3 }),
+      );
+      expect(await queue.getPending()).toEqual([]);
+    });
+
+    it('should fail without retrying when the receiver rejects the artifact', async () => {
+      vi.mocked(mockClient.send).mockResolvedValueOnce(unreachable());
+      await queued.transport('alice$example.com', mockArtifact);
+
+      vi.mocked(mockClient.send).mockResolvedValueOnce({
+        response: {
+          ...delivered().response,
+          status: { ok: false, code: 403, message: 'trust blocked' },
+        },
+        error: undefined,
+      } as never);
+      const onFailed = vi.fn();
+      queued.on('deliveryFailed', onFailed);
+      vi.setSystemTime(Date.now() + 1000);
+      await queued.flushQueue();
+
+      const failure = onFailed.mock.calls[0][2];
+      expect(failure.attempts).toBe(2);
+      expect(failure.error.code).toBe(403);
+      expect(failure.error.message).toBe('trust blocked');
+      expect(await queue.getPending()).toEqual([]);
+    });
+
+    it('should queue rate limited and failing deliveries instead of reporting them', async () => {
+      const limited = (code: number, message: string) =>
+        ({
+          response: { ...delivered().response, status: { ok: false, code, message } },
+          error: undefined,
+        }) as never;
+      const onFailed = vi.fn();
+      queued.on('deliveryFailed', onFailed);
+      vi.mocked(mockClient.send).mockResolvedValueOnce(limited(429, 'Too many requests'));
+
+      const result = await queued.transport('alice$example.com', mockArtifact);
+
+      expect(result.queued).toBe(true);
+      expect(queued.getConnection('alice$example.com')).toBeDefined();
+
+      vi.mocked(mockClient.send).mockResolvedValueOnce({
+        response: undefined,
+        error: new BTPErrorException(BTP_ERROR_RATE_LIMITER),
+      });
+      vi.setSystemTime(Date.now() + 1000);
+      await queued.flushQueue();
+
+      const [entry] = await queue.getDue(Number.MAX_SAFE_INTEGER);
+      expect(entry.attempts).toBe(2);
+      expect(entry.lastError).toBe(BTP_ERROR_RATE_LIMITER.message);
+
+      vi.mocked(mockClient.send).mockResolvedValueOnce(limited(503, 'Service unavailable'));
+      const failing = await queued.transport('bob$example.com', mockArtifact);
+
+      expect(failing.queued).toBe(true);
+      expect(await queue.getPending('bob$example.com')).toEqual([mockArtifact]);
+      expect(onFailed).not.toHaveBeenCalled();
+    });
+
+    it('should let prepareRetry replace the artifact before it is sent again', async () => {
+      const refreshed = { ...mockArtifact, issuedAt: new Date(Date.now() + 1000).toISOString() };
+      const prepareRetry = vi.fn().mockResolvedValue(refreshed);
+      const withPrepare = new BtpsTransporter({
+        ...mockOptions,
+        queue: { store: queue, baseDelayMs: 1000, jitter: 0, prepareRetry },
+      });
+      vi.mocked(mockClient.send).mockResolvedValueOnce(unreachable());
+      await withPrepare.transport('alice$example.com', mockArtifact);
+
+      vi.mocked(mockClient.send).mockResolvedValueOnce(delivered() as never);
+      vi.setSystemTime(Date.now() + 1000);
+      await withPrepare.flushQueue();
+
+      expect(prepareRetry).toHaveBeenCalledWith(mockArtifact, 2);
+      expect(mockClient.send).toHaveBeenLastCalledWith(refreshed, 5000);
+      withPrepare.destroy();
+    });
+
+    it('should require a signer or prepareRetry to re-issue queued artifacts', () => {
+      expect(() => new BtpsTransporter({ ...mockOptions, queue: { store: queue } })).toThrow(
+        BTP_TRANSPORTER_ERROR_QUEUE_SIGNER_REQUIRED.message,
+      );
+    });
+
+    it('should re-sign the artifact with a fresh id and issuedAt before it is sent again', async () => {
+      vi.mocked(mockClient.send).mockResolvedValueOnce(unreachable());
+      await queued.transport('alice$example.com', mockArtifact);
+
+      vi.mocked(mockClient.send).mockResolvedValueOnce(delivered() as never);
+      vi.setSystemTime(Date.now() + 1000);
+      await queued.flushQueue();
+
+      const retried = vi.mocked(mockClient.send).mock.calls[1][0] as BTPTransporterArtifact;
+      const { signature, ...signedMsg } = retried;
+      expect(retried).toEqual({
+        ...mockArtifact,
+        id: expect.any(String),
+        issuedAt: new Date().toISOString(),
+        signature: expect.any(Object),
+      });
+      expect(retried.id).not.toBe(mockArtifact.id);
+      expect(verifySignature(signedMsg, signature, signer.publicKey).isValid).toBe(true);
+    });
+
+    it('should treat a replay rejection of a retried artifact as delivered', async () => {
+      vi.mocked(mockClient.send).mockResolvedValueOnce(unreachable());
+      await queued.transport('alice$example.com', mockArtifact);
+      const onDelivered = vi.fn();
+      const onFailed = vi.fn();
+      queued.on('artifactDelivered', onDelivered);
+      queued.on('deliveryFailed', onFailed);
+
+      const replayed = {
+        response: {
+          ...delivered().response,
+          status: {
+            ok: false,
+            code: 500,
+            message: BTP_ERROR_REPLAY.message,
+            errorCode: BTP_ERROR_REPLAY.code,
+          },
+        },
+        error: undefined,
+      };
+      vi.mocked(mockClient.send).mockResolvedValueOnce(replayed as never);
+      vi.setSystemTime(Date.now() + 1000);
+      await queued.flushQueue();
+
+      expect(onDelivered).toHaveBeenCalledWith(
+        mockArtifact.id,
+        'alice$example.com',
+        replayed.response,
+      );
+      expect(onFailed).not.toHaveBeenCalled();
+      expect(await queue.getPending()).toEqual([]);
+    });
+
+    it('should re-sign the artifact in the version the receiver negotiated', async () => {
+      const versionRejection = {
+        response: {
+          ...delivered().response,
+          status: {
+            ok: false,
+            code: 505,
+            message: BTP_ERROR_UNSUPPORTED_VERSION.message,
+            errorCode: String(BTP_ERROR_UNSUPPORTED_VERSION.code),
+          },
+          type: 'btps_error',
+          document: { minVersion: '1.0.0', maxVersion: '1.0.0', supportedVersions: ['1.0.0'] },
+        },
+        error: undefined,
+      };
+      vi.mocked(mockClient.send).mockImplementationOnce(async () => {
+        vi.mocked(mockClient.getProtocolVersion).mockReturnValue('1.0.0');
+        return versionRejection as never;
+      });
+      vi.mocked(mockClient.send).mockResolvedValue(delivered() as never);
+
+      const result = await queued.transport('alice$example.com', mockArtifact);
+      await queued.transport('alice$example.com', mockArtifact);
+
+      const sent = vi.mocked(mockClient.send).mock.calls.map(([artifact]) => artifact);
+      expect(sent.map(({ version }) => version)).toEqual([mockArtifact.version, '1.0.0', '1.0.0']);
+      const { signature, ...signedMsg } = sent[1] as BTPTransporterArtifact;
+      expect(signature.canonicalization).toBe('none');
+      expect(verifySignature(signedMsg, signature, signer.publicKey).isValid).toBe(true);
+      expect(result.response?.status.ok).toBe(true);
+      expect(result.queued).toBeUndefined();
+    });
+
+    it('should poll the queue for due artifacts', async () => {
+      vi.mocked(mockClient.send).mockResolvedValueOnce(unreachable());
+      await queued.transport('alice$example.com', mockArtifact);
+      vi.mocked(mockClient.send).mockResolvedValueOnce(delivered() as never);
+
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(mockClient.send).toHaveBeenCalledTimes(2);
+      expect(await queue.getPending()).toEqual([]);
+    });
+
+    it('should stop polling on destroy', async () => {
+      const flush = vi.spyOn(queued, 'flushQueue');
+      queued.destroy();
+
+      await vi.advanceTimersByTimeAsync(5000);
+
+      expect(flush).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Delivery Failures', () => {
+    const rejected = (error: BTPError) =>
+      ({
+        response: {
+          reqId: 'test-artifact-123',
+          status: { ok: false, code: 500, message: error.message, errorCode: String(error.code) },
+          type: 'btps_error',
+          version: BTP_PROTOCOL_VERSION,
+          id: 'res-id',
+          issuedAt: new Date().toISOString(),
+        },
+        error: undefined,
+      }) as never;
+    const unreachable = () => ({
+      response: undefined,
+      error: new BTPErrorException(BTP_ERROR_RESOLVE_DNS),
+    });
+
+    it('should report a rejected artifact with a BTP_DELIVERY_FAILURE artifact', async () => {
+      const onDeliveryFailure = vi.fn();
+      const reporting = new BtpsTransporter({ ...mockOptions, onDeliveryFailure });
+      const onFailed = vi.fn();
+      reporting.on('deliveryFailed', onFailed);
+      vi.mocked(mockClient.send).mockResolvedValueOnce(rejected(BTP_ERROR_TRUST_BLOCKED));
+
+      const result = await reporting.transport('alice$example.com', mockArtifact, undefined, {
+        agentArtifactId: 'agent-artifact-1',
+      });
+
+      expect(result.response?.status.ok).toBe(false);
+      expect(onDeliveryFailure).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: 'BTP_DELIVERY_FAILURE',
+          from: mockArtifact.from,
+          to: mockArtifact.to,
+          document: expect.objectContaining({
+            reason: BTP_ERROR_TRUST_BLOCKED.message,
+            retryCount: 0,
+            recipient: mockArtifact.to,
+            transportArtifactId: mockArtifact.id,
+            agentArtifactId: 'agent-artifact-1',
+            document: mockArtifact,
+          }),
+        }),
+      );
+      expect(onFailed).toHaveBeenCalledWith(
+        mockArtifact.id,
+        'alice$example.com',
+        expect.objectContaining({
+          attempts: 1,
+          failureArtifact: onDeliveryFailure.mock.calls[0][0],
+        }),
+      );
+      reporting.destroy();
+    });
+
+    it('should report non-retryable errors', async () => {
+      const onDeliveryFailure = vi.fn();
+      const reporting = new BtpsTransporter({ ...mockOptions, onDeliveryFailure });
+      vi.mocked(mockClient.send).mockResolvedValueOnce({
+        response: undefined,
+        error: new BTPErrorException(BTP_ERROR_IDENTITY_NOT_FOUND),
+      });
+
+      await reporting.transport('alice$example.com', mockArtifact);
+
+      const [failure] = onDeliveryFailure.mock.calls[0];
+      expect(failure.document.errorLog.code).toBe(BTP_ERROR_IDENTITY_NOT_FOUND.code);
+      expect(failure.document).not.toHaveProperty('agentArtifactId');
+      reporting.destroy();
+    });
+
+    it('should report unreachable destinations right away when no queue is configured', async () => {
+      const onDeliveryFailure = vi.fn();
+      const reporting = new BtpsTransporter({ ...mockOptions, onDeliveryFailure });
+      vi.mocked(mockClient.send).mockResolvedValueOnce(unreachable());
+
+      const result = await reporting.transport('alice$example.com', mockArtifact);
+
+      expect(result.queued).toBeUndefined();
+      expect(onDeliveryFailure).toHaveBeenCalledTimes(1);
+      expect(onDeliveryFailure.mock.calls[0][0].document).toMatchObject({
+        reason: BTP_ERROR_RESOLVE_DNS.message,
+        retryCount: 0,
+        transportArtifactId: mockArtifact.id,
+      });
+      reporting.destroy();
+    });
+
+    it('should report artifacts the queue failed to store', async () => {
+      const onDeliveryFailure = vi.fn();
+      const store = new InMemoryQueue();
+      vi.spyOn(store, 'add').mockRejectedValueOnce(new Error('disk full'));
+      const reporting = new BtpsTransporter({
+        ...mockOptions,
+        onDeliveryFailure,
+        queue: { store, signer },
+      });
+      vi.mocked(mockClient.send).mockResolvedValueOnce(unreachable());
+
+      const result = await reporting.transport('alice$example.com', mockArtifact);
+
+      expect(result.queued).toBe(false);
+      expect(onDeliveryFailure.mock.calls[0][0].document.retryCount).toBe(0);
+      reporting.destroy();
+    });
+
+    it('should not report errors whose outcome is unknown', async () => {
+      const onDeliveryFailure = vi.fn();
+      const reporting = new BtpsTransporter({ ...mockOptions, onDeliveryFailure });
+      vi.mocked(mockClient.send).mockResolvedValueOnce({
+        response: undefined,
+        error: new BTPErrorException(BTP_ERROR_TIMEOUT),
+      });
+
+      await reporting.transport('alice$example.com', mockArtifact);
+
+      expect(onDeliveryFailure).not.toHaveBeenCalled();
+      reporting.destroy();
+    });
+
+    it('should report queued artifacts that exhausted their retries', async () => {
+      const onDeliveryFailure = vi.fn();
+      const reporting = new BtpsTransporter({
+        ...mockOptions,
+        onDeliveryFailure,
+        queue: {
+          store: new InMemoryQueue(),
+          baseDelayMs: 1000,
+          jitter: 0,
+          maxAttempts: 2,
+          signer,
+        },
+      });
+      vi.mocked(mockClient.send).mockResolvedValue(unreachable());
+
+      await reporting.transport('alice$example.com', mockArtifact, undefined, {
+        agentArtifactId: 'agent-artifact-1',
+      });
+      expect(onDeliveryFailure).not.toHaveBeenCalled();
+
+      vi.setSystemTime(Date.now() + 1000);
+      await reporting.flushQueue();
+
+      expect(onDeliveryFailure).toHaveBeenCalledTimes(1);
+      expect(onDeliveryFailure.mock.calls[0][0].document).toMatchObject({
+        reason: BTP_ERROR_RESOLVE_DNS.message,
+        retryCount: 1,
+        transportArtifactId: mockArtifact.id,
+        agentArtifactId: 'agent-artifact-1',
+      });
+      reporting.destroy();
+    });
+
+    it('should still call onDeliveryFailure when the failureStore throws', async () => {
+      const failureStore = { create: vi.fn().mockRejectedValue(new Error('mailbox unavailable')) };
+      const onDeliveryFailure = vi.fn();
+      const reporting = new BtpsTransporter({
+        ...mockOptions,
+        failureStore: failureStore as unknown as BTPTransporterOptions['failureStore'],
+        onDeliveryFailure,
+      });
+      const onQueueError = vi.fn();
+      reporting.on('queueError', onQueueError);
+      vi.mocked(mockClient.send).mockResolvedValueOnce(rejected(BTP_ERROR_TRUST_BLOCKED));
+
+      await reporting.transport('alice$example.com', mockArtifact);
+
+      const [failure] = onDeliveryFailure.mock.calls[0];
+      expect(failureStore.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          identity: mockArtifact.from,
+          folder: 'inbox',
+          artifact: failure,
+        }),
+      );
+      expect(onQueueError.mock.calls[0][0].message).toBe('mailbox unavailable');
+      reporting.destroy();
+    });
+
+    it('should emit queueError when onDeliveryFailure throws', async () => {
+      const reporting = new BtpsTransporter({
+        ...mockOptions,
+        onDeliveryFailure: () => Promise.reject(new Error('inbox unavailable')),
+      });
+      const onQueueError = vi.fn();
+      const onFailed = vi.fn();
+      reporting.on('queueError', onQueueError);
+      reporting.on('deliveryFailed', onFailed);
+      vi.mocked(mockClient.send).mockResolvedValueOnce(rejected(BTP_ERROR_TRUST_BLOCKED));
+
+      await reporting.transport('alice$example.com', mockArtifact);
+
+      expect(onQueueError.mock.calls[0][0].message).toBe('inbox unavailable');
+      expect(onFailed).toHaveBeenCalledTimes(1);
+      reporting.destroy();
+    });
+  });
+
   describe('Edge Cases', () => {
     it('should handle concurrent registrations of same connection', async () => {
       const promises = Array(5)
@@ -5,7 +5,13 @@
  * https://www.apache.org/licenses/LICENSE-2.0
  */
 
-import { BTP_ERROR_IDENTITY, BTPErrorException } from '@core/error/index.js';
+import {
+  BTP_ERROR_IDENTITY,
+  BTP_ERROR_RATE_LIMITER,
+  BTP_ERROR_REPLAY,
+  BTPErrorException,
+  transformToBTPErrorException,
+} from '@core/error/index.js';
 import { BtpsClient } from './btpsClient.js';
 import type {
   BTPClientOptions,
@@ -18,18 +24,42 @@ import type {
   BTPConnectionInternal,
   BtpsClientEvents,
   BTPTransporterMetrics,
+  BTPTransporterQueueOptions,
+  BTPTransportOptions,
+  BTPTransportResponse,
 } from './types/index.js';
 import { isValidIdentity } from '@core/utils/index.js';
-import { BTP_PROTOCOL_VERSION, BTPTransporterArtifact } from 'server/index.js';
+import {
+  BTP_PROTOCOL_VERSION,
+  BTPDeliveryFailureArtifact,
+  BTPTransporterArtifact,
+} from 'server/index.js';
 import {
   BTP_TRANSPORTER_DEFAULT_CONNECTION_TTL_SECONDS,
+  BTP_TRANSPORTER_DEFAULT_MAX_ATTEMPTS,
   BTP_TRANSPORTER_DEFAULT_MAX_CONNECTIONS,
+  BTP_TRANSPORTER_DEFAULT_QUEUE_POLL_INTERVAL_MS,
+  BTP_TRANSPORTER_DEFAULT_RETRY_BASE_DELAY_MS,
+  BTP_TRANSPORTER_DEFAULT_RETRY_JITTER,
+  BTP_TRANSPORTER_DEFAULT_RETRY_MAX_DELAY_MS,
   BTP_TRANSPORTER_ERROR_CONNECTION_ALREADY_EXISTS,
   BTP_TRANSPORTER_ERROR_MAX_CONNECTIONS_REACHED,
+  BTP_TRANSPORTER_ERROR_QUEUE_SIGNER_REQUIRED,
+  BTP_TRANSPORTER_NON_RETRYABLE_ERROR_CODES,
+  BTP_TRANSPORTER_UNREACHABLE_ERROR_CODES,
 } from './constants.ts/index.js';
+import {
+  BTPSMessageQueue,
+  JsonFileQueue,
+  createDeliveryFailureArtifact,
+} from '@core/server/helpers/index.js';
+import type { BTPSQueueEntry } from '@core/server/helpers/index.js';
 import { BtpTransporterArtifactSchema } from '@core/server/schemas/artifacts/transporterSchema.js';
 import { validate } from '@core/utils/validation.js';
+import { compareVersions } from '@core/utils/version.js';
+import { signBtpPayload } from '@core/crypto/index.js';
 import { EventEmitter } from 'events';
+import { randomUUID } from 'crypto';
 
 export class BtpsTransporter {
   private connections: Map<string, BTPConnectionInternal> = new Map();
@@ -38,16 +68,34 @@ export class BtpsTransporter {
   private maxConnections: number;
   private connectionTTLSeconds: number;
   private readonly emitter: EventEmitter = new EventEmitter();
+  private readonly queue?: BTPSMessageQueue;
+  private readonly queueOptions?: BTPTransporterQueueOptions;
+  private queueTimer?: NodeJS.Timeout;
+  private flushing?: Promise<void>;
+  /* queue entries delivered whose removal from the store failed, they must not be sent again */
+  private readonly deliveredEntries = new Set<string>();
+  private readonly failureStore?: BTPTransporterOptions['failureStore'];
+  private readonly onDeliveryFailure?: BTPTransporterOptions['onDeliveryFailure'];
 
   /*
    * @param options - The options for the transporter
    * @param options.maxConnections - The maximum number of connections to maintain
    * @param options.connectionTTLSeconds - The TTL for the connections
+   * @param options.queue - Queue artifacts for unreachable destinations and retry them
+   * @param options.failureStore - Mailbox store the BTP_DELIVERY_FAILURE artifacts are saved to, in the inbox of their sender
+   * @param options.onDeliveryFailure - Receives the BTP_DELIVERY_FAILURE artifact of undeliverable artifacts
    * @param options.clientOptions - The options for the client
    * @description The transporter is the transporter that is currently created
    */
   constructor(options: BTPTransporterOptions) {
-    const { maxConnections, connectionTTLSeconds, ...clientOptions } = options;
+    const {
+      maxConnections,
+      connectionTTLSeconds,
+      queue,
+      failureStore,
+      onDeliveryFailure,
+      ...clientOptions
+    } = options;
 
     this.maxConnections = maxConnections ?? BTP_TRANSPORTER_DEFAULT_MAX_CONNECTIONS;
     this.connectionTTLSeconds =
@@ -56,6 +104,24 @@ export class BtpsTransporter {
     this.clientOptions = {
       ...clientOptions,
     };
+    this.failureStore = failureStore;
+    this.onDeliveryFailure = onDeliveryFailure;
+
+    if (queue) {
+      /* receivers reject artifacts outside their replay window, a retry must be issued anew */
+      if (!queue.signer && !queue.prepareRetry) {
+        throw new BTPErrorException(BTP_TRANSPORTER_ERROR_QUEUE_SIGNER_REQUIRED);
+      }
+      const { store } = queue;
+      this.queue = typeof store === 'string' ? new JsonFileQueue(store) : store;
+      this.queueOptions = queue;
+      /* the poller must not keep the process alive on its own */
+      this.queueTimer = setInterval(
+        () => void this.flushQueue(),
+        queue.pollIntervalMs ?? BTP_TRANSPORTER_DEFAULT_QUEUE_POLL_INTERVAL_MS,
+      );
+      this.queueTimer.unref();
+    }
   }
 
   /*
@@ -278,14 +344,16 @@ export class BtpsTransporter {
    * @param to - The identity of the receiver
    * @param artifact - The artifact to transport
    * @param clientOptions - The options for the client
-   * @returns The client response
+   * @param options - The options for this transport, e.g. the agent artifact it was created for
+   * @returns The client response, `queued` is set when the artifact was queued for retry
    * @description The client response is the response from the client
    */
   async transport(
     to: string,
     artifact: BTPTransporterArtifact,
     clientOptions?: BTPClientOptions,
-  ): Promise<BTPClientResponse> {
+    options?: BTPTransportOptions,
+  ): Promise<BTPTransportResponse> {
     const validationResult = validate(BtpTransporterArtifactSchema, artifact);
     if (!validationResult.success) {
       return this.buildClientErrorResponse(
@@ -296,6 +364,48 @@ export class BtpsTransporter {
       );
     }
 
+    const result = await this.send(to, artifact, clientOptions);
+    const { agentArtifactId } = options ?? {};
+    if (this.isRejectedDelivery(result)) {
+      await this.reportDeliveryFailure(to, {
+        artifact,
+        attempts: 1,
+        error: this.getDeliveryError(result),
+        agentArtifactId,
+      });
+      return result;
+    }
+
+    if (!this.isRetryableDelivery(result)) {
+      return result;
+    }
+
+    const error = this.getDeliveryError(result);
+    const queued = this.queue
+      ? await this.enqueue(to, artifact, error, agentArtifactId)
+      : undefined;
+    /* an artifact that is not queued gets no later attempt, its sender must learn about it now */
+    if (!queued) {
+      await this.reportDeliveryFailure(to, { artifact, attempts: 1, error, agentArtifactId });
+    }
+    return this.queue ? { ...result, queued } : result;
+  }
+
+  /*
+   * @param to - The identity of the receiver
+   * @param artifact - The artifact to send
+   * @param clientOptions - The options for the client
+   * @param attempts - The attempt of a queued retry, retries are always re-issued
+   * @returns The client response
+   * @description Sends the artifact over the connection of the receiver, registering one if needed,
+   * and sends it once more in the version the client negotiated when the receiver rejected its version
+   */
+  protected async send(
+    to: string,
+    artifact: BTPTransporterArtifact,
+    clientOptions?: BTPClientOptions,
+    attempts?: number,
+  ): Promise<BTPClientResponse> {
     let connection = this.getConnection(to);
     if (!connection) {
       connection = await this.registerConnection(to, clientOptions);
@@ -306,7 +416,331 @@ export class BtpsTransporter {
      * if not provided then send method will take care the its own default timeout
      */
     const timeoutMs = clientOptions?.connectionTimeoutMs ?? 5000;
-    return connection.client.send(artifact, timeoutMs);
+    const { client } = connection;
+    const sent = await this.prepareArtifact(client, artifact, attempts);
+    const result = await client.send(sent, timeoutMs);
+    if (result.response?.status.ok !== false || !this.needsDowngrade(client, sent)) {
+      return result;
+    }
+    return client.send(await this.prepareArtifact(client, artifact, attempts), timeoutMs);
+  }
+
+  /*
+   * @param client - The client of the receiver
+   * @param artifact - The artifact to send
+   * @returns Whether the receiver only accepts a lower version than the artifact declares
+   * @description Signed artifacts can only be downgraded by re-signing them, which needs the queue signer or prepareRetry
+   */
+  protected needsDowngrade(client: BtpsClient, artifact: BTPTransporterArtifact): boolean {
+    return (
+      !!this.queueOptions && compareVersions(client.getProtocolVersion(), artifact.version) < 0
+    );
+  }
+
+  /*
+   * @param client - The client of the receiver
+   * @param artifact - The artifact to send
+   * @param attempts - The attempt of a queued retry
+   * @returns The artifact, re-issued for retries and in the version negotiated with the receiver when it is lower
+   */
+  protected async prepareArtifact(
+    client: BtpsClient,
+    artifact: BTPTransporterArtifact,
+    attempts?: number,
+  ): Promise<BTPTransporterArtifact> {
+    const downgrade = this.needsDowngrade(client, artifact);
+    if (!attempts && !downgrade) return artifact;
+
+    const version = client.getProtocolVersion();
+    return this.prepareRetry(downgrade ? { ...artifact, version } : artifact, attempts ?? 1);
+  }
+
+  /*
+   * @param error - The error of the failed send
+   * @returns Whether the error means the destination could not be reached
+   */
+  protected isUnreachableError(error: BTPErrorException): boolean {
+    if (error.code && BTP_TRANSPORTER_UNREACHABLE_ERROR_CODES.includes(String(error.code))) {
+      return true;
+    }
+    const message = (error.message ?? '').toLowerCase();
+    return (
+      message.includes('dns resolution failed') ||
+      message.includes('socket could not be established')
+    );
+  }
+
+  /*
+   * @param result - The result of the send
+   * @returns Whether the receiver refused the artifact, sending it again will not change that
+   */
+  protected isRejectedDelivery(result: BTPClientResponse): boolean {
+    if (result.response) {
+      return !result.response.status.ok && !this.isTransientRejection(result);
+    }
+    return (
+      !!result.error?.code &&
+      BTP_TRANSPORTER_NON_RETRYABLE_ERROR_CODES.includes(String(result.error.code))
+    );
+  }
+
+  /*
+   * @param result - The result of the send
+   * @returns Whether the receiver refused the artifact for now, e.g. rate limited or failing
+   */
+  protected isTransientRejection(result: BTPClientResponse): boolean {
+    const { response, error } = result;
+    if (error) return error.code === BTP_ERROR_RATE_LIMITER.code;
+    if (!response || response.status.ok) return false;
+
+    const { code, errorCode } = response.status;
+    /* the server answers errors with string codes as status 500, the errorCode tells the permanent ones apart */
+    if (errorCode && BTP_TRANSPORTER_NON_RETRYABLE_ERROR_CODES.includes(errorCode)) {
+      return false;
+    }
+    /* 505 is an unsupported protocol version, sending it again will not change that */
+    return code === 429 || (code >= 500 && code !== 505);
+  }
+
+  /*
+   * @param result - The result of the send
+   * @returns Whether sending the artifact again later may succeed
+   */
+  protected isRetryableDelivery(result: BTPClientResponse): boolean {
+    return (
+      (!!result.error && this.isUnreachableError(result.error)) || this.isTransientRejection(result)
+    );
+  }
+
+  /*
+   * @param result - The result of a failed send
+   * @returns The error of the send or the rejection status of the receiver as error
+   */
+  protected getDeliveryError(result: BTPClientResponse): BTPErrorException {
+    const { response, error } = result;
+    return (
+      error ??
+      new BTPErrorException({
+        code: response?.status.errorCode ?? response?.status.code,
+        message: response?.status.message ?? 'Delivery rejected by the receiver',
+      })
+    );
+  }
+
+  /*
+   * @param to - The identity of the receiver
+   * @param failure - The artifact given up with the error of its last attempt
+   * @description Builds the BTP_DELIVERY_FAILURE artifact, stores it in the sender inbox and hands it to onDeliveryFailure
+   */
+  protected async reportDeliveryFailure(
+    to: string,
+    failure: {
+      artifact: BTPTransporterArtifact;
+      attempts: number;
+      error: BTPErrorException;
+      agentArtifactId?: string;
+    },
+  ): Promise<void> {
+    const { artifact, attempts, error, agentArtifactId } = failure;
+    const failureArtifact = createDeliveryFailureArtifact({
+      artifact,
+      error,
+      retryCount: attempts - 1,
+      agentArtifactId,
+    });
+
+    await this.storeDeliveryFailure(failureArtifact);
+    try {
+      await this.onDeliveryFailure?.(failureArtifact);
+    } catch (handlerError) {
+      this.emitter.emit('queueError', transformToBTPErrorException(handlerError));
+    }
+    this.emitter.emit('deliveryFailed', artifact.id, to, {
+      artifact,
+      attempts,
+      error,
+      failureArtifact,
+    });
+  }
+
+  /*
+   * @param failureArtifact - The bounce of an undeliverable artifact
+   * @description Saves the bounce in the inbox of failure.from so agents receive it through inbox.fetch
+   */
+  protected async storeDeliveryFailure(failureArtifact: BTPDeliveryFailureArtifact): Promise<void> {
+    if (!this.failureStore) return;
+    try {
+      await this.failureStore.create({
+        identity: failureArtifact.from,
+        folder: 'inbox',
+        artifactId: failureArtifact.id,
+        artifact: failureArtifact,
+        createdAt: failureArtifact.issuedAt,
+        meta: { seen: false },
+      });
+    } catch (storeError) {
+      this.emitter.emit('queueError', transformToBTPErrorException(storeError));
+    }
+  }
+
+  /*
+   * @param attempts - The delivery attempts made so far
+   * @returns The delay in milliseconds before the next attempt
+   * @description Exponential backoff capped at maxDelayMs with +/- jitter applied
+   */
+  protected getRetryDelayMs(attempts: number): number {
+    const baseDelayMs =
+      this.queueOptions?.baseDelayMs ?? BTP_TRANSPORTER_DEFAULT_RETRY_BASE_DELAY_MS;
+    const maxDelayMs = this.queueOptions?.maxDelayMs ?? BTP_TRANSPORTER_DEFAULT_RETRY_MAX_DELAY_MS;
+    const jitter = Math.min(
+      Math.max(this.queueOptions?.jitter ?? BTP_TRANSPORTER_DEFAULT_RETRY_JITTER, 0),
+      1,
+    );
+    const delay = Math.min(baseDelayMs * 2 ** Math.max(attempts - 1, 0), maxDelayMs);
+    return Math.round(delay * (1 + jitter * (Math.random() * 2 - 1)));
+  }
+
+  /*
+   * @param to - The identity of the receiver
+   * @param artifact - The artifact that could not be delivered
+   * @param error - The error of the first attempt
+   * @param agentArtifactId - The id of the agent artifact the artifact was created for
+   * @returns Whether the artifact was queued
+   */
+  protected async enqueue(
+    to: string,
+    artifact: BTPTransporterArtifact,
+    error: BTPErrorException,
+    agentArtifactId?: string,
+  ): Promise<boolean> {
+    /* the client gave up on the destination, the next attempt starts with a fresh one */
+    if (this.isUnreachableError(error)) this.deregisterConnection(to);
+    const nextAttemptAt = new Date(Date.now() + this.getRetryDelayMs(1)).toISOString();
+    try {
+      await this.queue!.add(artifact, {
+        to,
+        attempts: 1,
+        nextAttemptAt,
+        lastError: error.message,
+        agentArtifactId,
+      });
+    } catch (queueError) {
+      this.emitter.emit('queueError', transformToBTPErrorException(queueError));
+      return false;
+    }
+    this.emitter.emit('artifactQueued', artifact.id, to, { attempts: 1, nextAttemptAt, error });
+    return true;
+  }
+
+  /*
+   * @description Delivers the queued artifacts that are due, one flush runs at a time
+   */
+  async flushQueue(): Promise<void> {
+    if (!this.queue) return;
+    if (!this.flushing) {
+      this.flushing = this.deliverDue().finally(() => {
+        this.flushing = undefined;
+      });
+    }
+    return this.flushing;
+  }
+
+  private async deliverDue(): Promise<void> {
+    let entries: BTPSQueueEntry[];
+    try {
+      entries = await this.queue!.getDue();
+    } catch (error) {
+      this.emitter.emit('queueError', transformToBTPErrorException(error));
+      return;
+    }
+
+    for (const entry of entries) {
+      try {
+        /* delivered before but the store failed to drop it, only retry the removal */
+        if (this.deliveredEntries.has(entry.id)) {
+          await this.markDelivered(entry.id);
+          continue;
+        }
+        await this.deliverQueued(entry);
+      } catch (error) {
+        this.emitter.emit('queueError', transformToBTPErrorException(error));
+      }
+    }
+  }
+
+  /*
+   * @param id - The id of the delivered queue entry
+   * @description Drops a delivered entry, it is remembered until the store confirms the removal
+   */
+  private async markDelivered(id: string): Promise<void> {
+    this.deliveredEntries.add(id);
+    await this.queue!.markHandled(id);
+    this.deliveredEntries.delete(id);
+  }
+
+  /*
+   * @param artifact - The queued artifact
+   * @param attempts - The attempt the artifact is prepared for
+   * @returns The artifact to send, re-signed with a fresh id and issuedAt unless prepareRetry replaces it
+   */
+  protected async prepareRetry(
+    artifact: BTPTransporterArtifact,
+    attempts: number,
+  ): Promise<BTPTransporterArtifact> {
+    const { prepareRetry, signer } = this.queueOptions!;
+    if (prepareRetry) return prepareRetry(artifact, attempts);
+
+    const { signature: _signature, ...unsigned } = artifact;
+    const reissued = { ...unsigned, id: randomUUID(), issuedAt: new Date().toISOString() };
+    return { ...reissued, signature: signBtpPayload(reissued, signer!) };
+  }
+
+  /*
+   * @param entry - The queue entry to deliver
+   * @description Retries the queued artifact and reschedules, drops or fails it based on the outcome
+   */
+  protected async deliverQueued(entry: BTPSQueueEntry): Promise<void> {
+    const { id, to } = entry;
+    const attempts = entry.attempts + 1;
+    const artifact = entry.artifact as BTPTransporterArtifact;
+    let result: BTPClientResponse;
+
+    try {
+      result = await this.send(to, artifact, undefined, attempts);
+    } catch (error) {
+      result = { error: transformToBTPErrorException(error) };
+    }
+
+    const { response, error } = result;
+    /* a replay rejection means the receiver processed an earlier attempt whose response got lost */
+    if (response && (response.status.ok || response.status.errorCode === BTP_ERROR_REPLAY.code)) {
+      this.emitter.emit('artifactDelivered', id, to, response);
+      await this.markDelivered(id);
+      return;
+    }
+
+    const failure = this.getDeliveryError(result);
+    /* a receiver that refused the artifact will not change its decision, unreachable, rate limited or failing ones may */
+    const retryable =
+      this.isRetryableDelivery(result) ||
+      error?.code === BTP_TRANSPORTER_ERROR_MAX_CONNECTIONS_REACHED.code;
+    if (error && this.isUnreachableError(error)) this.deregisterConnection(to);
+
+    const maxAttempts = this.queueOptions?.maxAttempts ?? BTP_TRANSPORTER_DEFAULT_MAX_ATTEMPTS;
+    if (!retryable || attempts >= maxAttempts) {
+      await this.queue!.markHandled(id);
+      await this.reportDeliveryFailure(to, {
+        artifact,
+        attempts,
+        error: failure,
+        agentArtifactId: entry.agentArtifactId,
+      });
+      return;
+    }
+
+    const nextAttemptAt = new Date(Date.now() + this.getRetryDelayMs(attempts)).toISOString();
+    await this.queue!.reschedule(id, { attempts, nextAttemptAt, lastError: failure.message });
+    this.emitter.emit('artifactQueued', id, to, { attempts, nextAttemptAt, error: failure });
   }
 
   /*
@@ -320,7 +754,7 @@ export class BtpsTransporter {
     to: string,
     artifacts: BTPTransporterArtifact[],
     clientOptions?: BTPClientOptions,
-  ): Promise<BTPClientResponse[]> {
+  ): Promise<BTPTransportResponse[]> {
     return Promise.all(artifacts.map((artifact) => this.transport(to, artifact, clientOptions)));
   }
 
@@ -493,6 +927,8 @@ export class BtpsTransporter {
    * @returns The transporter
    */
   destroy(): void {
+    clearInterval(this.queueTimer);
+    this.queueTimer = undefined;
     this.connections.forEach((connection) => {
       this.deregisterConnection(connection.id);
     });
@@ -6,15 +6,84 @@
  */
 
 import type { BTPError } from '@core/error/types.js';
+import {
+  BTP_ERROR_ATTESTATION_VERIFICATION,
+  BTP_ERROR_DELEGATION_INVALID,
+  BTP_ERROR_DELEGATION_SIG_VERIFICATION,
+  BTP_ERROR_IDENTITY,
+  BTP_ERROR_IDENTITY_NOT_FOUND,
+  BTP_ERROR_INVALID_JSON,
+  BTP_ERROR_PAYLOAD_TOO_LARGE,
+  BTP_ERROR_REPLAY,
+  BTP_ERROR_SIG_MISMATCH,
+  BTP_ERROR_SIG_VERIFICATION,
+  BTP_ERROR_TRUST_BLOCKED,
+  BTP_ERROR_TRUST_NON_EXISTENT,
+  BTP_ERROR_TRUST_NOT_ALLOWED,
+  BTP_ERROR_UNSUPPORTED_ENCRYPT,
+  BTP_ERROR_UNSUPPORTED_VERSION,
+  BTP_ERROR_VALIDATION,
+} from '@core/error/constant.js';
 
 export const BTP_TRANSPORTER_DEFAULT_MAX_CONNECTIONS = 10;
 export const BTP_TRANSPORTER_DEFAULT_CONNECTION_TTL_SECONDS = 300;
+export const BTP_TRANSPORTER_DEFAULT_MAX_ATTEMPTS = 10;
+export const BTP_TRANSPORTER_DEFAULT_RETRY_BASE_DELAY_MS = 5000;
+export const BTP_TRANSPORTER_DEFAULT_RETRY_MAX_DELAY_MS = 30 * 60 * 1000;
+export const BTP_TRANSPORTER_DEFAULT_RETRY_JITTER = 0.2;
+export const BTP_TRANSPORTER_DEFAULT_QUEUE_POLL_INTERVAL_MS = 1000;
+
+/* errors meaning the destination could not be reached, artifacts failing with these are queued */
+export const BTP_TRANSPORTER_UNREACHABLE_ERROR_CODES = [
+  'BTP_ERROR_RESOLVE_DNS',
+  'BTP_ERROR_SOCKET_TIMEOUT',
+  'BTP_ERROR_SOCKET_CLOSED',
+  'BTP_ERROR_CONNECTION_CLOSED',
+  'BTP_ERROR_CONNECTION_ENDED',
+  'ECONNREFUSED',
+  'ECONNRESET',
+  'ENOTFOUND',
+  'EAI_AGAIN',
+  'EHOSTUNREACH',
+  'ENETUNREACH',
+  'ETIMEDOUT',
+];
+
+/* errors meaning the receiver will never accept the artifact, they are reported as delivery failures */
+export const BTP_TRANSPORTER_NON_RETRYABLE_ERRORS: BTPError[] = [
+  BTP_ERROR_IDENTITY,
+  BTP_ERROR_IDENTITY_NOT_FOUND,
+  BTP_ERROR_TRUST_BLOCKED,
+  BTP_ERROR_TRUST_NOT_ALLOWED,
+  BTP_ERROR_TRUST_NON_EXISTENT,
+  BTP_ERROR_SIG_VERIFICATION,
+  BTP_ERROR_SIG_MISMATCH,
+  BTP_ERROR_DELEGATION_SIG_VERIFICATION,
+  BTP_ERROR_DELEGATION_INVALID,
+  BTP_ERROR_ATTESTATION_VERIFICATION,
+  BTP_ERROR_REPLAY,
+  BTP_ERROR_VALIDATION,
+  BTP_ERROR_INVALID_JSON,
+  BTP_ERROR_PAYLOAD_TOO_LARGE,
+  BTP_ERROR_UNSUPPORTED_ENCRYPT,
+  BTP_ERROR_UNSUPPORTED_VERSION,
+];
+
+export const BTP_TRANSPORTER_NON_RETRYABLE_ERROR_CODES = BTP_TRANSPORTER_NON_RETRYABLE_ERRORS.map(
+  (error) => String(error.code),
+);
 
 export const BTP_TRANSPORTER_ERROR_CONNECTION_ALREADY_EXISTS: BTPError = {
   code: 'BTP_TRANSPORTER_ERROR_CONNECTION_ALREADY_EXISTS',
   message: 'Connection already exists',
 };
 
+export const BTP_TRANSPORTER_ERROR_QUEUE_SIGNER_REQUIRED: BTPError = {
+  code: 'BTP_TRANSPORTER_ERROR_QUEUE_SIGNER_REQUIRED',
+  message:
+    'Queued artifacts must be re-signed before a retry, pass queue.signer or queue.prepareRetry',
+};
+
 export const BTP_TRANSPORTER_ERROR_MAX_CONNECTIONS_REACHED: BTPError = {
   code: 'BTP_TRANSPORTER_ERROR_MAX_CONNECTIONS_REACHED',
   message: 'Max connections reached',
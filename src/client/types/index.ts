@@ -5,7 +5,7 @@
  * https://www.apache.org/licenses/LICENSE-2.0
  */
 
-import type { BTPCryptoOptions } from '@core/crypto/types.js';
+import type { BTPCryptoOptions, PemKeys } from '@core/crypto/types.js';
 import type { BTPErrorException } from '@core/error/index.js';
 import type { BtpsClient } from 'client/btpsClient.js';
 import type {
@@ -16,8 +16,14 @@ import type {
   BTPAuthReqDoc,
   BTPServerResponse,
   AgentAction,
+  BTPSMessageQueue,
+  BTPTransporterArtifact,
+  BTPDeliveryFailureArtifact,
 } from 'server/index.js';
 import type { ConnectionOptions } from 'tls';
+import type { BtpsDnsResolver } from '@core/dns/types.js';
+import type { AbstractMailboxStore } from '@core/storage/AbstractMailboxStore.js';
+import type { BTPMailboxRecord } from '@core/storage/types.js';
 
 export interface BTPTransporterMetrics {
   totalConnections: number;
@@ -35,6 +41,10 @@ export interface BTPClientOptions {
   version?: string;
   port?: number;
   maxQueue?: number;
+  dnsResolver?: BtpsDnsResolver; // defaults to the shared caching resolver
+  keepAlive?: boolean; // PING the server while the connection is idle
+  keepAliveIntervalMs?: number; // defaults to half of connectionTimeoutMs or 15000
+  requireSignedResponses?: boolean; // strict mode, reject responses not signed by an identity of the `to` domain
 }
 
 export type BTPAgent = {
@@ -51,8 +61,42 @@ export interface BTPAgentOptions extends Omit<BTPClientOptions, 'to'> {
 export interface BTPTransporterOptions extends Omit<BTPClientOptions, 'to'> {
   maxConnections?: number; // Max active connections allowed
   connectionTTLSeconds?: number; // Optional TTL per connection
+  queue?: BTPTransporterQueueOptions; // Queue artifacts for unreachable destinations and retry them
+  failureStore?: AbstractMailboxStore<BTPMailboxRecord>; // Saves BTP_DELIVERY_FAILURE artifacts in the inbox of failure.from
+  onDeliveryFailure?: (failure: BTPDeliveryFailureArtifact) => void | Promise<void>; // place the bounce in the inbox of failure.from
 }
 
+export interface BTPTransportOptions {
+  agentArtifactId?: string; // id of the agent artifact the transporter artifact was created for
+}
+
+export interface BTPTransporterQueueOptions {
+  store: BTPSMessageQueue | string; // queue adapter or file path for the JsonFileQueue
+  maxAttempts?: number; // delivery attempts before the artifact is given up, defaults to 10
+  baseDelayMs?: number; // delay after the first failed attempt, doubled for every attempt after
+  maxDelayMs?: number; // upper bound of the retry delay
+  jitter?: number; // ratio (0 - 1) of the delay that is randomized to spread retries
+  pollIntervalMs?: number; // how often the queue is checked for due artifacts
+  signer?: PemKeys; // keys of the sender, retries are re-signed with a fresh id and issuedAt
+  prepareRetry?: (
+    artifact: BTPTransporterArtifact,
+    attempt: number,
+  ) => BTPTransporterArtifact | Promise<BTPTransporterArtifact>; // replaces the re-signing by signer, one of both is required
+}
+
+export type BTPTransporterQueueInfo = {
+  attempts: number; // delivery attempts made so far
+  nextAttemptAt: string; // ISO string
+  error: BTPErrorException; // error of the last attempt
+};
+
+export type BTPTransporterDeliveryFailure = {
+  artifact: BTPTransporterArtifact;
+  attempts: number;
+  error: BTPErrorException;
+  failureArtifact: BTPDeliveryFailureArtifact; // BTP_DELIVERY_FAILURE artifact for the sender's inbox
+};
+
 export type BtpsAgentDoc =
   | BTPDocType
   | BTPAuthReqDoc
@@ -132,6 +176,10 @@ export type BtpsTransporterEvents = {
     connectionId: string,
     message: BTPClientResponse & { validSignature: boolean },
   ) => void;
+  artifactQueued: (artifactId: string, to: string, info: BTPTransporterQueueInfo) => void;
+  artifactDelivered: (artifactId: string, to: string, response: BTPServerResponse) => void;
+  deliveryFailed: (artifactId: string, to: string, failure: BTPTransporterDeliveryFailure) => void;
+  queueError: (error: BTPErrorException) => void;
 };
 
 export type TypedEventEmitter<T = BtpsClientEvents> = {
@@ -144,6 +192,14 @@ export interface BTPClientResponse {
   error?: BTPErrorException;
 }
 
+export type BTPTransportResponse = BTPClientResponse & {
+  queued?: boolean; // the destination was unreachable and the artifact is queued for retry
+};
+
+export type BTPPingResponse = BTPClientResponse & {
+  latencyMs?: number; // round trip time of the PING
+};
+
 export type BtpsHostDnsTxt = {
   version: string;
   hostname: string;
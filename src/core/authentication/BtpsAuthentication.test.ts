@@ -235,6 +235,20 @@ describe('BtpsAuthentication', () => {
         const storedToken = await tokenStore.get(agentId, token);
         expect(storedToken).toBeUndefined();
       });
+
+      it('should keep the token when it is not consumed', async () => {
+        const token = 'AUTH_TOKEN_123';
+        const userIdentity = 'alice$saas.com';
+        const decryptBy = 'admin$saas.com';
+
+        await auth.storeAuthToken(token, userIdentity, decryptBy);
+        const checked = await auth.validateAuthToken(userIdentity, token, false);
+        const consumed = await auth.validateAuthToken(userIdentity, token);
+
+        expect(checked).toEqual({ isValid: true, userIdentity });
+        expect(consumed).toEqual({ isValid: true, userIdentity });
+        expect(await tokenStore.get(userIdentity, token)).toBeUndefined();
+      });
     });
 
     describe('createAgent', () => {
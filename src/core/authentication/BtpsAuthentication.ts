@@ -236,9 +236,14 @@ export class BtpsAuthentication {
    * Validate an authentication token (server-side)
    * @param token - The auth token to validate
    * @param identity - The identity to validate the token for
+   * @param consume - Remove the token once it is valid, pass false to check it before the agent is approved
    * @returns Validation result with user identity if valid
    */
-  async validateAuthToken(userIdentity: string, token: string): Promise<AuthValidationResult> {
+  async validateAuthToken(
+    userIdentity: string,
+    token: string,
+    consume: boolean = true,
+  ): Promise<AuthValidationResult> {
     try {
       const storedToken = await this.tokenStore.get(userIdentity, token);
       if (!storedToken) {
@@ -249,7 +254,7 @@ export class BtpsAuthentication {
       }
 
       // Remove the token after successful validation (one-time use)
-      await this.tokenStore.remove(userIdentity, token);
+      if (consume) await this.tokenStore.remove(userIdentity, token);
 
       return {
         isValid: true,
@@ -0,0 +1,120 @@
+/**
+ * @license
+ * Copyright (c) 2025 Bhupendra Tamang
+ * Licensed under the Apache License, Version 2.0
+ * https://www.apache.org/licenses/LICENSE-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import crypto from 'crypto';
+import { canonicalizeJson } from './canonicalize.js';
+import { getFingerprintFromPem, signBtpPayload, verifySignature } from './index.js';
+import { BTPErrorException } from '../error/index.js';
+
+const { publicKey, privateKey } = crypto.generateKeyPairSync('rsa', {
+  modulusLength: 2048,
+  publicKeyEncoding: { type: 'spki', format: 'pem' },
+  privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+});
+
+describe('canonicalizeJson', () => {
+  it('sorts object members and removes whitespace', () => {
+    expect(canonicalizeJson({ b: 1, a: { d: [3, 2], c: null } })).toBe(
+      '{"a":{"c":null,"d":[3,2]},"b":1}',
+    );
+  });
+
+  it('produces the same output regardless of property order', () => {
+    const first = { from: 'alice$example.com', to: 'bob$example.com', document: { x: 1, y: 2 } };
+    const second = { document: { y: 2, x: 1 }, to: 'bob$example.com', from: 'alice$example.com' };
+    expect(canonicalizeJson(first)).toBe(canonicalizeJson(second));
+  });
+
+  it('serializes numbers and strings as mandated by RFC 8785', () => {
+    expect(
+      canonicalizeJson({
+        numbers: [333333333.3333333, 1e30, 4.5, 0.002, 0.000001, -0, 1e-7],
+        string: '€$\u000f\nA\'B"\\\\"/',
+        literals: [null, true, false],
+      }),
+    ).toBe(
+      '{"literals":[null,true,false],"numbers":[333333333.3333333,1e+30,4.5,0.002,0.000001,0,1e-7],' +
+        '"string":"€$\\u000f\\nA\'B\\"\\\\\\\\\\"/"}',
+    );
+  });
+
+  it('sorts keys by UTF-16 code units', () => {
+    const value = {
+      '\u20ac': 'Euro Sign',
+      '\r': 'Carriage Return',
+      '\ufb33': 'Hebrew Letter Dalet With Dagesh',
+      '1': 'One',
+      '\ud83d\ude00': 'Emoji: Grinning Face',
+      '\u0080': 'Control',
+      '\u00f6': 'Latin Small Letter O With Diaeresis',
+    };
+    expect(canonicalizeJson(value)).toBe(
+      '{"\\r":"Carriage Return","1":"One","\u0080":"Control",' +
+        '"\u00f6":"Latin Small Letter O With Diaeresis","\u20ac":"Euro Sign",' +
+        '"\ud83d\ude00":"Emoji: Grinning Face","\ufb33":"Hebrew Letter Dalet With Dagesh"}',
+    );
+  });
+
+  it('drops undefined members and serializes dates via toJSON', () => {
+    const date = new Date('2025-01-01T00:00:00.000Z');
+    expect(canonicalizeJson({ a: undefined, b: [undefined], c: date })).toBe(
+      '{"b":[null],"c":"2025-01-01T00:00:00.000Z"}',
+    );
+  });
+
+  it('rejects values that have no JSON representation', () => {
+    expect(() => canonicalizeJson({ a: NaN })).toThrow(BTPErrorException);
+    expect(() => canonicalizeJson({ a: Infinity })).toThrow(BTPErrorException);
+    expect(() => canonicalizeJson({ a: BigInt(1) })).toThrow(BTPErrorException);
+  });
+});
+
+describe('signature canonicalization', () => {
+  const payload = { to: 'bob$example.com', from: 'alice$example.com', document: { b: 2, a: 1 } };
+
+  it('signs canonical JSON by default and survives field reordering', () => {
+    const signature = signBtpPayload(payload, { publicKey, privateKey });
+    expect(signature.canonicalization).toBe('jcs');
+
+    const reordered = { document: { a: 1, b: 2 }, from: payload.from, to: payload.to };
+    expect(verifySignature(reordered, signature, publicKey).isValid).toBe(true);
+  });
+
+  it('keeps verifying legacy signatures without a canonicalization field', () => {
+    const legacy = {
+      algorithmHash: 'sha256' as const,
+      value: crypto
+        .sign('sha256', Buffer.from(JSON.stringify(payload), 'utf8'), privateKey)
+        .toString('base64'),
+      fingerprint: getFingerprintFromPem(publicKey),
+    };
+
+    expect(verifySignature(payload, legacy, publicKey).isValid).toBe(true);
+    const reordered = { document: payload.document, from: payload.from, to: payload.to };
+    expect(verifySignature(reordered, legacy, publicKey).isValid).toBe(false);
+  });
+
+  it('signs payloads of protocol versions before 1.1.0 with plain JSON', () => {
+    const legacyPayload = { ...payload, version: '1.0.0' };
+    const signature = signBtpPayload(legacyPayload, { publicKey, privateKey });
+    expect(signature.canonicalization).toBe('none');
+    expect(verifySignature(legacyPayload, signature, publicKey).isValid).toBe(true);
+
+    expect(
+      signBtpPayload({ ...payload, version: '1.1.3' }, { publicKey, privateKey }),
+    ).toMatchObject({ canonicalization: 'jcs' });
+  });
+
+  it('does not accept a canonical signature presented as legacy', () => {
+    const { canonicalization: _canonicalization, ...stripped } = signBtpPayload(payload, {
+      publicKey,
+      privateKey,
+    });
+    expect(verifySignature(payload, stripped, publicKey).isValid).toBe(false);
+  });
+});
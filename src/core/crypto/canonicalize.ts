@@ -0,0 +1,68 @@
+/**
+ * @license
+ * Copyright (c) 2025 Bhupendra Tamang
+ * Licensed under the Apache License, Version 2.0
+ * https://www.apache.org/licenses/LICENSE-2.0
+ */
+
+import { BTP_ERROR_VALIDATION } from '@core/error/constant.js';
+import { BTPErrorException } from '@core/error/index.js';
+
+const serialize = (value: unknown, path: string): string | undefined => {
+  /* honour toJSON (e.g. Date) the same way JSON.stringify does */
+  if (
+    value !== null &&
+    typeof value === 'object' &&
+    typeof (value as { toJSON?: unknown }).toJSON === 'function'
+  ) {
+    value = (value as { toJSON: () => unknown }).toJSON();
+  }
+
+  switch (typeof value) {
+    case 'undefined':
+    case 'function':
+    case 'symbol':
+      return undefined;
+    case 'bigint':
+      throw new BTPErrorException(BTP_ERROR_VALIDATION, {
+        cause: `Cannot canonicalize BigInt value at ${path}`,
+      });
+    case 'number':
+      if (!Number.isFinite(value)) {
+        throw new BTPErrorException(BTP_ERROR_VALIDATION, {
+          cause: `Cannot canonicalize non-finite number at ${path}`,
+        });
+      }
+      /* ECMAScript Number serialization is what RFC 8785 mandates */
+      return JSON.stringify(value);
+    case 'string':
+    case 'boolean':
+      return JSON.stringify(value);
+  }
+
+  if (value === null) return 'null';
+
+  if (Array.isArray(value)) {
+    const items = value.map((item, index) => serialize(item, `${path}[${index}]`) ?? 'null');
+    return `[${items.join(',')}]`;
+  }
+
+  /* default sort compares UTF-16 code units as required by RFC 8785 */
+  const members = Object.keys(value as Record<string, unknown>)
+    .sort()
+    .flatMap((key) => {
+      const member = serialize((value as Record<string, unknown>)[key], `${path}.${key}`);
+      return member === undefined ? [] : [`${JSON.stringify(key)}:${member}`];
+    });
+  return `{${members.join(',')}}`;
+};
+
+/**
+ * Serializes a JSON value using the JSON Canonicalization Scheme (RFC 8785)
+ * Object members are sorted by UTF-16 code units, whitespace is removed and numbers and strings
+ * use the ECMAScript serialization, so the output is independent of property order.
+ * @param value - The JSON compatible value to canonicalize
+ * @returns The canonical JSON string
+ * @throws BTPErrorException when the value contains non-finite numbers or BigInt
+ */
+export const canonicalizeJson = (value: unknown): string => serialize(value, '$') ?? '';
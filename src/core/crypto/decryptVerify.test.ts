@@ -62,7 +62,7 @@ describe('decryptVerify', () => {
     };
 
     mockCrypto.verifySignature.mockReturnValue({ isValid: true });
-    mockCrypto.decryptBtpPayload.mockReturnValue({
+    mockCrypto.decryptBtpPayload.mockResolvedValue({
       data: { name: 'test', email: 'test@test.com', phone: '1234567890', reason: 'test' },
     });
 
@@ -94,6 +94,7 @@ describe('decryptVerify', () => {
       'encrypted-string-data',
       encryptedStringPayload.encryption,
       privateKey,
+      undefined,
     );
   });
 
@@ -135,7 +136,7 @@ describe('decryptVerify', () => {
 
     mockCrypto.verifySignature.mockReturnValue({ isValid: true });
     const decryptionError = new BTPErrorException({ message: 'Decryption failed' });
-    mockCrypto.decryptBtpPayload.mockReturnValue({ data: undefined, error: decryptionError });
+    mockCrypto.decryptBtpPayload.mockResolvedValue({ data: undefined, error: decryptionError });
 
     const result = await decryptVerify(senderPubPem, encryptedStringPayload, privateKey);
 
@@ -150,7 +151,7 @@ describe('decryptVerify', () => {
     };
 
     mockCrypto.verifySignature.mockReturnValue({ isValid: true });
-    mockCrypto.decryptBtpPayload.mockReturnValue({ data: { decrypted: 'data' } });
+    mockCrypto.decryptBtpPayload.mockResolvedValue({ data: { decrypted: 'data' } });
 
     const result = await decryptVerify(senderPubPem, encryptedStringPayload, privateKey);
 
@@ -163,6 +164,7 @@ describe('decryptVerify', () => {
       'encrypted-string-data',
       encryptedStringPayload.encryption,
       privateKey,
+      undefined,
     );
   });
 
@@ -183,7 +185,7 @@ describe('decryptVerify', () => {
     };
 
     mockCrypto.verifySignature.mockReturnValue({ isValid: true });
-    mockCrypto.decryptBtpPayload.mockReturnValue({ data: encryptedPayload.document });
+    mockCrypto.decryptBtpPayload.mockResolvedValue({ data: encryptedPayload.document });
 
     const result = await decryptVerify(senderPubPem, payloadWithDelegation, privateKey);
 
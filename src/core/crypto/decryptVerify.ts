@@ -18,6 +18,7 @@ export const decryptVerify = async <T = unknown>(
   senderPubPem: string,
   encryptedPayload: VerifyEncryptedPayload<T>,
   receiverPrivatePem?: string,
+  secondFactor?: string,
 ): Promise<BTPCryptoResponse<T>> => {
   const { signature, delegation, ...restEncryptedPayload } = encryptedPayload;
 
@@ -39,7 +40,7 @@ export const decryptVerify = async <T = unknown>(
     !isEmpty(document) &&
     typeof document === 'string';
   const { data: decryptedData, error: decryptionErrors } = needsDecryption
-    ? decryptBtpPayload(document, encryption, receiverPrivatePem!)
+    ? await decryptBtpPayload(document, encryption, receiverPrivatePem!, secondFactor)
     : { data: document, error: undefined };
 
   if (decryptionErrors) return genDecryptError(decryptionErrors);
@@ -14,7 +14,24 @@ import {
   EncryptionAlgorithmType,
   PemKeys,
   SignatureAlgorithmHash,
+  SignatureCanonicalization,
+  BTPKeyType,
+  BTPKdfParams,
+  BTPRsaEncryption,
+  BTPX25519Encryption,
 } from './types.js';
+import { canonicalizeJson } from './canonicalize.js';
+import { getKeyType, getSignatureAlgorithm, SIGNATURE_ALGORITHMS } from './keys.js';
+import {
+  createX25519ContentKey,
+  getX25519Cipher,
+  isX25519EncryptionAlgorithm,
+  recoverX25519ContentKey,
+  unwrapKeyForX25519,
+  wrapKeyForX25519,
+} from './x25519.js';
+import { applySecondFactor, createKdfParams, isSupportedKdf } from './secondFactor.js';
+import { compareVersions, parseVersion } from '@core/utils/version.js';
 
 import {
   BTP_ERROR_UNSUPPORTED_ENCRYPT,
@@ -22,68 +39,276 @@ import {
   BTP_ERROR_SIG_MISMATCH,
   BTP_ERROR_SIG_VERIFICATION,
   BTP_ERROR_UNKNOWN,
+  BTP_ERROR_SECOND_FACTOR_REQUIRED,
+  BTP_ERROR_SECOND_FACTOR_INVALID,
 } from '@core/error/constant.js';
 
-import { BTPErrorException } from '@core/error/index.js';
+import { BTPErrorException, transformToBTPErrorException } from '@core/error/index.js';
 
 export * from './decryptVerify.js';
 export * from './signEncrypt.js';
 export * from './keygen.js';
 export * from './types.js';
+export * from './canonicalize.js';
+export * from './keys.js';
+export * from './x25519.js';
+export * from './secondFactor.js';
+
+/**
+ * Serializes a payload for signing or verification using the given canonicalization
+ */
+export const serializeForSignature = (
+  payload: unknown,
+  canonicalization: SignatureCanonicalization = 'none',
+): string => {
+  if (typeof payload === 'string') return payload;
+  return canonicalization === 'jcs' ? canonicalizeJson(payload) : JSON.stringify(payload);
+};
+
+/**
+ * Picks the encryption algorithm for the recipient key
+ * X25519 recipients cannot unwrap RSA-OAEP keys, so the default `aes-256-gcm` is upgraded to the
+ * X25519 variant, while X25519 algorithms require an X25519 recipient key.
+ */
+const resolveEncryptionAlgorithm = (
+  requested: EncryptionAlgorithmType,
+  receiverKeyType: BTPKeyType,
+): EncryptionAlgorithmType => {
+  if (receiverKeyType === 'x25519') {
+    return requested === 'aes-256-gcm' ? 'x25519-aes-256-gcm' : requested;
+  }
+
+  if (receiverKeyType === 'rsa' && requested === 'aes-256-gcm') return requested;
+
+  throw new BTPErrorException(BTP_ERROR_UNSUPPORTED_ENCRYPT, {
+    cause: `${requested} is not supported for ${receiverKeyType} recipient keys`,
+  });
+};
 
-export const encryptBtpPayload = (
+/*
+ * Both AEAD ciphers use a 96-bit IV and a 16 byte auth tag. chacha20-poly1305 takes the same options and
+ * returns the same cipher interface as GCM, one typed overload covers both.
+ */
+const getAeadCipherName = (algorithm: EncryptionAlgorithmType) =>
+  (isX25519EncryptionAlgorithm(algorithm)
+    ? getX25519Cipher(algorithm)
+    : algorithm) as crypto.CipherGCMTypes;
+
+const createAeadCipher = (algorithm: EncryptionAlgorithmType, key: Buffer, iv: Buffer) =>
+  crypto.createCipheriv(getAeadCipherName(algorithm), key, iv, { authTagLength: 16 });
+
+const createAeadDecipher = (algorithm: EncryptionAlgorithmType, key: Buffer, iv: Buffer) =>
+  crypto.createDecipheriv(getAeadCipherName(algorithm), key, iv, { authTagLength: 16 });
+
+/**
+ * Wraps the content key for one recipient of a multi-recipient artifact
+ */
+const wrapContentKey = (receiverPubPem: string, contentKey: Buffer): string => {
+  const keyType = getKeyType(receiverPubPem);
+  if (keyType === 'rsa') return encryptRSA(receiverPubPem, contentKey).toString('base64');
+  if (keyType === 'x25519') return wrapKeyForX25519(receiverPubPem, contentKey);
+
+  throw new BTPErrorException(BTP_ERROR_UNSUPPORTED_ENCRYPT, {
+    cause: `${keyType} keys cannot be used for encryption`,
+  });
+};
+
+/**
+ * Returns the fingerprint identifying the recipient entry of a private key
+ */
+const getRecipientFingerprint = (receiverPrivPem: string): string =>
+  getFingerprintFromPem(
+    crypto.createPublicKey(receiverPrivPem).export({ type: 'spki', format: 'pem' }).toString(),
+    'sha256',
+  );
+
+/**
+ * Resolves the KDF parameters to publish with the artifact when the mode is 2faEncrypt
+ * Throws for a missing second factor or parameters receivers would reject, before anything is encrypted.
+ */
+const getSecondFactorKdf = (
+  options: NonNullable<BTPCryptoOptions['encryption']>,
+): BTPKdfParams | undefined => {
+  if (options.mode !== '2faEncrypt') return undefined;
+  if (!options.secondFactor) throw new BTPErrorException(BTP_ERROR_SECOND_FACTOR_REQUIRED);
+
+  const kdf = createKdfParams(options.kdf);
+  if (!isSupportedKdf(kdf)) {
+    throw new BTPErrorException(BTP_ERROR_UNSUPPORTED_ENCRYPT, {
+      cause: 'N must be a power of two, N, r and p within the receiver bounds',
+      meta: { kdf: options.kdf },
+    });
+  }
+  return kdf;
+};
+
+/**
+ * Binds the content key to the second factor when KDF parameters are given
+ * @returns The key used by the AEAD cipher
+ */
+const bindSecondFactor = async (
+  contentKey: Buffer,
+  options: NonNullable<BTPCryptoOptions['encryption']>,
+  kdf?: BTPKdfParams,
+): Promise<Buffer> =>
+  kdf ? applySecondFactor(contentKey, options.secondFactor!, kdf) : contentKey;
+
+/**
+ * Encrypts a payload for one or several recipients
+ * A single public key produces the compact single-recipient envelope, an array of public keys
+ * produces one content key wrapped for every recipient, keyed by recipient fingerprint.
+ */
+export const encryptBtpPayload = async (
   payload: unknown = '',
-  receiverPubPem: string,
+  receiverPubPem: string | string[],
   options: BTPCryptoOptions['encryption'] = {
     algorithm: 'aes-256-gcm',
     mode: 'standardEncrypt',
   },
-) => {
-  const aesKey = crypto.randomBytes(32); // 256-bit AES key
-  const iv = crypto.randomBytes(12); // 96-bit IV (recommended for GCM)
-  const algorithm: EncryptionAlgorithmType = options.algorithm;
+): Promise<{ data: string; encryption: BTPEncryption }> => {
+  const kdf = getSecondFactorKdf(options);
+  const iv = crypto.randomBytes(12); // 96-bit IV (recommended for GCM and ChaCha20-Poly1305)
   const stringifiedPayload = typeof payload !== 'string' ? JSON.stringify(payload) : payload;
 
-  const cipher = crypto.createCipheriv(algorithm, aesKey, iv) as crypto.CipherGCM;
+  if (Array.isArray(receiverPubPem)) {
+    if (!receiverPubPem.length) {
+      throw new BTPErrorException(BTP_ERROR_UNSUPPORTED_ENCRYPT, {
+        cause: 'At least one recipient public key is required',
+      });
+    }
+
+    const contentKey = crypto.randomBytes(32);
+    const recipients: Record<string, string> = {};
+    for (const recipientPubPem of receiverPubPem) {
+      recipients[getFingerprintFromPem(recipientPubPem, 'sha256')] = wrapContentKey(
+        recipientPubPem,
+        contentKey,
+      );
+    }
+
+    const key = await bindSecondFactor(contentKey, options, kdf);
+    const cipher = createAeadCipher(options.algorithm, key, iv);
+    let encryptedPayload = cipher.update(stringifiedPayload, 'utf8', 'base64');
+    encryptedPayload += cipher.final('base64');
+
+    return {
+      data: encryptedPayload,
+      encryption: {
+        algorithm: options.algorithm,
+        recipients,
+        iv: iv.toString('base64'),
+        authTag: cipher.getAuthTag().toString('base64'),
+        type: options.mode,
+        ...(kdf && { kdf }),
+      },
+    };
+  }
+
+  const algorithm = resolveEncryptionAlgorithm(options.algorithm, getKeyType(receiverPubPem));
+
+  let contentKey: Buffer;
+  let keyInfo:
+    | Pick<BTPRsaEncryption, 'algorithm' | 'encryptedKey'>
+    | Pick<BTPX25519Encryption, 'algorithm' | 'ephemeralPublicKey'>;
+  if (isX25519EncryptionAlgorithm(algorithm)) {
+    const { contentKey: derivedKey, ephemeralPublicKey } = createX25519ContentKey(
+      receiverPubPem,
+      algorithm,
+    );
+    contentKey = derivedKey;
+    keyInfo = { algorithm, ephemeralPublicKey: ephemeralPublicKey.toString('base64') };
+  } else {
+    contentKey = crypto.randomBytes(32); // 256-bit AES key
+    keyInfo = {
+      algorithm,
+      encryptedKey: encryptRSA(receiverPubPem, contentKey).toString('base64'), // RSA-OAEP-wrapped AES key
+    };
+  }
+
+  const key = await bindSecondFactor(contentKey, options, kdf);
+  const cipher = createAeadCipher(algorithm, key, iv);
   let encryptedPayload = cipher.update(stringifiedPayload, 'utf8', 'base64');
   encryptedPayload += cipher.final('base64');
-  const authTag = cipher.getAuthTag(); // 16 bytes by default
-
-  const encryptedKey = encryptRSA(receiverPubPem, aesKey); // RSA-OAEP-wrapped AES key
+  const authTag = cipher.getAuthTag(); // 16 bytes
 
   return {
     data: encryptedPayload,
     encryption: {
-      algorithm,
-      encryptedKey: encryptedKey.toString('base64'),
+      ...keyInfo,
       iv: iv.toString('base64'),
       authTag: authTag.toString('base64'),
       type: options.mode,
+      ...(kdf && { kdf }),
     },
   };
 };
 
-export const decryptBtpPayload = <T = unknown>(
+/**
+ * Decrypts a payload encrypted with encryptBtpPayload
+ * Documents encrypted with `2faEncrypt` additionally require the out-of-band second factor.
+ */
+export const decryptBtpPayload = async <T = unknown>(
   payload: unknown = '',
   encryption: BTPEncryption,
   receiverPrivPem: string,
-): { data?: T; error?: BTPErrorException } => {
-  if (encryption.algorithm !== 'aes-256-gcm') {
+  secondFactor?: string,
+): Promise<{ data?: T; error?: BTPErrorException }> => {
+  const { algorithm } = encryption;
+  if (algorithm !== 'aes-256-gcm' && !isX25519EncryptionAlgorithm(algorithm)) {
     return {
       data: undefined,
       error: new BTPErrorException(BTP_ERROR_UNSUPPORTED_ENCRYPT),
     };
   }
 
+  const isSecondFactor = encryption.type === '2faEncrypt';
+  if (isSecondFactor) {
+    if (!isSupportedKdf(encryption.kdf)) {
+      return {
+        data: undefined,
+        error: new BTPErrorException(BTP_ERROR_UNSUPPORTED_ENCRYPT, {
+          cause: 'Missing or unsupported key derivation parameters',
+        }),
+      };
+    }
+    if (!secondFactor) {
+      return { data: undefined, error: new BTPErrorException(BTP_ERROR_SECOND_FACTOR_REQUIRED) };
+    }
+  }
+
   try {
-    const decryptedKey = decryptRSA(
-      receiverPrivPem,
-      Buffer.from(encryption.encryptedKey, 'base64'),
-    );
+    let contentKey: Buffer;
+    if ('recipients' in encryption) {
+      /* find our own entry in the recipient list */
+      const wrappedKey = encryption.recipients[getRecipientFingerprint(receiverPrivPem)];
+      if (!wrappedKey) {
+        return { data: undefined, error: new BTPErrorException(BTP_ERROR_DECRYPTION_UNINTENDED) };
+      }
+      contentKey =
+        getKeyType(receiverPrivPem) === 'x25519'
+          ? unwrapKeyForX25519(receiverPrivPem, wrappedKey)
+          : decryptRSA(receiverPrivPem, Buffer.from(wrappedKey, 'base64'));
+    } else if (encryption.algorithm === 'aes-256-gcm') {
+      contentKey = decryptRSA(receiverPrivPem, Buffer.from(encryption.encryptedKey, 'base64'));
+    } else {
+      /* an X25519 artifact can only be meant for an X25519 key */
+      if (getKeyType(receiverPrivPem) !== 'x25519') {
+        return { data: undefined, error: new BTPErrorException(BTP_ERROR_DECRYPTION_UNINTENDED) };
+      }
+      contentKey = recoverX25519ContentKey(
+        receiverPrivPem,
+        Buffer.from(encryption.ephemeralPublicKey, 'base64'),
+        encryption.algorithm,
+      );
+    }
 
-    const decipher = crypto.createDecipheriv(
-      encryption.algorithm,
-      decryptedKey,
+    if (isSecondFactor) {
+      contentKey = await applySecondFactor(contentKey, secondFactor!, encryption.kdf!);
+    }
+
+    const decipher = createAeadDecipher(
+      algorithm,
+      contentKey,
       Buffer.from(encryption.iv, 'base64'),
     );
     decipher.setAuthTag(Buffer.from(encryption.authTag, 'base64'));
@@ -91,7 +316,15 @@ export const decryptBtpPayload = <T = unknown>(
     const stringifiedPayload = typeof payload !== 'string' ? JSON.stringify(payload) : payload;
 
     let decryptedPayload = decipher.update(stringifiedPayload, 'base64', 'utf8');
-    decryptedPayload += decipher.final('utf8');
+    try {
+      decryptedPayload += decipher.final('utf8');
+    } catch (err) {
+      /* the key was recovered with our private key, so a failing auth tag means a wrong factor */
+      if (isSecondFactor) {
+        return { data: undefined, error: new BTPErrorException(BTP_ERROR_SECOND_FACTOR_INVALID) };
+      }
+      throw err;
+    }
 
     return {
       data: JSON.parse(decryptedPayload),
@@ -106,7 +339,10 @@ export const decryptBtpPayload = <T = unknown>(
       typeof err === 'object' &&
       err !== null &&
       'code' in err &&
-      (err as NodeJS.ErrnoException).code === 'ERR_OSSL_RSA_OAEP_DECODING_ERROR'
+      /* a key wrapped for another RSA key may also exceed our modulus */
+      ['ERR_OSSL_RSA_OAEP_DECODING_ERROR', 'ERR_OSSL_RSA_DATA_TOO_LARGE_FOR_MODULUS'].includes(
+        (err as NodeJS.ErrnoException).code as string,
+      )
     ) {
       errorRes.error = new BTPErrorException(BTP_ERROR_DECRYPTION_UNINTENDED);
       return errorRes;
@@ -170,18 +406,45 @@ export const getFingerprintFromPem = (pem: string, hashAlgorithm = 'sha256'): st
   return crypto.createHash(hashAlgorithm).update(der).digest('base64');
 };
 
-export const signBtpPayload = (payload: unknown = '', senderPemFiles: PemKeys): BTPSignature => {
-  const stringifiedPayload = typeof payload !== 'string' ? JSON.stringify(payload) : payload;
+/* Ed25519 hashes internally, RSA and ECDSA sign a SHA-256 digest */
+const getSignatureDigest = (keyType: BTPKeyType): string | null =>
+  keyType === 'ed25519' ? null : 'sha256';
+
+/**
+ * Returns the canonicalization a payload is signed with
+ * Payloads declaring a protocol version before 1.1.0 keep plain JSON so older peers can verify them.
+ */
+export const getSignatureCanonicalization = (payload: unknown): SignatureCanonicalization => {
+  const version = (payload as { version?: unknown } | null)?.version;
+  if (typeof payload !== 'object' || !parseVersion(version)) return 'jcs';
+  return compareVersions(version as string, '1.1.0', true) < 0 ? 'none' : 'jcs';
+};
+
+export const signBtpPayload = (
+  payload: unknown = '',
+  senderPemFiles: PemKeys,
+  canonicalization: SignatureCanonicalization = getSignatureCanonicalization(payload),
+): BTPSignature => {
+  const stringifiedPayload = serializeForSignature(payload, canonicalization);
   const { publicKey, privateKey } = senderPemFiles;
   const algorithmHash: SignatureAlgorithmHash = 'sha256';
 
-  const signature = crypto.sign('sha256', Buffer.from(stringifiedPayload, 'utf8'), privateKey);
+  const keyType = getKeyType(privateKey);
+  const algorithm = getSignatureAlgorithm(keyType);
+
+  const signature = crypto.sign(
+    getSignatureDigest(keyType),
+    Buffer.from(stringifiedPayload, 'utf8'),
+    { key: privateKey, dsaEncoding: 'ieee-p1363' },
+  );
   const senderFingerprint = getFingerprintFromPem(publicKey, 'sha256');
 
   return {
     algorithmHash,
+    algorithm,
     value: signature.toString('base64'),
     fingerprint: senderFingerprint,
+    canonicalization,
   };
 };
 
@@ -190,7 +453,15 @@ export const verifySignature = (
   signature: BTPSignature,
   senderPubKey: string,
 ): { isValid: boolean; error?: BTPErrorException } => {
-  const stringifiedPayload = typeof payload !== 'string' ? JSON.stringify(payload) : payload;
+  let stringifiedPayload: string;
+  try {
+    stringifiedPayload = serializeForSignature(payload, signature.canonicalization);
+  } catch (error) {
+    return {
+      isValid: false,
+      error: new BTPErrorException(BTP_ERROR_SIG_VERIFICATION, { cause: error }),
+    };
+  }
 
   let senderFingerprint;
   try {
@@ -215,10 +486,32 @@ export const verifySignature = (
     };
   }
 
+  let keyType: BTPKeyType;
+  try {
+    keyType = getKeyType(senderPubKey);
+  } catch (error) {
+    return { isValid: false, error: transformToBTPErrorException(error) };
+  }
+
+  /* Signatures without an explicit algorithm predate Ed25519 / P-256 support and are RSA */
+  const algorithm = signature.algorithm ?? SIGNATURE_ALGORITHMS.rsa;
+  if (keyType === 'x25519' || algorithm !== SIGNATURE_ALGORITHMS[keyType]) {
+    return {
+      isValid: false,
+      error: new BTPErrorException(BTP_ERROR_SIG_VERIFICATION, {
+        meta: {
+          reason: 'Signature algorithm does not match the sender key type',
+          algorithm,
+          keyType,
+        },
+      }),
+    };
+  }
+
   const isValid = crypto.verify(
-    signature.algorithmHash,
+    getSignatureDigest(keyType),
     Buffer.from(stringifiedPayload, 'utf8'),
-    senderPubKey,
+    { key: senderPubKey, dsaEncoding: 'ieee-p1363' },
     Buffer.from(signature.value, 'base64'),
   );
   return {
@@ -11,11 +11,11 @@ import { join } from 'path';
 import { BTPKeyConfig, BTPKeyPair } from './types.js';
 import { getFingerprintFromPem } from './index.js';
 
-export async function generateKeys(accountName: string) {
+export async function generateKeys(accountName: string, keyConfig?: BTPKeyConfig) {
   const dir = join('keys', accountName);
   mkdirSync(dir, { recursive: true });
 
-  const { publicKey, privateKey } = getBTPKeyPair();
+  const { publicKey, privateKey } = getBTPKeyPair(keyConfig);
 
   writeFileSync(join(dir, `${accountName}-private.pem`), privateKey);
   writeFileSync(join(dir, `${accountName}-public.pem`), publicKey);
@@ -24,18 +24,37 @@ export async function generateKeys(accountName: string) {
 }
 
 export const getBTPKeyPair = (keyConfig?: BTPKeyConfig): BTPKeyPair => {
-  const { publicKey, privateKey } = generateKeyPairSync('rsa', {
-    modulusLength: keyConfig?.keySize ?? 2048,
-    publicKeyEncoding: {
-      type: keyConfig?.publicKeyEncoding ?? 'spki',
-      format: keyConfig?.format ?? 'pem',
-    },
-    privateKeyEncoding: {
-      type: keyConfig?.privateKeyEncoding ?? 'pkcs8',
-      format: keyConfig?.format ?? 'pem',
-    },
-  });
-
+  const publicKeyEncoding = {
+    type: keyConfig?.publicKeyEncoding ?? 'spki',
+    format: keyConfig?.format ?? 'pem',
+  } as const;
+  const privateKeyEncoding = {
+    type: keyConfig?.privateKeyEncoding ?? 'pkcs8',
+    format: keyConfig?.format ?? 'pem',
+  } as const;
+
+  const generateKeyPair = () => {
+    switch (keyConfig?.keyType ?? 'rsa') {
+      case 'ed25519':
+        return generateKeyPairSync('ed25519', { publicKeyEncoding, privateKeyEncoding });
+      case 'x25519':
+        return generateKeyPairSync('x25519', { publicKeyEncoding, privateKeyEncoding });
+      case 'ecdsa-p256':
+        return generateKeyPairSync('ec', {
+          namedCurve: 'prime256v1',
+          publicKeyEncoding,
+          privateKeyEncoding,
+        });
+      default:
+        return generateKeyPairSync('rsa', {
+          modulusLength: keyConfig?.keySize ?? 2048,
+          publicKeyEncoding,
+          privateKeyEncoding,
+        });
+    }
+  };
+
+  const { publicKey, privateKey } = generateKeyPair();
   const fingerprint = getFingerprintFromPem(publicKey, 'sha256');
 
   return { publicKey, privateKey, fingerprint };
@@ -0,0 +1,72 @@
+/**
+ * @license
+ * Copyright (c) 2025 Bhupendra Tamang
+ * Licensed under the Apache License, Version 2.0
+ * https://www.apache.org/licenses/LICENSE-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import crypto from 'crypto';
+import { getKeyType, isBTPKeyType } from './keys.js';
+import { getBTPKeyPair } from './keygen.js';
+import { signBtpPayload, verifySignature } from './index.js';
+import { BTPErrorException } from '../error/index.js';
+import { BTPKeyType } from './types.js';
+
+const payload = { from: 'alice$example.com', to: 'bob$example.com', document: { title: 'hi' } };
+
+describe('key types', () => {
+  it.each<[BTPKeyType, string]>([
+    ['rsa', 'rsa-sha256'],
+    ['ed25519', 'ed25519'],
+    ['ecdsa-p256', 'ecdsa-p256-sha256'],
+  ])('generates, signs and verifies %s keys', (keyType, algorithm) => {
+    const keyPair = getBTPKeyPair({ keyType });
+    expect(getKeyType(keyPair.publicKey)).toBe(keyType);
+    expect(getKeyType(keyPair.privateKey)).toBe(keyType);
+
+    const signature = signBtpPayload(payload, keyPair);
+    expect(signature.algorithm).toBe(algorithm);
+    expect(signature.fingerprint).toBe(keyPair.fingerprint);
+    expect(verifySignature(payload, signature, keyPair.publicKey).isValid).toBe(true);
+    expect(
+      verifySignature({ ...payload, to: 'eve$example.com' }, signature, keyPair.publicKey),
+    ).toMatchObject({ isValid: false });
+  });
+
+  it('produces fixed size P1363 encoded ECDSA signatures', () => {
+    const signature = signBtpPayload(payload, getBTPKeyPair({ keyType: 'ecdsa-p256' }));
+    expect(Buffer.from(signature.value, 'base64')).toHaveLength(64);
+  });
+
+  it('rejects signatures whose algorithm does not match the sender key', () => {
+    const keyPair = getBTPKeyPair({ keyType: 'ed25519' });
+    const signature = signBtpPayload(payload, keyPair);
+
+    const { isValid, error } = verifySignature(
+      payload,
+      { ...signature, algorithm: 'rsa-sha256' },
+      keyPair.publicKey,
+    );
+    expect(isValid).toBe(false);
+    expect(error?.code).toBe('BTP_ERROR_SIG_VERIFICATION');
+
+    const { algorithm: _algorithm, ...legacy } = signature;
+    expect(verifySignature(payload, legacy, keyPair.publicKey).isValid).toBe(false);
+  });
+
+  it('rejects unsupported curves', () => {
+    const { publicKey } = crypto.generateKeyPairSync('ec', {
+      namedCurve: 'secp384r1',
+      publicKeyEncoding: { type: 'spki', format: 'pem' },
+      privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+    });
+    expect(() => getKeyType(publicKey)).toThrow(BTPErrorException);
+  });
+
+  it('recognises supported key type names', () => {
+    expect(isBTPKeyType('ed25519')).toBe(true);
+    expect(isBTPKeyType('dsa')).toBe(false);
+    expect(isBTPKeyType(undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * @license
+ * Copyright (c) 2025 Bhupendra Tamang
+ * Licensed under the Apache License, Version 2.0
+ * https://www.apache.org/licenses/LICENSE-2.0
+ */
+
+import { createPublicKey, KeyObject } from 'crypto';
+import { BTP_ERROR_UNSUPPORTED_KEY_TYPE } from '@core/error/constant.js';
+import { BTPErrorException } from '@core/error/index.js';
+import {
+  BTPKeyType,
+  BTPSigningKeyType,
+  EncryptionAlgorithmType,
+  EncryptionMode,
+  SignatureAlgorithm,
+  SignatureCanonicalization,
+} from './types.js';
+
+export const BTP_KEY_TYPES: readonly BTPKeyType[] = ['rsa', 'ed25519', 'ecdsa-p256', 'x25519'];
+
+export const SIGNATURE_ALGORITHMS: Record<BTPSigningKeyType, SignatureAlgorithm> = {
+  rsa: 'rsa-sha256',
+  ed25519: 'ed25519',
+  'ecdsa-p256': 'ecdsa-p256-sha256',
+};
+
+export const ENCRYPTION_ALGORITHMS: readonly EncryptionAlgorithmType[] = [
+  'aes-256-gcm',
+  'x25519-chacha20-poly1305',
+  'x25519-aes-256-gcm',
+];
+
+export const ENCRYPTION_MODES: readonly EncryptionMode[] = [
+  'none',
+  'standardEncrypt',
+  '2faEncrypt',
+];
+
+export const SIGNATURE_CANONICALIZATIONS: readonly SignatureCanonicalization[] = ['none', 'jcs'];
+
+export const isBTPKeyType = (value: unknown): value is BTPKeyType =>
+  typeof value === 'string' && (BTP_KEY_TYPES as readonly string[]).includes(value);
+
+/**
+ * Detects the BTPS key type of a PEM encoded public or private key
+ * @throws BTPErrorException when the key is not RSA, Ed25519, P-256 or X25519
+ */
+export const getKeyType = (key: string | KeyObject): BTPKeyType => {
+  const keyObject = typeof key === 'string' ? createPublicKey(key) : key;
+  const { asymmetricKeyType, asymmetricKeyDetails } = keyObject;
+
+  if (
+    asymmetricKeyType === 'rsa' ||
+    asymmetricKeyType === 'ed25519' ||
+    asymmetricKeyType === 'x25519'
+  ) {
+    return asymmetricKeyType;
+  }
+  if (asymmetricKeyType === 'ec' && asymmetricKeyDetails?.namedCurve === 'prime256v1') {
+    return 'ecdsa-p256';
+  }
+
+  throw new BTPErrorException(BTP_ERROR_UNSUPPORTED_KEY_TYPE, {
+    meta: { keyType: asymmetricKeyType, namedCurve: asymmetricKeyDetails?.namedCurve },
+  });
+};
+
+/**
+ * Returns the signature algorithm for a signing key type
+ * @throws BTPErrorException for encryption only key types (x25519)
+ */
+export const getSignatureAlgorithm = (keyType: BTPKeyType): SignatureAlgorithm => {
+  if (keyType === 'x25519') {
+    throw new BTPErrorException(BTP_ERROR_UNSUPPORTED_KEY_TYPE, {
+      cause: 'x25519 keys cannot be used for signing',
+    });
+  }
+  return SIGNATURE_ALGORITHMS[keyType];
+};
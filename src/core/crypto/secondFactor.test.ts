@@ -0,0 +1,189 @@
+/**
+ * @license
+ * Copyright (c) 2025 Bhupendra Tamang
+ * Licensed under the Apache License, Version 2.0
+ * https://www.apache.org/licenses/LICENSE-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getBTPKeyPair } from './keygen.js';
+import { decryptBtpPayload, encryptBtpPayload } from './index.js';
+import { createKdfParams, DEFAULT_SCRYPT_PARAMS, isSupportedKdf } from './secondFactor.js';
+import { BtpCryptoOptionsSchema, BtpEncryptionSchema } from '../server/schemas/schema.js';
+import { BTPErrorException } from '../error/index.js';
+
+const document = { title: 'Invoice', totalAmount: { value: 100, currency: 'USD' } };
+/* low scrypt cost keeps the suite fast */
+const kdf = { N: 1024, r: 8, p: 1 };
+
+describe('2faEncrypt', () => {
+  const rsaKeys = getBTPKeyPair();
+  const x25519Keys = getBTPKeyPair({ keyType: 'x25519' });
+
+  it.each([
+    ['rsa', rsaKeys, 'aes-256-gcm'],
+    ['x25519', x25519Keys, 'x25519-chacha20-poly1305'],
+  ] as const)('encrypts and decrypts for %s recipients', async (_, keys, algorithm) => {
+    const { data, encryption } = await encryptBtpPayload(document, keys.publicKey, {
+      algorithm,
+      mode: '2faEncrypt',
+      secondFactor: '424242',
+      kdf,
+    });
+
+    expect(encryption.type).toBe('2faEncrypt');
+    expect(encryption.kdf).toMatchObject({ algorithm: 'scrypt', ...kdf });
+    expect(BtpEncryptionSchema.safeParse(encryption).success).toBe(true);
+
+    const { data: decrypted, error } = await decryptBtpPayload(
+      data,
+      encryption,
+      keys.privateKey,
+      '424242',
+    );
+    expect(error).toBeUndefined();
+    expect(decrypted).toEqual(document);
+  });
+
+  it('binds the second factor for every recipient of a multi-recipient document', async () => {
+    const { data, encryption } = await encryptBtpPayload(
+      document,
+      [rsaKeys.publicKey, x25519Keys.publicKey],
+      { algorithm: 'aes-256-gcm', mode: '2faEncrypt', secondFactor: 'passphrase', kdf },
+    );
+
+    for (const keys of [rsaKeys, x25519Keys]) {
+      expect(
+        (await decryptBtpPayload(data, encryption, keys.privateKey, 'passphrase')).data,
+      ).toEqual(document);
+      expect((await decryptBtpPayload(data, encryption, keys.privateKey)).error?.code).toBe(
+        'BTP_ERROR_SECOND_FACTOR_REQUIRED',
+      );
+    }
+  });
+
+  it('returns a distinct error when the second factor is missing or wrong', async () => {
+    const { data, encryption } = await encryptBtpPayload(document, rsaKeys.publicKey, {
+      algorithm: 'aes-256-gcm',
+      mode: '2faEncrypt',
+      secondFactor: '424242',
+      kdf,
+    });
+
+    const missing = await decryptBtpPayload(data, encryption, rsaKeys.privateKey);
+    expect(missing.data).toBeUndefined();
+    expect(missing.error?.code).toBe('BTP_ERROR_SECOND_FACTOR_REQUIRED');
+
+    const wrong = await decryptBtpPayload(data, encryption, rsaKeys.privateKey, '000000');
+    expect(wrong.data).toBeUndefined();
+    expect(wrong.error?.code).toBe('BTP_ERROR_SECOND_FACTOR_INVALID');
+  });
+
+  it('cannot be decrypted with the second factor alone', async () => {
+    const { data, encryption } = await encryptBtpPayload(document, rsaKeys.publicKey, {
+      algorithm: 'aes-256-gcm',
+      mode: '2faEncrypt',
+      secondFactor: '424242',
+      kdf,
+    });
+    const otherKeys = getBTPKeyPair();
+
+    const { error } = await decryptBtpPayload(data, encryption, otherKeys.privateKey, '424242');
+    expect(error?.code).toBe('BTP_ERROR_DECRYPTION_UNINTENDED');
+  });
+
+  it('throws when encrypting without a second factor', async () => {
+    await expect(
+      encryptBtpPayload(document, rsaKeys.publicKey, {
+        algorithm: 'aes-256-gcm',
+        mode: '2faEncrypt',
+      }),
+    ).rejects.toThrow(BTPErrorException);
+  });
+
+  it('rejects artifacts with missing or excessive KDF parameters', async () => {
+    const { data, encryption } = await encryptBtpPayload(document, rsaKeys.publicKey, {
+      algorithm: 'aes-256-gcm',
+      mode: '2faEncrypt',
+      secondFactor: '424242',
+      kdf,
+    });
+
+    const expensive = { ...encryption, kdf: { ...encryption.kdf!, N: 1 << 24 } };
+    expect(
+      (await decryptBtpPayload(data, expensive, rsaKeys.privateKey, '424242')).error?.code,
+    ).toBe('BTP_ERROR_UNSUPPORTED_ENCRYPT');
+
+    const { kdf: _kdf, ...withoutKdf } = encryption;
+    expect(
+      (await decryptBtpPayload(data, withoutKdf, rsaKeys.privateKey, '424242')).error?.code,
+    ).toBe('BTP_ERROR_UNSUPPORTED_ENCRYPT');
+    expect(BtpEncryptionSchema.safeParse(withoutKdf).success).toBe(false);
+  });
+
+  it('rejects artifacts demanding KDF parameters above the receiver caps', async () => {
+    const { data, encryption } = await encryptBtpPayload(document, rsaKeys.publicKey, {
+      algorithm: 'aes-256-gcm',
+      mode: '2faEncrypt',
+      secondFactor: '424242',
+      kdf,
+    });
+
+    for (const excessive of [{ N: 1 << 18 }, { r: 16 }, { p: 8 }]) {
+      const { data: decrypted, error } = await decryptBtpPayload(
+        data,
+        { ...encryption, kdf: { ...encryption.kdf!, ...excessive } },
+        rsaKeys.privateKey,
+        '424242',
+      );
+      expect(decrypted).toBeUndefined();
+      expect(error?.code).toBe('BTP_ERROR_UNSUPPORTED_ENCRYPT');
+    }
+  });
+
+  it('validates KDF parameter bounds', () => {
+    const base = { algorithm: 'scrypt' as const, salt: 'c2FsdA==', r: 8, p: 1 };
+    expect(isSupportedKdf({ ...base, N: 16384 })).toBe(true);
+    expect(isSupportedKdf({ ...base, N: 1000 })).toBe(false);
+    expect(isSupportedKdf({ ...base, N: 16384, p: 64 })).toBe(false);
+    expect(isSupportedKdf({ ...base, N: 1 << 17, p: 4 })).toBe(true);
+    expect(isSupportedKdf({ ...base, N: 1 << 18 })).toBe(false);
+    expect(isSupportedKdf({ ...base, N: 16384, r: 16 })).toBe(false);
+    expect(isSupportedKdf({ ...base, N: 16384, p: 8 })).toBe(false);
+    expect(isSupportedKdf(undefined)).toBe(false);
+  });
+
+  it('keeps the default KDF parameters for options left undefined', () => {
+    expect(createKdfParams({ N: undefined, r: 4, p: undefined })).toMatchObject({
+      ...DEFAULT_SCRYPT_PARAMS,
+      r: 4,
+    });
+    expect(createKdfParams({ salt: 'c2FsdA==' } as never).salt).not.toBe('c2FsdA==');
+  });
+
+  it('refuses to encrypt with KDF parameters receivers would reject', async () => {
+    for (const unsupported of [{ N: 1 << 18 }, { N: 1000 }, { r: 16 }, { p: 8 }]) {
+      await expect(
+        encryptBtpPayload(document, rsaKeys.publicKey, {
+          algorithm: 'aes-256-gcm',
+          mode: '2faEncrypt',
+          secondFactor: '424242',
+          kdf: { ...kdf, ...unsupported },
+        }),
+      ).rejects.toMatchObject({ code: 'BTP_ERROR_UNSUPPORTED_ENCRYPT' });
+    }
+  });
+
+  it('accepts second factor options in crypto options', () => {
+    expect(
+      BtpCryptoOptionsSchema.safeParse({
+        encryption: { algorithm: 'aes-256-gcm', mode: '2faEncrypt', secondFactor: '424242', kdf },
+      }).success,
+    ).toBe(true);
+    expect(
+      BtpCryptoOptionsSchema.safeParse({
+        encryption: { algorithm: 'aes-256-gcm', mode: '2faEncrypt', secondFactor: '' },
+      }).success,
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * @license
+ * Copyright (c) 2025 Bhupendra Tamang
+ * Licensed under the Apache License, Version 2.0
+ * https://www.apache.org/licenses/LICENSE-2.0
+ */
+
+import crypto from 'crypto';
+import { promisify } from 'util';
+import { BTPKdfOptions, BTPKdfParams } from './types.js';
+
+const scrypt = promisify(crypto.scrypt) as (
+  password: crypto.BinaryLike,
+  salt: crypto.BinaryLike,
+  keylen: number,
+  options: crypto.ScryptOptions,
+) => Promise<Buffer>;
+
+export const DEFAULT_SCRYPT_PARAMS: Required<BTPKdfOptions> = { N: 16384, r: 8, p: 1 };
+
+/* Upper bounds protect receivers from artifacts demanding excessive memory or CPU,
+ * the largest accepted parameters need 128 MiB and a few hundred milliseconds */
+const MAX_SCRYPT_N = 1 << 17;
+const MAX_SCRYPT_R = 8;
+const MAX_SCRYPT_P = 4;
+
+/**
+ * Checks that KDF parameters received in an artifact are supported and within safe bounds
+ */
+export const isSupportedKdf = (kdf: BTPKdfParams | undefined): kdf is BTPKdfParams => {
+  if (!kdf || kdf.algorithm !== 'scrypt' || typeof kdf.salt !== 'string' || !kdf.salt) {
+    return false;
+  }
+  const { N, r, p } = kdf;
+  const isPowerOfTwo = Number.isInteger(N) && N > 1 && (N & (N - 1)) === 0;
+  return (
+    isPowerOfTwo &&
+    N <= MAX_SCRYPT_N &&
+    Number.isInteger(r) &&
+    r > 0 &&
+    r <= MAX_SCRYPT_R &&
+    Number.isInteger(p) &&
+    p > 0 &&
+    p <= MAX_SCRYPT_P
+  );
+};
+
+/**
+ * Creates fresh KDF parameters with a random salt
+ * Only N, r and p are taken from the options, keys left undefined keep their default.
+ */
+export const createKdfParams = (options: BTPKdfOptions = {}): BTPKdfParams => {
+  const {
+    N = DEFAULT_SCRYPT_PARAMS.N,
+    r = DEFAULT_SCRYPT_PARAMS.r,
+    p = DEFAULT_SCRYPT_PARAMS.p,
+  } = options;
+  return { algorithm: 'scrypt', salt: crypto.randomBytes(16).toString('base64'), N, r, p };
+};
+
+/**
+ * Binds the content key to the out-of-band second factor
+ * The second factor is stretched with scrypt and combined with the key recovered from the recipient
+ * private key through HKDF, so neither the private key nor the secret alone can decrypt.
+ */
+export const applySecondFactor = async (
+  contentKey: Buffer,
+  secondFactor: string,
+  kdf: BTPKdfParams,
+): Promise<Buffer> => {
+  const { N, r, p } = kdf;
+  const salt = Buffer.from(kdf.salt, 'base64');
+  const factorKey = await scrypt(secondFactor.normalize('NFKC'), salt, 32, {
+    N,
+    r,
+    p,
+    maxmem: 256 * N * r,
+  });
+
+  return Buffer.from(
+    crypto.hkdfSync('sha256', Buffer.concat([contentKey, factorKey]), salt, 'btps:2faEncrypt', 32),
+  );
+};
@@ -62,7 +62,7 @@ describe('signEncrypt', () => {
 
     mockUtils.parseIdentity.mockReturnValue({ accountName: 'receiver', domainName: 'example.com' });
     mockUtils.resolvePublicKey.mockResolvedValue('receiver-public-key');
-    mockCrypto.encryptBtpPayload.mockReturnValue({
+    mockCrypto.encryptBtpPayload.mockResolvedValue({
       data: 'encrypted-doc',
       encryption: {
         algorithm: 'aes-256-gcm',
@@ -92,6 +92,26 @@ describe('signEncrypt', () => {
     expect(mockCrypto.signBtpPayload).toHaveBeenCalled();
   });
 
+  it('should encrypt for the receiver and additional recipients', async () => {
+    const result = await signEncrypt(
+      'receiver$example.com',
+      sender,
+      payload,
+      {
+        signature: { algorithmHash: 'sha256' },
+        encryption: { algorithm: 'aes-256-gcm', mode: 'standardEncrypt' },
+      },
+      ['accountant-public-key', 'archive-public-key'],
+    );
+
+    expect(result.error).toBeUndefined();
+    expect(mockCrypto.encryptBtpPayload).toHaveBeenCalledWith(
+      payload.document,
+      ['receiver-public-key', 'accountant-public-key', 'archive-public-key'],
+      { algorithm: 'aes-256-gcm', mode: 'standardEncrypt' },
+    );
+  });
+
   it('should handle payloads that do not require encryption', async () => {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     const result = await signEncrypt('receiver$example.com', sender, payload as any);
@@ -26,6 +26,15 @@ const genEncryptError = (error: BTPErrorException) => ({
   error,
 });
 
+/**
+ * Signs a payload and, when encryption options are given, encrypts its document
+ * @param to - The receiver identity, its DNS published key is resolved using `payload.selector`
+ * @param sender - The sender identity and key pair used for signing
+ * @param payload - The artifact fields including the document
+ * @param options - The crypto options
+ * @param recipientPubPems - Additional recipient public keys, e.g. an accountant or archive identity.
+ * When given, the document is encrypted once with the content key wrapped for every recipient.
+ */
 export const signEncrypt = async <T = unknown>(
   to: string | undefined,
   sender: ParsedIdentity & { pemFiles: PemKeys },
@@ -35,21 +44,30 @@ export const signEncrypt = async <T = unknown>(
     [key: string]: unknown;
   },
   options?: BTPCryptoOptions,
+  recipientPubPems?: string[],
 ): Promise<BTPCryptoResponse<T>> => {
   const { document, ...restPayload } = payload;
   let encryption: BTPEncryption | null = null;
   let encryptedDoc: string | T = document;
+  const recipients = [...(recipientPubPems ?? [])];
 
   if (to && payload.selector) {
     const parsedReceiver = parseIdentity(to);
     if (!parsedReceiver) return genEncryptError(new BTPErrorException(BTP_ERROR_IDENTITY));
     const receiverPubPem = await resolvePublicKey(to, payload.selector);
     if (!receiverPubPem) return genEncryptError(new BTPErrorException(BTP_ERROR_RESOLVE_PUBKEY));
+    recipients.unshift(receiverPubPem);
+  }
 
+  if (recipients.length) {
     try {
       const encryptedData = isEmpty(options?.encryption)
         ? { encryption: null, data: encryptedDoc }
-        : encryptBtpPayload(encryptedDoc, receiverPubPem, options?.encryption);
+        : await encryptBtpPayload(
+            encryptedDoc,
+            recipientPubPems?.length ? recipients : recipients[0],
+            options?.encryption,
+          );
 
       encryption = encryptedData.encryption;
       encryptedDoc = encryptedData.data;
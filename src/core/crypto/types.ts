@@ -17,22 +17,89 @@ import {
 
 export type EncryptionMode = 'none' | 'standardEncrypt' | '2faEncrypt';
 
-export type EncryptionAlgorithmType = 'aes-256-gcm';
+/**
+ * Document encryption scheme
+ * - `aes-256-gcm`: random AES key wrapped with the recipient RSA key (RSA-OAEP)
+ * - `x25519-chacha20-poly1305` / `x25519-aes-256-gcm`: ephemeral X25519 key agreement with the
+ *   recipient X25519 key, HKDF-SHA256 derived content key
+ */
+export type EncryptionAlgorithmType =
+  | 'aes-256-gcm'
+  | 'x25519-chacha20-poly1305'
+  | 'x25519-aes-256-gcm';
 
-export type BTPEncryption = {
-  algorithm: EncryptionAlgorithmType;
-  encryptedKey: string;
+export type X25519EncryptionAlgorithmType = Exclude<EncryptionAlgorithmType, 'aes-256-gcm'>;
+
+/**
+ * Key derivation parameters of the `2faEncrypt` second factor
+ */
+export type BTPKdfParams = {
+  algorithm: 'scrypt';
+  salt: string; // base64
+  N: number; // CPU / memory cost, power of two
+  r: number; // block size
+  p: number; // parallelization
+};
+
+export type BTPKdfOptions = Partial<Pick<BTPKdfParams, 'N' | 'r' | 'p'>>;
+
+type BTPEncryptionBase = {
   iv: string;
   type: EncryptionMode;
   authTag: string;
+  kdf?: BTPKdfParams; // required for 2faEncrypt
+};
+
+export type BTPRsaEncryption = BTPEncryptionBase & {
+  algorithm: 'aes-256-gcm';
+  encryptedKey: string; // RSA-OAEP wrapped content key, base64
 };
 
+export type BTPX25519Encryption = BTPEncryptionBase & {
+  algorithm: X25519EncryptionAlgorithmType;
+  ephemeralPublicKey: string; // raw 32 byte X25519 public key, base64
+};
+
+/**
+ * Content key wrapped for several recipients in one artifact
+ * The algorithm selects the content cipher (AES-256-GCM or ChaCha20-Poly1305), each recipient key is
+ * wrapped according to its own key type (RSA-OAEP, or X25519 + HKDF + AES-256-GCM).
+ */
+export type BTPMultiRecipientEncryption = BTPEncryptionBase & {
+  algorithm: EncryptionAlgorithmType;
+  recipients: Record<string, string>; // recipient public key fingerprint -> wrapped content key, base64
+};
+
+export type BTPEncryption = BTPRsaEncryption | BTPX25519Encryption | BTPMultiRecipientEncryption;
+
 export type SignatureAlgorithmHash = 'sha256';
 
+/* x25519 keys can only be used for encryption */
+export type BTPKeyType = 'rsa' | 'ed25519' | 'ecdsa-p256' | 'x25519';
+
+export type BTPSigningKeyType = Exclude<BTPKeyType, 'x25519'>;
+
+/**
+ * Signature scheme, derived from the signer key type
+ * - `rsa-sha256`: RSASSA-PKCS1-v1_5 with SHA-256
+ * - `ed25519`: pure Ed25519
+ * - `ecdsa-p256-sha256`: ECDSA on P-256 with SHA-256, IEEE P1363 (r || s) encoded
+ */
+export type SignatureAlgorithm = 'rsa-sha256' | 'ed25519' | 'ecdsa-p256-sha256';
+
+/**
+ * Serialization applied to the payload before signing
+ * - `none`: plain JSON.stringify output, key order dependent (protocol 1.0.0)
+ * - `jcs`: JSON Canonicalization Scheme (RFC 8785), key order independent
+ */
+export type SignatureCanonicalization = 'none' | 'jcs';
+
 export type BTPSignature = {
   algorithmHash: SignatureAlgorithmHash;
+  algorithm?: SignatureAlgorithm; // absent means 'rsa-sha256' for backwards compatibility
   value: string;
   fingerprint: string;
+  canonicalization?: SignatureCanonicalization; // absent means 'none' for backwards compatibility
 };
 
 export type PemKeys = {
@@ -47,6 +114,8 @@ export type BTPCryptoOptions = {
   encryption?: {
     algorithm: EncryptionAlgorithmType;
     mode: EncryptionMode;
+    secondFactor?: string; // out-of-band passphrase or one-time code, required for 2faEncrypt
+    kdf?: BTPKdfOptions; // scrypt cost overrides for 2faEncrypt
   };
 };
 
@@ -75,7 +144,9 @@ export interface VerifyEncryptedPayload<T = unknown | string> {
  * Configuration for key generation
  */
 export interface BTPKeyConfig {
-  /** RSA key size in bits */
+  /** Key type (default: 'rsa') */
+  keyType?: BTPKeyType;
+  /** RSA key size in bits, ignored for other key types */
   keySize?: number;
   /** Key format (default: 'pem') */
   format?: 'pem';
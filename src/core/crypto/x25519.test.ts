@@ -0,0 +1,163 @@
+/**
+ * @license
+ * Copyright (c) 2025 Bhupendra Tamang
+ * Licensed under the Apache License, Version 2.0
+ * https://www.apache.org/licenses/LICENSE-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getBTPKeyPair } from './keygen.js';
+import { decryptBtpPayload, encryptBtpPayload } from './index.js';
+import { BtpEncryptionSchema } from '../server/schemas/schema.js';
+import { BTPMultiRecipientEncryption, BTPRsaEncryption, BTPX25519Encryption } from './types.js';
+
+const document = { title: 'Invoice', totalAmount: { value: 100, currency: 'USD' } };
+
+describe('X25519 hybrid encryption', () => {
+  const x25519Keys = getBTPKeyPair({ keyType: 'x25519' });
+  const rsaKeys = getBTPKeyPair();
+
+  it.each(['x25519-chacha20-poly1305', 'x25519-aes-256-gcm'] as const)(
+    'encrypts and decrypts with %s',
+    async (algorithm) => {
+      const { data, encryption } = await encryptBtpPayload(document, x25519Keys.publicKey, {
+        algorithm,
+        mode: 'standardEncrypt',
+      });
+
+      expect(encryption.algorithm).toBe(algorithm);
+      expect(
+        Buffer.from((encryption as BTPX25519Encryption).ephemeralPublicKey, 'base64'),
+      ).toHaveLength(32);
+      expect(BtpEncryptionSchema.safeParse(encryption).success).toBe(true);
+
+      const { data: decrypted, error } = await decryptBtpPayload(
+        data,
+        encryption,
+        x25519Keys.privateKey,
+      );
+      expect(error).toBeUndefined();
+      expect(decrypted).toEqual(document);
+    },
+  );
+
+  it('upgrades the default algorithm for X25519 recipients', async () => {
+    const { encryption } = await encryptBtpPayload(document, x25519Keys.publicKey);
+    expect(encryption.algorithm).toBe('x25519-aes-256-gcm');
+  });
+
+  it('keeps RSA-OAEP key wrapping for RSA recipients', async () => {
+    const { data, encryption } = await encryptBtpPayload(document, rsaKeys.publicKey);
+    expect(encryption.algorithm).toBe('aes-256-gcm');
+    expect(BtpEncryptionSchema.safeParse(encryption).success).toBe(true);
+    expect((await decryptBtpPayload(data, encryption, rsaKeys.privateKey)).data).toEqual(document);
+  });
+
+  it('rejects X25519 algorithms for RSA recipients', async () => {
+    await expect(
+      encryptBtpPayload(document, rsaKeys.publicKey, {
+        algorithm: 'x25519-chacha20-poly1305',
+        mode: 'standardEncrypt',
+      }),
+    ).rejects.toThrow('Unsupported encryption algorithm');
+  });
+
+  it('fails to decrypt for a different recipient', async () => {
+    const { data, encryption } = await encryptBtpPayload(document, x25519Keys.publicKey, {
+      algorithm: 'x25519-chacha20-poly1305',
+      mode: 'standardEncrypt',
+    });
+
+    const other = getBTPKeyPair({ keyType: 'x25519' });
+    expect((await decryptBtpPayload(data, encryption, other.privateKey)).error).toBeDefined();
+    expect((await decryptBtpPayload(data, encryption, rsaKeys.privateKey)).error?.code).toBe(
+      'BTP_ERROR_DECRYPTION_UNINTENDED',
+    );
+  });
+
+  it('detects tampered ciphertext', async () => {
+    const { data, encryption } = await encryptBtpPayload(document, x25519Keys.publicKey, {
+      algorithm: 'x25519-chacha20-poly1305',
+      mode: 'standardEncrypt',
+    });
+    const tampered = Buffer.from(data, 'base64');
+    tampered[0] ^= 0xff;
+
+    const result = await decryptBtpPayload(
+      tampered.toString('base64'),
+      encryption,
+      x25519Keys.privateKey,
+    );
+    expect(result.data).toBeUndefined();
+    expect(result.error).toBeDefined();
+  });
+
+  it('produces smaller envelopes than RSA key wrapping', async () => {
+    const x25519 = JSON.stringify(
+      (await encryptBtpPayload(document, x25519Keys.publicKey)).encryption,
+    );
+    const rsa = JSON.stringify((await encryptBtpPayload(document, rsaKeys.publicKey)).encryption);
+    expect(x25519.length).toBeLessThan(rsa.length);
+  });
+});
+
+describe('multi-recipient encryption', () => {
+  const recipient = getBTPKeyPair();
+  const accountant = getBTPKeyPair({ keyType: 'x25519' });
+  const archive = getBTPKeyPair();
+
+  it.each(['aes-256-gcm', 'x25519-chacha20-poly1305'] as const)(
+    'lets every recipient decrypt a single %s envelope',
+    async (algorithm) => {
+      const { data, encryption } = await encryptBtpPayload(
+        document,
+        [recipient.publicKey, accountant.publicKey, archive.publicKey],
+        { algorithm, mode: 'standardEncrypt' },
+      );
+
+      expect(BtpEncryptionSchema.safeParse(encryption).success).toBe(true);
+      expect(Object.keys((encryption as BTPMultiRecipientEncryption).recipients)).toEqual([
+        recipient.fingerprint,
+        accountant.fingerprint,
+        archive.fingerprint,
+      ]);
+
+      for (const { privateKey } of [recipient, accountant, archive]) {
+        const { data: decrypted, error } = await decryptBtpPayload(data, encryption, privateKey);
+        expect(error).toBeUndefined();
+        expect(decrypted).toEqual(document);
+      }
+    },
+  );
+
+  it('rejects envelopes mixing a recipient list with a single recipient key', async () => {
+    const { encryption } = await encryptBtpPayload(document, [recipient.publicKey]);
+    const single = await encryptBtpPayload(document, recipient.publicKey);
+
+    expect(
+      BtpEncryptionSchema.safeParse({
+        ...encryption,
+        encryptedKey: (single.encryption as BTPRsaEncryption).encryptedKey,
+      }).success,
+    ).toBe(false);
+    expect(
+      BtpEncryptionSchema.safeParse({ ...single.encryption, recipients: { fp: 'key' } }).success,
+    ).toBe(false);
+  });
+
+  it('rejects identities that are not in the recipient list', async () => {
+    const { data, encryption } = await encryptBtpPayload(document, [recipient.publicKey]);
+    const outsider = getBTPKeyPair();
+
+    expect((await decryptBtpPayload(data, encryption, outsider.privateKey)).error?.code).toBe(
+      'BTP_ERROR_DECRYPTION_UNINTENDED',
+    );
+  });
+
+  it('rejects an empty recipient list and signing only keys', async () => {
+    await expect(encryptBtpPayload(document, [])).rejects.toThrow();
+    await expect(
+      encryptBtpPayload(document, [getBTPKeyPair({ keyType: 'ed25519' }).publicKey]),
+    ).rejects.toThrow('Unsupported encryption algorithm');
+  });
+});
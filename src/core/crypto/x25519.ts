@@ -0,0 +1,137 @@
+/**
+ * @license
+ * Copyright (c) 2025 Bhupendra Tamang
+ * Licensed under the Apache License, Version 2.0
+ * https://www.apache.org/licenses/LICENSE-2.0
+ */
+
+import crypto, { KeyObject } from 'crypto';
+import { X25519EncryptionAlgorithmType } from './types.js';
+
+const X25519_CIPHERS: Record<X25519EncryptionAlgorithmType, 'chacha20-poly1305' | 'aes-256-gcm'> = {
+  'x25519-chacha20-poly1305': 'chacha20-poly1305',
+  'x25519-aes-256-gcm': 'aes-256-gcm',
+};
+
+/**
+ * Returns the AEAD cipher used for an X25519 encryption algorithm
+ */
+export const getX25519Cipher = (algorithm: X25519EncryptionAlgorithmType) =>
+  X25519_CIPHERS[algorithm];
+
+export const isX25519EncryptionAlgorithm = (
+  algorithm: unknown,
+): algorithm is X25519EncryptionAlgorithmType =>
+  typeof algorithm === 'string' && algorithm in X25519_CIPHERS;
+
+/**
+ * Exports the raw 32 byte X25519 public key
+ */
+export const exportRawX25519PublicKey = (key: KeyObject): Buffer => {
+  const publicKey = key.type === 'private' ? crypto.createPublicKey(key) : key;
+  const jwk = publicKey.export({ format: 'jwk' });
+  return Buffer.from(jwk.x as string, 'base64url');
+};
+
+/**
+ * Imports a raw 32 byte X25519 public key
+ */
+export const importRawX25519PublicKey = (raw: Buffer): KeyObject =>
+  crypto.createPublicKey({
+    key: { kty: 'OKP', crv: 'X25519', x: raw.toString('base64url') },
+    format: 'jwk',
+  });
+
+/**
+ * Derives the 256-bit content key from an X25519 shared secret
+ * Salt binds the key to both the ephemeral and the recipient public key, info binds the algorithm.
+ */
+export const deriveX25519ContentKey = (
+  privateKey: KeyObject,
+  publicKey: KeyObject,
+  ephemeralPublicKey: Buffer,
+  recipientPublicKey: Buffer,
+  algorithm: X25519EncryptionAlgorithmType,
+): Buffer => {
+  const sharedSecret = crypto.diffieHellman({ privateKey, publicKey });
+  const salt = Buffer.concat([ephemeralPublicKey, recipientPublicKey]);
+  return Buffer.from(crypto.hkdfSync('sha256', sharedSecret, salt, `btps:${algorithm}`, 32));
+};
+
+/**
+ * Generates an ephemeral X25519 key pair and derives the content key for the recipient
+ * @returns The content key and the raw ephemeral public key to publish with the artifact
+ */
+export const createX25519ContentKey = (
+  recipientPubPem: string,
+  algorithm: X25519EncryptionAlgorithmType,
+): { contentKey: Buffer; ephemeralPublicKey: Buffer } => {
+  const recipientKey = crypto.createPublicKey(recipientPubPem);
+  const ephemeral = crypto.generateKeyPairSync('x25519');
+  const ephemeralPublicKey = exportRawX25519PublicKey(ephemeral.publicKey);
+
+  const contentKey = deriveX25519ContentKey(
+    ephemeral.privateKey,
+    recipientKey,
+    ephemeralPublicKey,
+    exportRawX25519PublicKey(recipientKey),
+    algorithm,
+  );
+
+  return { contentKey, ephemeralPublicKey };
+};
+
+/**
+ * Re-derives the content key on the recipient side from the published ephemeral key
+ */
+export const recoverX25519ContentKey = (
+  recipientPrivPem: string,
+  ephemeralPublicKey: Buffer,
+  algorithm: X25519EncryptionAlgorithmType,
+): Buffer => {
+  const recipientKey = crypto.createPrivateKey(recipientPrivPem);
+
+  return deriveX25519ContentKey(
+    recipientKey,
+    importRawX25519PublicKey(ephemeralPublicKey),
+    ephemeralPublicKey,
+    exportRawX25519PublicKey(recipientKey),
+    algorithm,
+  );
+};
+
+/**
+ * Wraps a content key for an X25519 recipient of a multi-recipient artifact
+ * @returns base64 of ephemeral public key (32) || iv (12) || wrapped key || auth tag (16)
+ */
+export const wrapKeyForX25519 = (recipientPubPem: string, contentKey: Buffer): string => {
+  const { contentKey: wrappingKey, ephemeralPublicKey } = createX25519ContentKey(
+    recipientPubPem,
+    'x25519-aes-256-gcm',
+  );
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', wrappingKey, iv);
+  const wrapped = Buffer.concat([cipher.update(contentKey), cipher.final()]);
+
+  return Buffer.concat([ephemeralPublicKey, iv, wrapped, cipher.getAuthTag()]).toString('base64');
+};
+
+/**
+ * Unwraps a content key wrapped with wrapKeyForX25519
+ */
+export const unwrapKeyForX25519 = (recipientPrivPem: string, wrappedKey: string): Buffer => {
+  const raw = Buffer.from(wrappedKey, 'base64');
+  const ephemeralPublicKey = raw.subarray(0, 32);
+  const iv = raw.subarray(32, 44);
+  const authTag = raw.subarray(raw.length - 16);
+  const wrapped = raw.subarray(44, raw.length - 16);
+
+  const wrappingKey = recoverX25519ContentKey(
+    recipientPrivPem,
+    ephemeralPublicKey,
+    'x25519-aes-256-gcm',
+  );
+  const decipher = crypto.createDecipheriv('aes-256-gcm', wrappingKey, iv);
+  decipher.setAuthTag(authTag);
+  return Buffer.concat([decipher.update(wrapped), decipher.final()]);
+};
@@ -9,8 +9,10 @@ import type { BTPTransporterArtifact, BTPDelegation, BTPAttestation } from '../s
 import { signBtpPayload } from '../crypto/index.js';
 import type { PemKeys } from '@core/crypto/types.js';
 import { getHostAndSelector, resolvePublicKey } from '@core/utils/index.js';
-import { createSign, createVerify } from 'crypto';
+import { createPrivateKey, createPublicKey } from 'crypto';
 import { BTP_ERROR_SIG_VERIFICATION, BTPErrorException } from '@core/error/index.js';
+import { getDefaultDnsResolver } from '@core/dns/index.js';
+import type { BtpsDnsResolver } from '@core/dns/types.js';
 
 /**
  * Delegator configuration options
@@ -19,6 +21,7 @@ export interface BtpsDelegatorOptions {
   identity: string;
   privateKey: PemKeys['privateKey'];
   autoInit?: boolean; // Optional: disable auto-initialization for testing
+  dnsResolver?: BtpsDnsResolver; // Optional: defaults to the shared caching resolver
 }
 
 /**
@@ -28,6 +31,7 @@ export interface BtpsDelegatorOptions {
 export class BtpsDelegator {
   private readonly identity: string;
   private readonly privateKey: PemKeys['privateKey'];
+  private readonly dnsResolver: BtpsDnsResolver;
   private publicKey?: PemKeys['publicKey'];
   private selector: string = 'btps1';
   private isInitialized = false;
@@ -39,6 +43,7 @@ export class BtpsDelegator {
   constructor(options: BtpsDelegatorOptions) {
     this.identity = options.identity;
     this.privateKey = options.privateKey;
+    this.dnsResolver = options.dnsResolver ?? getDefaultDnsResolver();
     if (options.autoInit !== false) {
       this.init();
     }
@@ -71,11 +76,11 @@ export class BtpsDelegator {
    * @returns {isValid: boolean, publicKey?: string} - The result of the verification
    */
   protected async verifyDelegatorIdentity(): Promise<{ isValid: boolean; publicKey?: string }> {
-    const dnsHostAndSelector = await getHostAndSelector(this.identity);
+    const dnsHostAndSelector = await getHostAndSelector(this.identity, this.dnsResolver);
     if (!dnsHostAndSelector) return { isValid: false, publicKey: undefined };
     this.selector = dnsHostAndSelector.selector;
 
-    const publicKey = await resolvePublicKey(this.identity, this.selector);
+    const publicKey = await resolvePublicKey(this.identity, this.selector, this.dnsResolver);
     if (!publicKey) return { isValid: false, publicKey: undefined };
     return { isValid: this.isKeyPairMatching(this.privateKey, publicKey), publicKey };
   }
@@ -87,9 +92,17 @@ export class BtpsDelegator {
    * @returns {boolean} - True if the keys match, false otherwise
    */
   protected isKeyPairMatching(privateKeyPem: string, publicKeyPem: string): boolean {
-    const message = 'btps-key-validation';
-    const sign = createSign('sha256').update(message).end().sign(privateKeyPem);
-    return createVerify('sha256').update(message).end().verify(publicKeyPem, sign);
+    try {
+      /* derive the public key from the private key so any supported key type can be compared */
+      const derived = createPublicKey(createPrivateKey(privateKeyPem)).export({
+        type: 'spki',
+        format: 'der',
+      });
+      const published = createPublicKey(publicKeyPem).export({ type: 'spki', format: 'der' });
+      return derived.equals(published);
+    } catch {
+      return false;
+    }
   }
 
   /**
@@ -112,7 +125,7 @@ export class BtpsDelegator {
 
     let selector = this.selector;
     if (onBehalfOf) {
-      const dnsHostAndSelector = await getHostAndSelector(onBehalfOf.identity);
+      const dnsHostAndSelector = await getHostAndSelector(onBehalfOf.identity, this.dnsResolver);
       if (!dnsHostAndSelector)
         throw new BTPErrorException(BTP_ERROR_SIG_VERIFICATION, {
           cause: 'Delegator identity verification failed',
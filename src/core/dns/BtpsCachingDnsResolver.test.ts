@@ -0,0 +1,298 @@
+/**
+ * @license
+ * Copyright (c) 2025 Bhupendra Tamang
+ * Licensed under the Apache License, Version 2.0
+ * https://www.apache.org/licenses/LICENSE-2.0
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import dgram from 'dgram';
+import { AddressInfo } from 'net';
+import { BtpsCachingDnsResolver } from './BtpsCachingDnsResolver.js';
+import { createDnsError, parseNameServer, queryTxt } from './txtQuery.js';
+
+/* Builds a DNS response echoing the question, answers reference the question name by pointer */
+const buildResponse = (
+  query: Buffer,
+  answers: { chunks: string[]; ttl: number }[],
+  rcode = 0,
+  truncated = false,
+) => {
+  let offset = 12;
+  while (query[offset] !== 0) offset += query[offset] + 1;
+  const question = query.subarray(12, offset + 5);
+
+  const header = Buffer.alloc(12);
+  query.copy(header, 0, 0, 2);
+  header.writeUInt16BE(0x8180 | rcode | (truncated ? 0x0200 : 0), 2);
+  header.writeUInt16BE(1, 4);
+  header.writeUInt16BE(answers.length, 6);
+
+  const records = answers.map(({ chunks, ttl }) => {
+    const rdata = Buffer.concat(
+      chunks.map((chunk) => Buffer.concat([Buffer.from([chunk.length]), Buffer.from(chunk)])),
+    );
+    const fixed = Buffer.alloc(10);
+    fixed.writeUInt16BE(16, 0);
+    fixed.writeUInt16BE(1, 2);
+    fixed.writeUInt32BE(ttl, 4);
+    fixed.writeUInt16BE(rdata.length, 8);
+    return Buffer.concat([Buffer.from([0xc0, 0x0c]), fixed, rdata]);
+  });
+
+  return Buffer.concat([header, question, ...records]);
+};
+
+describe('BtpsCachingDnsResolver', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-01-01T00:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('caches answers for the record TTL', async () => {
+    const lookup = vi
+      .fn()
+      .mockResolvedValue({ records: [['v=1.0.0;u=btps.example.com;s=btps1']], ttl: 60 });
+    const resolver = new BtpsCachingDnsResolver({ lookup });
+
+    await resolver.resolveTxt('_btps.host.example.com');
+    await resolver.resolveTxt('_BTPS.host.example.com.');
+    expect(lookup).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(59_000);
+    await resolver.resolveTxt('_btps.host.example.com');
+    expect(lookup).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(2_000);
+    await resolver.resolveTxt('_btps.host.example.com');
+    expect(lookup).toHaveBeenCalledTimes(2);
+  });
+
+  it('uses the default TTL when the lookup does not return one and clamps record TTLs', async () => {
+    const lookup = vi
+      .fn()
+      .mockImplementation(async (name: string) =>
+        name.startsWith('a.') ? { records: [['a']] } : { records: [['b']], ttl: 86_400 },
+      );
+    const resolver = new BtpsCachingDnsResolver({ lookup, defaultTtlMs: 5_000, maxTtlMs: 10_000 });
+
+    await resolver.resolveTxt('a.example.com');
+    await resolver.resolveTxt('b.example.com');
+
+    vi.advanceTimersByTime(6_000);
+    await resolver.resolveTxt('a.example.com');
+    await resolver.resolveTxt('b.example.com');
+    expect(lookup).toHaveBeenCalledTimes(3);
+
+    vi.advanceTimersByTime(5_000);
+    await resolver.resolveTxt('b.example.com');
+    expect(lookup).toHaveBeenCalledTimes(4);
+  });
+
+  it('caches failed lookups for negativeTtlMs', async () => {
+    const lookup = vi.fn().mockRejectedValue(createDnsError('ENOTFOUND', 'missing.example.com'));
+    const resolver = new BtpsCachingDnsResolver({ lookup, negativeTtlMs: 1_000 });
+
+    await expect(resolver.resolveTxt('missing.example.com')).rejects.toMatchObject({
+      code: 'ENOTFOUND',
+    });
+    await expect(resolver.resolveTxt('missing.example.com')).rejects.toMatchObject({
+      code: 'ENOTFOUND',
+    });
+    expect(lookup).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(1_001);
+    await expect(resolver.resolveTxt('missing.example.com')).rejects.toThrow();
+    expect(lookup).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not cache timeouts and server failures', async () => {
+    const lookup = vi
+      .fn()
+      .mockRejectedValueOnce(createDnsError('ETIMEOUT', 'slow.example.com'))
+      .mockRejectedValueOnce(createDnsError('ESERVFAIL', 'slow.example.com'))
+      .mockResolvedValueOnce({ records: [['v=1.0.0']], ttl: 60 });
+    const resolver = new BtpsCachingDnsResolver({ lookup, negativeTtlMs: 1_000 });
+
+    await expect(resolver.resolveTxt('slow.example.com')).rejects.toMatchObject({
+      code: 'ETIMEOUT',
+    });
+    await expect(resolver.resolveTxt('slow.example.com')).rejects.toMatchObject({
+      code: 'ESERVFAIL',
+    });
+    expect(await resolver.resolveTxt('slow.example.com')).toEqual([['v=1.0.0']]);
+    expect(lookup).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not cache failures when negative caching is disabled', async () => {
+    const lookup = vi.fn().mockRejectedValue(createDnsError('ENODATA', 'empty.example.com'));
+    const resolver = new BtpsCachingDnsResolver({ lookup, negativeTtlMs: 0 });
+
+    await expect(resolver.resolveTxt('empty.example.com')).rejects.toThrow();
+    await expect(resolver.resolveTxt('empty.example.com')).rejects.toThrow();
+    expect(lookup).toHaveBeenCalledTimes(2);
+  });
+
+  it('deduplicates concurrent lookups for the same name', async () => {
+    let release: (value: { records: string[][]; ttl: number }) => void = () => {};
+    const lookup = vi.fn().mockImplementation(
+      () =>
+        new Promise((resolve) => {
+          release = resolve;
+        }),
+    );
+    const resolver = new BtpsCachingDnsResolver({ lookup });
+
+    const pending = Promise.all([
+      resolver.resolveTxt('example.com'),
+      resolver.resolveTxt('example.com'),
+      resolver.resolveTxt('EXAMPLE.com'),
+    ]);
+    release({ records: [['value']], ttl: 30 });
+
+    const results = await pending;
+    expect(lookup).toHaveBeenCalledTimes(1);
+    expect(results).toEqual([[['value']], [['value']], [['value']]]);
+  });
+
+  it('evicts least recently used entries beyond maxEntries', async () => {
+    const lookup = vi
+      .fn()
+      .mockImplementation(async (name: string) => ({ records: [[name]], ttl: 60 }));
+    const resolver = new BtpsCachingDnsResolver({ lookup, maxEntries: 2 });
+
+    await resolver.resolveTxt('a.example.com');
+    await resolver.resolveTxt('b.example.com');
+    await resolver.resolveTxt('a.example.com'); // a becomes most recent
+    await resolver.resolveTxt('c.example.com'); // evicts b
+
+    expect(resolver.size).toBe(2);
+    await resolver.resolveTxt('a.example.com');
+    expect(lookup).toHaveBeenCalledTimes(3);
+    await resolver.resolveTxt('b.example.com');
+    expect(lookup).toHaveBeenCalledTimes(4);
+  });
+
+  it('invalidates and clears cached entries', async () => {
+    const lookup = vi.fn().mockResolvedValue({ records: [['value']], ttl: 60 });
+    const resolver = new BtpsCachingDnsResolver({ lookup });
+
+    await resolver.resolveTxt('example.com');
+    resolver.invalidate('example.com.');
+    await resolver.resolveTxt('example.com');
+    expect(lookup).toHaveBeenCalledTimes(2);
+
+    resolver.clear();
+    expect(resolver.size).toBe(0);
+  });
+
+  it('returns copies so callers cannot mutate the cache', async () => {
+    const lookup = vi.fn().mockResolvedValue({ records: [['value']], ttl: 60 });
+    const resolver = new BtpsCachingDnsResolver({ lookup });
+
+    const first = await resolver.resolveTxt('example.com');
+    first[0].push('mutated');
+
+    expect(await resolver.resolveTxt('example.com')).toEqual([['value']]);
+  });
+});
+
+describe('queryTxt', () => {
+  let server: dgram.Socket;
+  let nameServer: string;
+  let reply: (query: Buffer, remote: dgram.RemoteInfo) => Buffer | undefined;
+
+  beforeEach(async () => {
+    server = dgram.createSocket('udp4');
+    server.on('message', (query, remote) => {
+      const response = reply(query, remote);
+      if (response) server.send(response, remote.port, remote.address);
+    });
+    await new Promise<void>((resolve) => server.bind(0, '127.0.0.1', () => resolve()));
+    nameServer = `127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  it('returns TXT records with the lowest TTL', async () => {
+    reply = (query) =>
+      buildResponse(query, [
+        { chunks: ['v=1.0.0;k=rsa;', 'p=abc'], ttl: 300 },
+        { chunks: ['other'], ttl: 120 },
+      ]);
+
+    const answer = await queryTxt('btps1._btps.identity.alice.example.com', {
+      servers: [nameServer],
+    });
+
+    expect(answer).toEqual({ records: [['v=1.0.0;k=rsa;', 'p=abc'], ['other']], ttl: 120 });
+  });
+
+  it('rejects with ENOTFOUND for NXDOMAIN answers', async () => {
+    reply = (query) => buildResponse(query, [], 3);
+
+    await expect(queryTxt('missing.example.com', { servers: [nameServer] })).rejects.toMatchObject({
+      code: 'ENOTFOUND',
+    });
+  });
+
+  it('rejects with ENODATA when no TXT record exists', async () => {
+    reply = (query) => buildResponse(query, []);
+
+    await expect(queryTxt('empty.example.com', { servers: [nameServer] })).rejects.toMatchObject({
+      code: 'ENODATA',
+    });
+  });
+
+  it('returns undefined for truncated answers and unresponsive servers', async () => {
+    reply = (query) => buildResponse(query, [], 0, true);
+    expect(await queryTxt('big.example.com', { servers: [nameServer] })).toBeUndefined();
+
+    reply = () => undefined;
+    expect(
+      await queryTxt('slow.example.com', { servers: [nameServer], timeoutMs: 50 }),
+    ).toBeUndefined();
+  });
+
+  it('ignores answers from other senders', async () => {
+    const spoofer = dgram.createSocket('udp4');
+    await new Promise<void>((resolve) => spoofer.bind(0, '127.0.0.1', () => resolve()));
+    reply = (query, remote) => {
+      spoofer.send(buildResponse(query, [], 3), remote.port, remote.address);
+      return undefined;
+    };
+
+    try {
+      expect(
+        await queryTxt('spoofed.example.com', { servers: [nameServer], timeoutMs: 100 }),
+      ).toBeUndefined();
+    } finally {
+      await new Promise<void>((resolve) => spoofer.close(() => resolve()));
+    }
+  });
+
+  it('ignores answers to another question', async () => {
+    reply = (query) => {
+      const response = buildResponse(query, [{ chunks: ['forged'], ttl: 300 }]);
+      response[13] = 'x'.charCodeAt(0); // rename the echoed question
+      return response;
+    };
+
+    expect(
+      await queryTxt('other.example.com', { servers: [nameServer], timeoutMs: 100 }),
+    ).toBeUndefined();
+  });
+
+  it('parses name server addresses', () => {
+    expect(parseNameServer('1.1.1.1')).toEqual({ address: '1.1.1.1', port: 53 });
+    expect(parseNameServer('1.1.1.1:5353')).toEqual({ address: '1.1.1.1', port: 5353 });
+    expect(parseNameServer('::1')).toEqual({ address: '::1', port: 53 });
+    expect(parseNameServer('[::1]:5353')).toEqual({ address: '::1', port: 5353 });
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * @license
+ * Copyright (c) 2025 Bhupendra Tamang
+ * Licensed under the Apache License, Version 2.0
+ * https://www.apache.org/licenses/LICENSE-2.0
+ */
+
+import { resolveTxt } from 'dns/promises';
+import { queryTxt } from './txtQuery.js';
+import {
+  BtpsCachingDnsResolverOptions,
+  BtpsDnsResolver,
+  BtpsDnsTxtAnswer,
+  BtpsDnsTxtLookup,
+} from './types.js';
+
+type CacheEntry =
+  | { expiresAt: number; failed: false; records: string[][] }
+  | { expiresAt: number; failed: true; error: unknown };
+
+/* authoritative answers that the name or its TXT record does not exist, other failures are not cached */
+const NEGATIVE_ANSWER_CODES = ['ENOTFOUND', 'ENODATA'];
+
+const isNegativeAnswer = (error: unknown): boolean =>
+  NEGATIVE_ANSWER_CODES.includes((error as NodeJS.ErrnoException | undefined)?.code ?? '');
+
+const normalizeName = (hostname: string): string =>
+  hostname.trim().toLowerCase().replace(/\.$/, '');
+
+/**
+ * DNS resolver that caches TXT answers for the lifetime of the record TTL.
+ * - Positive answers are cached using the record TTL (clamped by minTtlMs / maxTtlMs)
+ * - Negative answers (ENOTFOUND, ENODATA) are cached for negativeTtlMs so unknown identities do not hammer DNS,
+ *   timeouts and server failures are retried on the next lookup
+ * - Concurrent lookups for the same name share one in-flight query
+ */
+export class BtpsCachingDnsResolver implements BtpsDnsResolver {
+  private readonly cache = new Map<string, CacheEntry>();
+  private readonly inflight = new Map<string, Promise<string[][]>>();
+  private readonly lookup: BtpsDnsTxtLookup;
+  private readonly defaultTtlMs: number;
+  private readonly minTtlMs: number;
+  private readonly maxTtlMs: number;
+  private readonly negativeTtlMs: number;
+  private readonly maxEntries: number;
+
+  constructor(options: BtpsCachingDnsResolverOptions = {}) {
+    this.defaultTtlMs = options.defaultTtlMs ?? 300_000;
+    this.minTtlMs = options.minTtlMs ?? 1_000;
+    this.maxTtlMs = options.maxTtlMs ?? 3_600_000;
+    this.negativeTtlMs = options.negativeTtlMs ?? 30_000;
+    this.maxEntries = Math.max(1, options.maxEntries ?? 1000);
+    this.lookup =
+      options.lookup ??
+      (async (hostname: string): Promise<BtpsDnsTxtAnswer> => {
+        const answer = await queryTxt(hostname, {
+          servers: options.servers,
+          timeoutMs: options.queryTimeoutMs,
+        });
+        /* UDP answer unusable (timeout, truncated), fall back to the system resolver without TTL */
+        return answer ?? { records: await resolveTxt(hostname) };
+      });
+  }
+
+  /**
+   * Resolves TXT records, serving from cache while the entry is fresh
+   */
+  async resolveTxt(hostname: string): Promise<string[][]> {
+    const name = normalizeName(hostname);
+    const cached = this.cache.get(name);
+
+    if (cached) {
+      if (cached.expiresAt > Date.now()) {
+        /* refresh recency for LRU eviction */
+        this.cache.delete(name);
+        this.cache.set(name, cached);
+        if (cached.failed) throw cached.error;
+        return cached.records.map((chunks) => [...chunks]);
+      }
+      this.cache.delete(name);
+    }
+
+    const pending = this.inflight.get(name);
+    if (pending) return pending.then((records) => records.map((chunks) => [...chunks]));
+
+    const request = this.fetch(name).finally(() => this.inflight.delete(name));
+    this.inflight.set(name, request);
+    return request.then((records) => records.map((chunks) => [...chunks]));
+  }
+
+  /**
+   * Removes a single name from the cache, e.g. after a key rotation
+   */
+  invalidate(hostname: string): void {
+    this.cache.delete(normalizeName(hostname));
+  }
+
+  /**
+   * Removes every cached answer
+   */
+  clear(): void {
+    this.cache.clear();
+  }
+
+  get size(): number {
+    return this.cache.size;
+  }
+
+  private async fetch(name: string): Promise<string[][]> {
+    try {
+      const { records, ttl } = await this.lookup(name);
+      const ttlMs =
+        ttl === undefined
+          ? this.defaultTtlMs
+          : Math.min(this.maxTtlMs, Math.max(this.minTtlMs, ttl * 1000));
+      this.store(name, { expiresAt: Date.now() + ttlMs, failed: false, records });
+      return records;
+    } catch (error) {
+      if (this.negativeTtlMs > 0 && isNegativeAnswer(error)) {
+        this.store(name, { expiresAt: Date.now() + this.negativeTtlMs, failed: true, error });
+      }
+      throw error;
+    }
+  }
+
+  private store(name: string, entry: CacheEntry): void {
+    this.cache.delete(name);
+    this.cache.set(name, entry);
+    while (this.cache.size > this.maxEntries) {
+      const oldest = this.cache.keys().next().value;
+      if (oldest === undefined) break;
+      this.cache.delete(oldest);
+    }
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * @license
+ * Copyright (c) 2025 Bhupendra Tamang
+ * Licensed under the Apache License, Version 2.0
+ * https://www.apache.org/licenses/LICENSE-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import { BtpsStaticDnsResolver } from './BtpsStaticDnsResolver.js';
+import { getHostAndSelector, resolvePublicKey } from '../utils/index.js';
+
+describe('BtpsStaticDnsResolver', () => {
+  it('resolves configured records case insensitively', async () => {
+    const resolver = new BtpsStaticDnsResolver({
+      '_btps.host.example.com': 'v=1.0.0;u=btps.example.com:3443;s=btps1',
+      'btps1._btps.identity.alice.example.com': ['v=1.0.0;k=rsa;', 'p=abc'],
+    });
+
+    expect(await resolver.resolveTxt('_BTPS.host.example.com.')).toEqual([
+      ['v=1.0.0;u=btps.example.com:3443;s=btps1'],
+    ]);
+    expect(await resolver.resolveTxt('btps1._btps.identity.alice.example.com')).toEqual([
+      ['v=1.0.0;k=rsa;'],
+      ['p=abc'],
+    ]);
+  });
+
+  it('rejects unknown names with ENOTFOUND', async () => {
+    const resolver = new BtpsStaticDnsResolver();
+    await expect(resolver.resolveTxt('missing.example.com')).rejects.toMatchObject({
+      code: 'ENOTFOUND',
+    });
+
+    resolver.set('missing.example.com', [['found']]);
+    expect(await resolver.resolveTxt('missing.example.com')).toEqual([['found']]);
+
+    resolver.delete('missing.example.com');
+    await expect(resolver.resolveTxt('missing.example.com')).rejects.toThrow();
+  });
+
+  it('parses TXT records from a zone', async () => {
+    const resolver = BtpsStaticDnsResolver.fromZone(
+      [
+        '$ORIGIN example.com.',
+        '$TTL 3600',
+        '@                  IN A   192.0.2.1',
+        '_btps.host         IN TXT "v=1.0.0;u=btps.example.com:3443;s=btps1" ; host record',
+        'btps1._btps.identity.alice 300 IN TXT (',
+        '    "v=1.0.0;k=rsa;"',
+        '    "p=abc;def" )',
+        '                   IN TXT "second"',
+        'other.org.         TXT "absolute \\"quoted\\""',
+      ].join('\n'),
+    );
+
+    expect(await resolver.resolveTxt('_btps.host.example.com')).toEqual([
+      ['v=1.0.0;u=btps.example.com:3443;s=btps1'],
+    ]);
+    expect(await resolver.resolveTxt('btps1._btps.identity.alice.example.com')).toEqual([
+      ['v=1.0.0;k=rsa;', 'p=abc;def'],
+      ['second'],
+    ]);
+    expect(await resolver.resolveTxt('other.org')).toEqual([['absolute "quoted"']]);
+    await expect(resolver.resolveTxt('example.com')).rejects.toThrow();
+  });
+
+  it('can be injected into identity lookups', async () => {
+    const resolver = BtpsStaticDnsResolver.fromZone(
+      [
+        '_btps.host TXT "v=1.0.0;u=btps.example.com:3443;s=btps2"',
+        'btps2._btps.identity.alice TXT "v=1.0.0;k=rsa;p=QUJD"',
+      ].join('\n'),
+      'example.com',
+    );
+
+    expect(await getHostAndSelector('alice$example.com', resolver)).toEqual({
+      version: '1.0.0',
+      host: 'btps.example.com:3443',
+      selector: 'btps2',
+    });
+    expect(await resolvePublicKey('alice$example.com', 'btps2', resolver)).toBe(
+      '-----BEGIN PUBLIC KEY-----\nQUJD\n-----END PUBLIC KEY-----',
+    );
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * @license
+ * Copyright (c) 2025 Bhupendra Tamang
+ * Licensed under the Apache License, Version 2.0
+ * https://www.apache.org/licenses/LICENSE-2.0
+ */
+
+import { readFile } from 'fs/promises';
+import { createDnsError } from './txtQuery.js';
+import { BtpsDnsResolver, BtpsStaticDnsRecords } from './types.js';
+
+const RECORD_CLASSES = ['IN', 'CH', 'HS', 'CS'];
+
+const normalizeName = (hostname: string): string =>
+  hostname.trim().toLowerCase().replace(/\.$/, '');
+
+const toRecords = (value: string | string[] | string[][]): string[][] => {
+  if (typeof value === 'string') return [[value]];
+  return value.map((record) => (Array.isArray(record) ? [...record] : [record]));
+};
+
+/* Splits a zone line into tokens, keeping quoted strings intact and dropping comments */
+const tokenize = (line: string): { tokens: string[]; quoted: boolean[] } => {
+  const tokens: string[] = [];
+  const quoted: boolean[] = [];
+  let i = 0;
+
+  while (i < line.length) {
+    const char = line[i];
+    if (char === ';') break;
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (char === '"') {
+      let value = '';
+      i++;
+      while (i < line.length && line[i] !== '"') {
+        if (line[i] === '\\' && i + 1 < line.length) i++;
+        value += line[i++];
+      }
+      i++;
+      tokens.push(value);
+      quoted.push(true);
+      continue;
+    }
+
+    let value = '';
+    while (i < line.length && !/[\s;"]/.test(line[i])) value += line[i++];
+    tokens.push(value);
+    quoted.push(false);
+  }
+
+  return { tokens, quoted };
+};
+
+/* Joins parenthesised multi-line entries into single logical lines */
+const toLogicalLines = (text: string): string[] => {
+  const lines: string[] = [];
+  let buffer = '';
+  let depth = 0;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    let inQuote = false;
+    let line = '';
+    for (let i = 0; i < rawLine.length; i++) {
+      const char = rawLine[i];
+      if (char === '\\' && inQuote) {
+        line += char + (rawLine[++i] ?? '');
+        continue;
+      }
+      if (char === '"') inQuote = !inQuote;
+      if (!inQuote && char === ';') break;
+      if (!inQuote && char === '(') {
+        depth++;
+        line += ' ';
+        continue;
+      }
+      if (!inQuote && char === ')') {
+        depth = Math.max(0, depth - 1);
+        line += ' ';
+        continue;
+      }
+      line += char;
+    }
+
+    /* keep leading whitespace of the first line, it means "same owner as previous record" */
+    buffer = buffer ? `${buffer} ${line.trim()}` : line;
+    if (depth === 0) {
+      if (buffer.trim()) lines.push(buffer);
+      buffer = '';
+    }
+  }
+
+  if (buffer.trim()) lines.push(buffer);
+  return lines;
+};
+
+/**
+ * In-memory DNS resolver backed by a fixed set of TXT records.
+ * Useful for tests, local development and private deployments that do not publish to public DNS.
+ */
+export class BtpsStaticDnsResolver implements BtpsDnsResolver {
+  private readonly records = new Map<string, string[][]>();
+
+  constructor(records: BtpsStaticDnsRecords = {}) {
+    for (const [hostname, value] of Object.entries(records)) {
+      this.set(hostname, value);
+    }
+  }
+
+  /**
+   * Builds a resolver from the TXT records of a BIND style zone
+   * Supports $ORIGIN, $TTL, `@`, relative owner names, comments and parenthesised records.
+   * Records other than TXT are ignored.
+   */
+  static fromZone(zone: string, origin?: string): BtpsStaticDnsResolver {
+    const resolver = new BtpsStaticDnsResolver();
+    let currentOrigin = origin ? normalizeName(origin) : '';
+    let previousOwner = currentOrigin;
+
+    const qualify = (name: string): string => {
+      if (name === '@') return currentOrigin;
+      if (name.endsWith('.')) return normalizeName(name);
+      return normalizeName(currentOrigin ? `${name}.${currentOrigin}` : name);
+    };
+
+    for (const line of toLogicalLines(zone)) {
+      const inheritsOwner = /^\s/.test(line);
+      const { tokens, quoted } = tokenize(line);
+      if (!tokens.length) continue;
+
+      if (!quoted[0] && tokens[0].toUpperCase() === '$ORIGIN') {
+        currentOrigin = normalizeName(tokens[1] ?? '');
+        continue;
+      }
+      if (!quoted[0] && tokens[0].startsWith('$')) continue; // $TTL, $INCLUDE, ...
+
+      let index = 0;
+      let owner = previousOwner;
+      if (!inheritsOwner) {
+        owner = qualify(tokens[0]);
+        index = 1;
+      }
+      previousOwner = owner;
+
+      /* skip optional TTL and class in any order */
+      while (
+        index < tokens.length &&
+        !quoted[index] &&
+        (/^\d+[smhdw]?$/i.test(tokens[index]) ||
+          RECORD_CLASSES.includes(tokens[index].toUpperCase()))
+      ) {
+        index++;
+      }
+
+      if (tokens[index]?.toUpperCase() !== 'TXT') continue;
+      const chunks = tokens.slice(index + 1);
+      if (!chunks.length) continue;
+
+      const existing = resolver.records.get(owner) ?? [];
+      resolver.records.set(owner, [...existing, chunks]);
+    }
+
+    return resolver;
+  }
+
+  /**
+   * Reads a BIND style zone file, see fromZone
+   */
+  static async fromZoneFile(filePath: string, origin?: string): Promise<BtpsStaticDnsResolver> {
+    const zone = await readFile(filePath, 'utf8');
+    return BtpsStaticDnsResolver.fromZone(zone, origin);
+  }
+
+  /**
+   * Replaces the TXT records for a name
+   */
+  set(hostname: string, value: string | string[] | string[][]): void {
+    this.records.set(normalizeName(hostname), toRecords(value));
+  }
+
+  delete(hostname: string): void {
+    this.records.delete(normalizeName(hostname));
+  }
+
+  async resolveTxt(hostname: string): Promise<string[][]> {
+    const records = this.records.get(normalizeName(hostname));
+    if (!records) throw createDnsError('ENOTFOUND', hostname);
+    return records.map((chunks) => [...chunks]);
+  }
+}
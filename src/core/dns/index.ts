@@ -0,0 +1,31 @@
+/**
+ * @license
+ * Copyright (c) 2025 Bhupendra Tamang
+ * Licensed under the Apache License, Version 2.0
+ * https://www.apache.org/licenses/LICENSE-2.0
+ */
+
+import { resolveTxt } from 'dns/promises';
+import { BtpsCachingDnsResolver } from './BtpsCachingDnsResolver.js';
+import { BtpsDnsResolver } from './types.js';
+
+export { BtpsCachingDnsResolver } from './BtpsCachingDnsResolver.js';
+export { BtpsStaticDnsResolver } from './BtpsStaticDnsResolver.js';
+export * from './types.js';
+
+/**
+ * Uncached resolver delegating to the operating system resolver
+ */
+export const systemDnsResolver: BtpsDnsResolver = {
+  resolveTxt: (hostname: string) => resolveTxt(hostname),
+};
+
+let defaultDnsResolver: BtpsDnsResolver | undefined;
+
+/**
+ * Shared caching resolver used by server, client and delegator when none is injected
+ */
+export const getDefaultDnsResolver = (): BtpsDnsResolver => {
+  if (!defaultDnsResolver) defaultDnsResolver = new BtpsCachingDnsResolver();
+  return defaultDnsResolver;
+};
@@ -0,0 +1,236 @@
+/**
+ * @license
+ * Copyright (c) 2025 Bhupendra Tamang
+ * Licensed under the Apache License, Version 2.0
+ * https://www.apache.org/licenses/LICENSE-2.0
+ */
+
+import dgram from 'dgram';
+import { getServers } from 'dns';
+import { isIPv6 } from 'net';
+import { randomBytes } from 'crypto';
+import { BtpsDnsTxtAnswer } from './types.js';
+
+const DNS_TYPE_TXT = 16;
+const DNS_CLASS_IN = 1;
+const DNS_RCODE_NXDOMAIN = 3;
+
+type NameServer = { address: string; port: number };
+
+/**
+ * Error raised for DNS answers, carrying the same codes as node's dns module
+ */
+export const createDnsError = (code: string, hostname: string): NodeJS.ErrnoException =>
+  Object.assign(new Error(`queryTxt ${code} ${hostname}`), {
+    code,
+    syscall: 'queryTxt',
+    hostname,
+  });
+
+/**
+ * Parses name server entries as returned by `dns.getServers()`
+ * e.g. `1.1.1.1`, `1.1.1.1:5353`, `::1` or `[::1]:5353`
+ */
+export const parseNameServer = (server: string): NameServer => {
+  const bracketed = server.match(/^\[(.+)\](?::(\d+))?$/);
+  if (bracketed) {
+    return { address: bracketed[1], port: bracketed[2] ? parseInt(bracketed[2], 10) : 53 };
+  }
+
+  if (isIPv6(server)) return { address: server, port: 53 };
+
+  const [address, port] = server.split(':');
+  return { address, port: port ? parseInt(port, 10) : 53 };
+};
+
+const encodeQuery = (id: number, hostname: string): Buffer => {
+  const header = Buffer.alloc(12);
+  header.writeUInt16BE(id, 0);
+  header.writeUInt16BE(0x0100, 2); // standard query, recursion desired
+  header.writeUInt16BE(1, 4); // one question
+
+  const labels = hostname
+    .replace(/\.$/, '')
+    .split('.')
+    .filter(Boolean)
+    .map((label) => {
+      const encoded = Buffer.from(label, 'utf8');
+      return Buffer.concat([Buffer.from([encoded.length]), encoded]);
+    });
+
+  const question = Buffer.alloc(4);
+  question.writeUInt16BE(DNS_TYPE_TXT, 0);
+  question.writeUInt16BE(DNS_CLASS_IN, 2);
+
+  return Buffer.concat([header, ...labels, Buffer.from([0]), question]);
+};
+
+/* Returns the offset right after a (possibly compressed) domain name */
+const skipName = (message: Buffer, offset: number): number => {
+  let cursor = offset;
+  while (cursor < message.length) {
+    const length = message[cursor];
+    if (length === 0) return cursor + 1;
+    if ((length & 0xc0) === 0xc0) return cursor + 2; // compression pointer ends the name
+    cursor += length + 1;
+  }
+  throw createDnsError('EBADRESP', '');
+};
+
+/* Reads the single question of a response, compression pointers are not valid in it */
+const readQuestion = (
+  message: Buffer,
+): { name: string; type: number; cls: number; end: number } | undefined => {
+  if (message.length < 12 || message.readUInt16BE(4) !== 1) return undefined;
+
+  const labels: string[] = [];
+  let cursor = 12;
+  while (cursor < message.length) {
+    const length = message[cursor];
+    if (length === 0) break;
+    if (length & 0xc0) return undefined;
+    labels.push(message.toString('utf8', cursor + 1, cursor + 1 + length));
+    cursor += length + 1;
+  }
+  if (cursor + 5 > message.length) return undefined;
+
+  return {
+    name: labels.join('.'),
+    type: message.readUInt16BE(cursor + 1),
+    cls: message.readUInt16BE(cursor + 3),
+    end: cursor + 5,
+  };
+};
+
+/**
+ * Checks that a response answers the TXT question sent for the hostname
+ * Responses carrying another question must not be trusted even when the id matches.
+ */
+const answersQuestion = (message: Buffer, hostname: string): boolean => {
+  const question = readQuestion(message);
+  return (
+    !!question &&
+    question.type === DNS_TYPE_TXT &&
+    question.cls === DNS_CLASS_IN &&
+    question.name.toLowerCase() === hostname.replace(/\.$/, '').toLowerCase()
+  );
+};
+
+/**
+ * Decodes a DNS response and extracts TXT records with the lowest TTL
+ * @returns The answer or undefined when the response was truncated
+ */
+export const decodeTxtResponse = (
+  message: Buffer,
+  id: number,
+  hostname: string,
+): BtpsDnsTxtAnswer | undefined => {
+  if (
+    message.length < 12 ||
+    message.readUInt16BE(0) !== id ||
+    !answersQuestion(message, hostname)
+  ) {
+    throw createDnsError('EBADRESP', hostname);
+  }
+
+  const flags = message.readUInt16BE(2);
+  if (flags & 0x0200) return undefined; // truncated, caller must fall back to TCP
+
+  const rcode = flags & 0x000f;
+  if (rcode === DNS_RCODE_NXDOMAIN) throw createDnsError('ENOTFOUND', hostname);
+  if (rcode !== 0) throw createDnsError('ESERVFAIL', hostname);
+
+  const answerCount = message.readUInt16BE(6);
+
+  let offset = readQuestion(message)!.end;
+
+  const records: string[][] = [];
+  let ttl: number | undefined;
+  for (let i = 0; i < answerCount; i++) {
+    offset = skipName(message, offset);
+    const type = message.readUInt16BE(offset);
+    const recordTtl = message.readUInt32BE(offset + 4);
+    const dataLength = message.readUInt16BE(offset + 8);
+    const dataStart = offset + 10;
+    offset = dataStart + dataLength;
+
+    if (type !== DNS_TYPE_TXT) continue;
+
+    const chunks: string[] = [];
+    let cursor = dataStart;
+    while (cursor < offset) {
+      const chunkLength = message[cursor];
+      chunks.push(message.toString('utf8', cursor + 1, cursor + 1 + chunkLength));
+      cursor += chunkLength + 1;
+    }
+    records.push(chunks);
+    ttl = ttl === undefined ? recordTtl : Math.min(ttl, recordTtl);
+  }
+
+  if (!records.length) throw createDnsError('ENODATA', hostname);
+  return { records, ttl };
+};
+
+const queryServer = (
+  server: NameServer,
+  hostname: string,
+  timeoutMs: number,
+): Promise<BtpsDnsTxtAnswer | undefined> => {
+  return new Promise((resolve, reject) => {
+    const id = randomBytes(2).readUInt16BE(0);
+    const socket = dgram.createSocket(isIPv6(server.address) ? 'udp6' : 'udp4');
+    const timer = setTimeout(() => {
+      finish(() => reject(createDnsError('ETIMEOUT', hostname)));
+    }, timeoutMs);
+
+    const finish = (settle: () => void) => {
+      clearTimeout(timer);
+      socket.removeAllListeners();
+      socket.close();
+      settle();
+    };
+
+    socket.on('error', (err) => finish(() => reject(err)));
+    socket.on('message', (message, rinfo) => {
+      /* ignore stray or spoofed datagrams that do not belong to this query */
+      if (rinfo.address.toLowerCase() !== server.address.toLowerCase()) return;
+      if (rinfo.port !== server.port) return;
+      if (message.length < 12 || message.readUInt16BE(0) !== id) return;
+      if (!answersQuestion(message, hostname)) return;
+      try {
+        const answer = decodeTxtResponse(message, id, hostname);
+        finish(() => resolve(answer));
+      } catch (error) {
+        finish(() => reject(error));
+      }
+    });
+
+    socket.send(encodeQuery(id, hostname), server.port, server.address);
+  });
+};
+
+/**
+ * Resolves TXT records over UDP so the record TTL is available for caching.
+ * NXDOMAIN and NODATA answers reject with `ENOTFOUND` and `ENODATA`.
+ * @returns The answer, or undefined when no server gave a usable UDP answer (timeout, truncation)
+ */
+export const queryTxt = async (
+  hostname: string,
+  options: { servers?: string[]; timeoutMs?: number } = {},
+): Promise<BtpsDnsTxtAnswer | undefined> => {
+  const servers = (options.servers ?? getServers()).map(parseNameServer);
+  const timeoutMs = options.timeoutMs ?? 2000;
+
+  for (const server of servers) {
+    try {
+      const answer = await queryServer(server, hostname, timeoutMs);
+      if (answer) return answer;
+    } catch (error) {
+      const code = (error as NodeJS.ErrnoException)?.code;
+      /* authoritative negative answers must not be retried against other servers */
+      if (code === 'ENOTFOUND' || code === 'ENODATA') throw error;
+    }
+  }
+
+  return undefined;
+};
@@ -0,0 +1,39 @@
+/**
+ * @license
+ * Copyright (c) 2025 Bhupendra Tamang
+ * Licensed under the Apache License, Version 2.0
+ * https://www.apache.org/licenses/LICENSE-2.0
+ */
+
+/**
+ * Resolver contract used for every BTPS DNS lookup (host discovery, identity keys).
+ * Implementations must reject with a node style error (`code` of `ENOTFOUND`, `ENODATA`, ...)
+ * when the name cannot be resolved, mirroring `dns/promises.resolveTxt`.
+ */
+export interface BtpsDnsResolver {
+  resolveTxt(hostname: string): Promise<string[][]>;
+}
+
+export type BtpsDnsTxtAnswer = {
+  records: string[][];
+  ttl?: number; // TTL in seconds as returned by the authoritative answer
+};
+
+/**
+ * Low level TXT lookup used by the caching resolver
+ * Returning a `ttl` lets the cache honour the record TTL.
+ */
+export type BtpsDnsTxtLookup = (hostname: string) => Promise<BtpsDnsTxtAnswer>;
+
+export interface BtpsCachingDnsResolverOptions {
+  lookup?: BtpsDnsTxtLookup; // custom lookup, defaults to a TTL aware UDP query with system fallback
+  servers?: string[]; // name servers to query, defaults to dns.getServers()
+  queryTimeoutMs?: number; // per server UDP query timeout (default: 2000)
+  defaultTtlMs?: number; // cache time when the lookup does not return a TTL (default: 300000)
+  minTtlMs?: number; // lower bound applied to record TTLs (default: 1000)
+  maxTtlMs?: number; // upper bound applied to record TTLs (default: 3600000)
+  negativeTtlMs?: number; // cache time for ENOTFOUND / ENODATA answers, 0 disables it (default: 30000)
+  maxEntries?: number; // maximum cached names before least recently used are evicted (default: 1000)
+}
+
+export type BtpsStaticDnsRecords = Record<string, string | string[] | string[][]>;
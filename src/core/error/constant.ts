@@ -107,11 +107,26 @@ export const BTP_ERROR_UNSUPPORTED_ENCRYPT: BTPError = {
   message: 'Unsupported encryption algorithm',
 };
 
+export const BTP_ERROR_UNSUPPORTED_KEY_TYPE: BTPError = {
+  code: 'BTP_ERROR_UNSUPPORTED_KEY_TYPE',
+  message: 'Unsupported key type',
+};
+
 export const BTP_ERROR_DECRYPTION_UNINTENDED: BTPError = {
   code: 'BTP_ERROR_DECRYPTION_UNINTENDED',
   message: 'Decryption failed: Message was not intended for this receiver.',
 };
 
+export const BTP_ERROR_SECOND_FACTOR_REQUIRED: BTPError = {
+  code: 'BTP_ERROR_SECOND_FACTOR_REQUIRED',
+  message: 'Second factor is required to decrypt this document',
+};
+
+export const BTP_ERROR_SECOND_FACTOR_INVALID: BTPError = {
+  code: 'BTP_ERROR_SECOND_FACTOR_INVALID',
+  message: 'Decryption failed: Second factor is invalid',
+};
+
 export const BTP_ERROR_UNKNOWN: BTPError = {
   code: 'BTP_UNKNOWN_ERROR',
   message: 'Unknown error',
@@ -141,3 +156,28 @@ export const BTP_ERROR_CONNECTION_ENDED: BTPError = {
   code: 'BTP_ERROR_CONNECTION_ENDED',
   message: 'Connection ended',
 };
+
+export const BTP_ERROR_REPLAY: BTPError = {
+  code: 'BTP_ERROR_REPLAY',
+  message: 'Artifact rejected: replayed or outside the allowed time window',
+};
+
+export const BTP_ERROR_PAYLOAD_TOO_LARGE: BTPError = {
+  code: 'BTP_ERROR_PAYLOAD_TOO_LARGE',
+  message: 'Artifact exceeds the maximum allowed size',
+};
+
+export const BTP_ERROR_UNSUPPORTED_VERSION: BTPError = {
+  code: 'BTP_ERROR_UNSUPPORTED_VERSION',
+  message: 'Unsupported protocol version',
+};
+
+export const BTP_ERROR_MIDDLEWARE_FAILURE: BTPError = {
+  code: 'BTP_ERROR_MIDDLEWARE_FAILURE',
+  message: 'Artifact rejected by a failing server middleware',
+};
+
+export const BTP_ERROR_INVALID_CURSOR: BTPError = {
+  code: 'BTP_ERROR_INVALID_CURSOR',
+  message: 'Query cursor is invalid or was issued for a different query',
+};
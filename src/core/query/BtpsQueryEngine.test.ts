@@ -0,0 +1,167 @@
+/**
+ * @license
+ * Copyright (c) 2025 Bhupendra Tamang
+ * Licensed under the Apache License, Version 2.0
+ * https://www.apache.org/licenses/LICENSE-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import { BtpsQueryEngine } from './BtpsQueryEngine.js';
+import { BTPErrorException, BTP_ERROR_INVALID_CURSOR } from '../error/index.js';
+import type { BTPAgentQuery } from '../server/types.js';
+
+type Item = { id: string; at: string; title?: string; from: string };
+
+const items: Item[] = [
+  { id: 'a', at: '2025-01-01T00:00:00.000Z', title: 'Invoice January', from: 'bob$x.com' },
+  { id: 'b', at: '2025-01-02T00:00:00.000Z', title: 'Receipt', from: 'carol$x.com' },
+  { id: 'c', at: '2025-01-02T00:00:00.000Z', title: 'invoice february', from: 'carol$x.com' },
+  { id: 'd', at: '2025-01-03T00:00:00.000Z', from: 'dave$x.com' },
+  { id: 'e', at: '2025-01-04T00:00:00.000Z', title: 'Invoice March', from: 'bob$x.com' },
+];
+
+const createEngine = (cursorSecret = 'secret') =>
+  new BtpsQueryEngine<Item>({
+    fields: {
+      id: (item) => item.id,
+      time: (item) => item.at,
+      title: (item) => item.title,
+      from: (item) => item.from,
+    },
+    toEntry: (item) => ({ artifact: item }),
+    cursorSecret,
+  });
+
+const ids = (result: { results: { artifact: Item }[] }) =>
+  result.results.map(({ artifact }) => artifact.id);
+
+describe('BtpsQueryEngine', () => {
+  describe('compile()', () => {
+    it('compiles filters and the time range into a predicate tree', () => {
+      const compiled = createEngine().compile({
+        since: '2025-01-01T00:00:00Z',
+        limit: 10,
+        query: { title: { like: 'invoice', notIn: ['Invoice March'] } },
+      });
+
+      expect(compiled).toEqual({
+        filter: {
+          op: 'and',
+          predicates: [
+            { op: 'gte', field: 'time', value: '2025-01-01T00:00:00.000Z' },
+            { op: 'like', field: 'title', value: 'invoice' },
+            { op: 'notIn', field: 'title', value: ['Invoice March'] },
+          ],
+        },
+        sort: [
+          { field: 'time', direction: 'desc' },
+          { field: 'id', direction: 'desc' },
+        ],
+        limit: 10,
+      });
+    });
+
+    it('bounds the page size', () => {
+      const engine = createEngine();
+
+      expect(engine.compile({}).limit).toBe(50);
+      expect(engine.compile({ limit: 0 }).limit).toBe(1);
+      expect(engine.compile({ limit: 10000 }).limit).toBe(500);
+    });
+
+    it('rejects invalid dates', () => {
+      expect(() => createEngine().compile({ until: 'yesterday' })).toThrow(BTPErrorException);
+    });
+  });
+
+  describe('execute()', () => {
+    it('filters with every string operator', () => {
+      const engine = createEngine();
+      const run = (query: BTPAgentQuery['query']) => ids(engine.execute(items, { query }));
+
+      expect(run({ from: { eq: 'bob$x.com' } })).toEqual(['e', 'a']);
+      expect(run({ from: { ne: 'bob$x.com' } })).toEqual(['d', 'c', 'b']);
+      expect(run({ from: { in: ['dave$x.com', 'bob$x.com'] } })).toEqual(['e', 'd', 'a']);
+      expect(run({ title: { like: 'INVOICE' } })).toEqual(['e', 'c', 'a']);
+      expect(run({ title: { notLike: 'invoice' } })).toEqual(['b']);
+    });
+
+    it('applies since/until and sorts ties by id', () => {
+      const result = createEngine().execute(items, {
+        since: '2025-01-02T00:00:00.000Z',
+        until: '2025-01-03T00:00:00.000Z',
+        sort: 'asc',
+      });
+
+      expect(ids(result)).toEqual(['b', 'c', 'd']);
+      expect(result).toEqual(expect.objectContaining({ total: 3, hasNext: false }));
+      expect(result.cursor).toBeUndefined();
+    });
+
+    it('pages through results with cursors', () => {
+      const engine = createEngine();
+      const seen: string[] = [];
+      let query: BTPAgentQuery = { limit: 2 };
+
+      for (;;) {
+        const result = engine.execute(items, query);
+        seen.push(...ids(result));
+        expect(result.total).toBe(5);
+        if (!result.hasNext) break;
+        query = { ...query, cursor: result.cursor };
+      }
+
+      expect(seen).toEqual(['e', 'd', 'c', 'b', 'a']);
+    });
+
+    it('rejects tampered, foreign and mismatched cursors', () => {
+      const engine = createEngine();
+      const { cursor } = engine.execute(items, { limit: 1 });
+      const [body, signature] = (cursor as string).split('.');
+      const forged = Buffer.from(
+        JSON.stringify({ ...JSON.parse(Buffer.from(body, 'base64url').toString()), id: 'z' }),
+      ).toString('base64url');
+
+      const expectInvalid = (run: () => unknown) => {
+        try {
+          run();
+          expect.unreachable();
+        } catch (error) {
+          expect((error as BTPErrorException).code).toBe(BTP_ERROR_INVALID_CURSOR.code);
+        }
+      };
+
+      expectInvalid(() => engine.execute(items, { cursor: `${forged}.${signature}` }));
+      expectInvalid(() => engine.execute(items, { cursor: 'not-a-cursor' }));
+      expectInvalid(() => createEngine('other').execute(items, { cursor }));
+      expectInvalid(() => engine.execute(items, { cursor, sort: 'asc' }));
+      expect(ids(engine.execute(items, { cursor, limit: 10 }))).toEqual(['d', 'c', 'b', 'a']);
+    });
+  });
+
+  describe('matches()', () => {
+    it('evaluates nested predicates and fails missing fields', () => {
+      const engine = createEngine();
+      const predicate = {
+        op: 'or' as const,
+        predicates: [
+          { op: 'eq' as const, field: 'from' as const, value: 'dave$x.com' },
+          {
+            op: 'and' as const,
+            predicates: [
+              { op: 'ne' as const, field: 'title' as const, value: 'Receipt' },
+              { op: 'lt' as const, field: 'time' as const, value: '2025-01-03T00:00:00.000Z' },
+            ],
+          },
+        ],
+      };
+
+      expect(items.filter((item) => engine.matches(item, predicate)).map(({ id }) => id)).toEqual([
+        'a',
+        'c',
+        'd',
+      ]);
+      expect(engine.matches(items[3], { op: 'ne', field: 'title', value: 'Receipt' })).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,270 @@
+/**
+ * @license
+ * Copyright (c) 2025 Bhupendra Tamang
+ * Licensed under the Apache License, Version 2.0
+ * https://www.apache.org/licenses/LICENSE-2.0
+ */
+
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { canonicalizeJson } from '@core/crypto/canonicalize.js';
+import { BTPErrorException } from '@core/error/index.js';
+import { BTP_ERROR_INVALID_CURSOR, BTP_ERROR_VALIDATION } from '@core/error/constant.js';
+import type {
+  BTPAgentQuery,
+  BTPAgentQueryDoc,
+  BTPQueryResult,
+  BTPStringQueryFilter,
+} from '@core/server/types.js';
+import type {
+  BTPCompiledQuery,
+  BTPQueryCondition,
+  BTPQueryField,
+  BTPQueryPredicate,
+  BtpsQueryEngineOptions,
+} from './types.js';
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 500;
+const STRING_FILTER_OPERATORS = ['eq', 'ne', 'like', 'notLike'] as const;
+const LIST_FILTER_OPERATORS = ['in', 'notIn'] as const;
+
+type CursorPayload = {
+  t: string; // time of the last item
+  id: string; // id of the last item
+  q: string; // fingerprint of the query the cursor was issued for
+};
+
+/**
+ * Evaluates BTPAgentQuery filters with keyset pagination
+ * Queries compile to a portable predicate tree, which the engine evaluates over in-memory
+ * collections and storage adapters translate for their database.
+ * Cursors are HMAC signed and bound to the query they were issued for.
+ */
+export class BtpsQueryEngine<T, R = T> {
+  private readonly cursorSecret: string | Buffer;
+  private readonly defaultLimit: number;
+  private readonly maxLimit: number;
+
+  constructor(private readonly options: BtpsQueryEngineOptions<T, R>) {
+    this.cursorSecret = options.cursorSecret ?? randomBytes(32);
+    this.maxLimit = options.maxLimit ?? MAX_LIMIT;
+    this.defaultLimit = Math.min(options.defaultLimit ?? DEFAULT_LIMIT, this.maxLimit);
+  }
+
+  /**
+   * Compiles a query into predicates, sort order and page size
+   * @throws BTPErrorException with BTP_ERROR_VALIDATION for invalid dates and
+   * BTP_ERROR_INVALID_CURSOR for forged, malformed or foreign cursors
+   */
+  compile(query: BTPAgentQuery = {}): BTPCompiledQuery {
+    const direction = query.sort === 'asc' ? 'asc' : 'desc';
+    const conditions: BTPQueryPredicate[] = [];
+
+    if (query.since) {
+      conditions.push({ op: 'gte', field: 'time', value: this.toInstant(query.since, 'since') });
+    }
+    if (query.until) {
+      conditions.push({ op: 'lte', field: 'time', value: this.toInstant(query.until, 'until') });
+    }
+    for (const [field, filter] of Object.entries(query.query ?? {})) {
+      conditions.push(...this.compileFilter(field as keyof BTPAgentQueryDoc, filter));
+    }
+
+    const compiled: BTPCompiledQuery = {
+      sort: [
+        { field: 'time', direction },
+        { field: 'id', direction },
+      ],
+      limit: Math.min(Math.max(query.limit ?? this.defaultLimit, 1), this.maxLimit),
+    };
+    if (conditions.length) {
+      compiled.filter =
+        conditions.length === 1 ? conditions[0] : { op: 'and', predicates: conditions };
+    }
+    if (query.cursor) {
+      const { t, id } = this.verifyCursor(query.cursor, query);
+      const op = direction === 'asc' ? 'gt' : 'lt';
+      compiled.cursor = {
+        op: 'or',
+        predicates: [
+          { op, field: 'time', value: t },
+          {
+            op: 'and',
+            predicates: [
+              { op: 'eq', field: 'time', value: t },
+              { op, field: 'id', value: id },
+            ],
+          },
+        ],
+      };
+    }
+    return compiled;
+  }
+
+  /**
+   * Evaluates a predicate against an item, an undefined predicate matches everything
+   */
+  matches(item: T, predicate?: BTPQueryPredicate): boolean {
+    if (!predicate) return true;
+    switch (predicate.op) {
+      case 'and':
+        return predicate.predicates.every((child) => this.matches(item, child));
+      case 'or':
+        return predicate.predicates.some((child) => this.matches(item, child));
+      default:
+        return this.matchesCondition(item, predicate);
+    }
+  }
+
+  /**
+   * Runs a query over an in-memory collection
+   */
+  execute(items: Iterable<T>, query: BTPAgentQuery = {}): BTPQueryResult<R> {
+    const compiled = this.compile(query);
+    const matching = [...items].filter((item) => this.matches(item, compiled.filter));
+    const page = matching
+      .filter((item) => this.matches(item, compiled.cursor))
+      .sort((a, b) => this.compareItems(a, b, compiled))
+      .slice(0, compiled.limit + 1);
+    return this.toResult(query, page, matching.length);
+  }
+
+  /**
+   * Builds the result of a page read by a storage adapter
+   * @param query - The query the page was read for
+   * @param items - Up to `limit + 1` items in sort order, the extra item signals a next page
+   * @param total - Number of items matching the query filter, when known
+   */
+  toResult(query: BTPAgentQuery, items: T[], total?: number): BTPQueryResult<R> {
+    const { limit } = this.compile({ limit: query.limit });
+    const page = items.slice(0, limit);
+    const hasNext = items.length > limit;
+    const result: BTPQueryResult<R> = {
+      results: page.map((item) => this.options.toEntry(item)),
+      hasNext,
+    };
+    if (total !== undefined) result.total = total;
+    if (hasNext) result.cursor = this.createCursor(page[page.length - 1], query);
+    return result;
+  }
+
+  /**
+   * Issues a cursor pointing after the given item
+   */
+  createCursor(item: T, query: BTPAgentQuery): string {
+    const payload: CursorPayload = {
+      t: this.toInstant(this.options.fields.time(item), 'time'),
+      id: this.options.fields.id(item),
+      q: this.fingerprint(query),
+    };
+    const body = Buffer.from(JSON.stringify(payload)).toString('base64url');
+    return `${body}.${this.sign(body)}`;
+  }
+
+  private verifyCursor(cursor: string, query: BTPAgentQuery): CursorPayload {
+    const [body, signature, ...rest] = cursor.split('.');
+    const expected = Buffer.from(this.sign(body ?? ''));
+    const received = Buffer.from(signature ?? '');
+    if (
+      !body ||
+      rest.length ||
+      expected.length !== received.length ||
+      !timingSafeEqual(expected, received)
+    ) {
+      throw new BTPErrorException(BTP_ERROR_INVALID_CURSOR, { cause: 'Cursor signature mismatch' });
+    }
+
+    let payload: CursorPayload;
+    try {
+      payload = JSON.parse(Buffer.from(body, 'base64url').toString('utf8'));
+    } catch (error) {
+      throw new BTPErrorException(BTP_ERROR_INVALID_CURSOR, { cause: error });
+    }
+    if (payload.q !== this.fingerprint(query)) {
+      throw new BTPErrorException(BTP_ERROR_INVALID_CURSOR, {
+        cause: 'Cursor was issued for a different query',
+      });
+    }
+    return payload;
+  }
+
+  private sign(body: string): string {
+    return createHmac('sha256', this.cursorSecret).update(body).digest('base64url');
+  }
+
+  /* page size and position may change between pages, anything selecting items may not */
+  private fingerprint({ since, until, sort, query }: BTPAgentQuery): string {
+    return createHash('sha256')
+      .update(canonicalizeJson({ since, until, sort: sort ?? 'desc', query: query ?? {} }))
+      .digest('base64url');
+  }
+
+  private compileFilter(
+    field: keyof BTPAgentQueryDoc,
+    filter: BTPStringQueryFilter = {},
+  ): BTPQueryCondition[] {
+    return [
+      ...STRING_FILTER_OPERATORS.filter((op) => filter[op] !== undefined).map(
+        (op): BTPQueryCondition => ({ op, field, value: filter[op] as string }),
+      ),
+      ...LIST_FILTER_OPERATORS.filter((op) => filter[op] !== undefined).map(
+        (op): BTPQueryCondition => ({ op, field, value: [...(filter[op] as string[])] }),
+      ),
+    ];
+  }
+
+  private matchesCondition(item: T, condition: BTPQueryCondition): boolean {
+    const value = this.options.fields[condition.field]?.(item);
+    if (value === undefined) return false;
+
+    switch (condition.op) {
+      case 'eq':
+        return condition.field === 'time'
+          ? this.compareValues('time', value, condition.value) === 0
+          : value === condition.value;
+      case 'ne':
+        return value !== condition.value;
+      case 'in':
+        return condition.value.includes(value);
+      case 'notIn':
+        return !condition.value.includes(value);
+      case 'like':
+        return value.toLowerCase().includes(condition.value.toLowerCase());
+      case 'notLike':
+        return !value.toLowerCase().includes(condition.value.toLowerCase());
+      case 'gt':
+        return this.compareValues(condition.field, value, condition.value) > 0;
+      case 'gte':
+        return this.compareValues(condition.field, value, condition.value) >= 0;
+      case 'lt':
+        return this.compareValues(condition.field, value, condition.value) < 0;
+      case 'lte':
+        return this.compareValues(condition.field, value, condition.value) <= 0;
+    }
+  }
+
+  private compareItems(a: T, b: T, { sort }: BTPCompiledQuery): number {
+    for (const { field, direction } of sort) {
+      const order = this.compareValues(
+        field,
+        this.options.fields[field](a),
+        this.options.fields[field](b),
+      );
+      if (order !== 0) return direction === 'asc' ? order : -order;
+    }
+    return 0;
+  }
+
+  private compareValues(field: BTPQueryField, a: string, b: string): number {
+    if (field === 'time') return Date.parse(a) - Date.parse(b);
+    return a < b ? -1 : a > b ? 1 : 0;
+  }
+
+  private toInstant(value: string, name: string): string {
+    const time = Date.parse(value);
+    if (Number.isNaN(time)) {
+      throw new BTPErrorException(BTP_ERROR_VALIDATION, { cause: `${name} is not a valid date` });
+    }
+    return new Date(time).toISOString();
+  }
+}
@@ -0,0 +1,9 @@
+/**
+ * @license
+ * Copyright (c) 2025 Bhupendra Tamang
+ * Licensed under the Apache License, Version 2.0
+ * https://www.apache.org/licenses/LICENSE-2.0
+ */
+
+export { BtpsQueryEngine } from './BtpsQueryEngine.js';
+export * from './types.js';
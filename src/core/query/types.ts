@@ -0,0 +1,73 @@
+/**
+ * @license
+ * Copyright (c) 2025 Bhupendra Tamang
+ * Licensed under the Apache License, Version 2.0
+ * https://www.apache.org/licenses/LICENSE-2.0
+ */
+
+import type { BTPAgentQueryDoc, BTPQueryResultEntry } from '@core/server/types.js';
+
+/**
+ * Fields a query can address. `time` is the instant since/until, sorting and cursors apply to,
+ * `id` breaks ties between items sharing the same time.
+ */
+export type BTPQueryField = 'id' | 'time' | keyof BTPAgentQueryDoc;
+
+export type BTPQueryStringOperator = 'eq' | 'ne' | 'like' | 'notLike';
+export type BTPQueryListOperator = 'in' | 'notIn';
+export type BTPQueryRangeOperator = 'gt' | 'gte' | 'lt' | 'lte';
+
+/**
+ * Single field comparison
+ * eq/ne/in/notIn compare exact values, like/notLike match a case insensitive substring.
+ * Range operators compare instants on `time` (ISO timestamps) and strings on every other field.
+ * A missing field value fails every comparison, as NULL does in SQL.
+ */
+export type BTPQueryCondition =
+  | { op: BTPQueryStringOperator | BTPQueryRangeOperator; field: BTPQueryField; value: string }
+  | { op: BTPQueryListOperator; field: BTPQueryField; value: string[] };
+
+export type BTPQueryLogical = {
+  op: 'and' | 'or';
+  predicates: BTPQueryPredicate[];
+};
+
+/**
+ * Portable predicate tree storage adapters translate into their own query language
+ */
+export type BTPQueryPredicate = BTPQueryCondition | BTPQueryLogical;
+
+export type BTPQuerySort = {
+  field: Extract<BTPQueryField, 'time' | 'id'>;
+  direction: 'asc' | 'desc';
+};
+
+/**
+ * Query compiled from a BTPAgentQuery
+ * Adapters count `filter` for the total, then read `limit + 1` items matching both `filter`
+ * and `cursor` in `sort` order and hand them to `BtpsQueryEngine.toResult()`.
+ */
+export interface BTPCompiledQuery {
+  filter?: BTPQueryPredicate; // query filters and since/until range
+  cursor?: BTPQueryPredicate; // position after the last item of the previous page
+  sort: BTPQuerySort[];
+  limit: number;
+}
+
+/**
+ * Reads the queryable fields of an item, optional fields never match when missing
+ */
+export type BTPQueryFieldAccessors<T> = {
+  id: (item: T) => string;
+  time: (item: T) => string; // ISO timestamp
+} & {
+  [K in keyof BTPAgentQueryDoc]?: (item: T) => string | undefined;
+};
+
+export interface BtpsQueryEngineOptions<T, R> {
+  fields: BTPQueryFieldAccessors<T>;
+  toEntry: (item: T) => BTPQueryResultEntry<R>; // maps an item to its query result entry
+  cursorSecret?: string | Buffer; // HMAC key signing cursors, defaults to a random key per engine
+  defaultLimit?: number; // page size when the query has no limit (default: 50)
+  maxLimit?: number; // upper bound applied to the query limit (default: 500)
+}
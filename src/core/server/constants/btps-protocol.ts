@@ -5,8 +5,11 @@
  * https://www.apache.org/licenses/LICENSE-2.0
  */
 
-export const BTP_PROTOCOL_VERSION = '1.0.0';
+// 1.1.0 signs payloads using JSON canonicalization (RFC 8785), 1.0.0 signatures keep verifying
+export const BTP_PROTOCOL_VERSION = '1.1.0';
 export const MIN_SUPPORTED_VERSION = '1.0.0';
-export const MAX_SUPPORTED_VERSION = '1.0.0';
+export const MAX_SUPPORTED_VERSION = '1.1.0';
+// Every protocol release this implementation speaks, newest last
+export const SUPPORTED_PROTOCOL_VERSIONS = ['1.0.0', '1.1.0'] as const;
 export const BTPS_DNS_HOST_NAME_SPACE = '_btps.host';
 export const BTPS_DNS_IDENTITY_NAME_SPACE = '_btps.identity';
@@ -5,4 +5,4 @@
  * https://www.apache.org/licenses/LICENSE-2.0
  */
 
-export const CONTROL_ACTIONS = ['QUIT', 'PING'] as const;
+export const CONTROL_ACTIONS = ['QUIT', 'PING', 'CAPABILITIES'] as const;
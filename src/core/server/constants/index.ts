@@ -26,6 +26,7 @@ export const AGENT_ACTIONS = [
   ...TRUST_IMMEDIATE_ACTIONS,
   ...INBOX_ACTIONS,
   ...OUTBOX_ACTIONS,
+  ...SENTBOX_ACTIONS,
   ...DRAFT_ACTIONS,
   ...SYSTEM_ACTIONS,
   ...AUTH_ACTIONS,
@@ -33,6 +34,15 @@ export const AGENT_ACTIONS = [
   ...TRASH_ACTIONS,
 ] as const;
 
+/* actions served by a mailbox store, see BtpsServerOptions.mailbox */
+export const MAILBOX_ACTIONS = [
+  ...INBOX_ACTIONS,
+  ...OUTBOX_ACTIONS,
+  ...SENTBOX_ACTIONS,
+  ...DRAFT_ACTIONS,
+  ...TRASH_ACTIONS,
+] as const;
+
 export const TRANSPORTER_ACTIONS = ['TRUST_REQ', 'TRUST_RES', 'BTPS_DOC'] as const;
 
 export const IMMEDIATE_ACTIONS = [
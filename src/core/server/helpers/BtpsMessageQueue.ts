@@ -6,10 +6,36 @@
  */
 
 import { BTPArtifact } from '@core/server/types.js';
+import {
+  isBtpsControlArtifact,
+  isBtpsIdentityRequest,
+  isBtpsTransportArtifact,
+} from '@core/utils/index.js';
+import type { BTPSQueueAddOptions, BTPSQueueEntry, BTPSQueueReschedule } from './types.js';
 
+/**
+ * Adapter contract for queues holding artifacts until they are delivered.
+ * Entries carry their attempt count and the time they are next due, so a scheduler
+ * can pick up where it left off after a restart when the adapter is durable.
+ */
 export abstract class BTPSMessageQueue {
-  abstract add(message: BTPArtifact): Promise<void>;
-  abstract getPending(): Promise<BTPArtifact[]>;
+  abstract add(message: BTPArtifact, options?: BTPSQueueAddOptions): Promise<void>;
+  abstract getPending(identity?: string): Promise<BTPArtifact[]>;
+  abstract getDue(now?: number): Promise<BTPSQueueEntry[]>;
+  abstract reschedule(id: string, update: BTPSQueueReschedule): Promise<void>;
   abstract on(event: 'message', handler: (msg: BTPArtifact) => void): void;
   abstract markHandled(id: string): Promise<void>;
+
+  /**
+   * Resolves the identity a message is queued under when none is given
+   */
+  protected getQueueKey(message: BTPArtifact): string {
+    return isBtpsTransportArtifact(message)
+      ? message.to
+      : isBtpsIdentityRequest(message)
+        ? message.from
+        : !isBtpsControlArtifact(message) && 'agentId' in message
+          ? message.agentId
+          : 'unknown-control-request';
+  }
 }
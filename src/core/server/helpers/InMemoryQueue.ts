@@ -8,46 +8,69 @@
 import { BTPArtifact } from '@core/server/types.js';
 import { BTPSMessageQueue } from './BtpsMessageQueue.js';
 import { EventEmitter } from 'events';
-import {
-  isBtpsControlArtifact,
-  isBtpsIdentityRequest,
-  isBtpsTransportArtifact,
-} from '@core/utils/index.js';
+import type { BTPSQueueAddOptions, BTPSQueueEntry, BTPSQueueReschedule } from './types.js';
 
 type UserScopedQueue = {
-  [identity: string]: BTPArtifact[];
+  [identity: string]: BTPSQueueEntry[];
 };
 
 export class InMemoryQueue extends BTPSMessageQueue {
-  private queues: UserScopedQueue = {};
+  protected queues: UserScopedQueue = {};
   private emitter = new EventEmitter();
 
-  async add(message: BTPArtifact): Promise<void> {
-    const key = isBtpsTransportArtifact(message)
-      ? message.to
-      : isBtpsIdentityRequest(message)
-        ? message.from
-        : !isBtpsControlArtifact(message) && 'agentId' in message
-          ? message.agentId
-          : 'unknown-control-request';
+  async add(message: BTPArtifact, options: BTPSQueueAddOptions = {}): Promise<void> {
+    const key = options.to ?? this.getQueueKey(message);
+    const now = new Date().toISOString();
+    const entry: BTPSQueueEntry = {
+      id: message.id,
+      to: key,
+      artifact: message,
+      attempts: options.attempts ?? 0,
+      enqueuedAt: now,
+      nextAttemptAt: options.nextAttemptAt ?? now,
+      ...(options.lastError ? { lastError: options.lastError } : {}),
+      ...(options.agentArtifactId ? { agentArtifactId: options.agentArtifactId } : {}),
+    };
 
+    /* adding the same artifact again replaces its entry */
+    this.removeEntry(message.id);
     if (!this.queues[key]) this.queues[key] = [];
-    this.queues[key].push(message);
+    this.queues[key].push(entry);
     this.emitter.emit('message', message);
   }
 
   async getPending(identity?: string): Promise<BTPArtifact[]> {
-    if (identity) return [...(this.queues[identity] || [])];
-    return Object.values(this.queues).flat();
+    const entries = identity ? this.queues[identity] || [] : Object.values(this.queues).flat();
+    return entries.map((entry) => entry.artifact);
   }
 
-  async markHandled(id: string): Promise<void> {
+  async getDue(now: number = Date.now()): Promise<BTPSQueueEntry[]> {
+    return Object.values(this.queues)
+      .flat()
+      .filter((entry) => Date.parse(entry.nextAttemptAt) <= now)
+      .sort((a, b) => Date.parse(a.nextAttemptAt) - Date.parse(b.nextAttemptAt))
+      .map((entry) => ({ ...entry }));
+  }
+
+  async reschedule(id: string, update: BTPSQueueReschedule): Promise<void> {
     for (const key in this.queues) {
-      this.queues[key] = this.queues[key].filter((msg) => msg.id !== id);
+      const entry = this.queues[key].find((e) => e.id === id);
+      if (entry) Object.assign(entry, update);
     }
   }
 
+  async markHandled(id: string): Promise<void> {
+    this.removeEntry(id);
+  }
+
   on(event: 'message', handler: (msg: BTPArtifact) => void): void {
     this.emitter.on(event, handler);
   }
+
+  private removeEntry(id: string): void {
+    for (const key in this.queues) {
+      this.queues[key] = this.queues[key].filter((entry) => entry.id !== id);
+      if (!this.queues[key].length) delete this.queues[key];
+    }
+  }
 }
@@ -0,0 +1,111 @@
+/**
+ * @license
+ * Copyright (c) 2025 Bhupendra Tamang
+ * Licensed under the Apache License, Version 2.0
+ * https://www.apache.org/licenses/LICENSE-2.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { JsonFileQueue } from './JsonFileQueue.js';
+import { BTPErrorException } from '@core/error/index.js';
+import type { BTPTransporterArtifact } from '@core/server/types.js';
+
+const buildArtifact = (id: string, to = 'alice$example.com'): BTPTransporterArtifact =>
+  ({
+    id,
+    type: 'BTPS_DOC',
+    to,
+    from: 'bob$example.com',
+    version: '1.0.0',
+    issuedAt: new Date().toISOString(),
+    document: { title: 'Invoice' },
+    encryption: null,
+    selector: 'btps1',
+    signature: { algorithmHash: 'sha256', value: 'sig', fingerprint: 'fp' },
+  }) as unknown as BTPTransporterArtifact;
+
+describe('JsonFileQueue', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'btps-queue-'));
+    filePath = path.join(dir, 'nested', 'queue.json');
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should persist queued artifacts and reload them in a new instance', async () => {
+    const queue = new JsonFileQueue(filePath);
+    await queue.add(buildArtifact('a1'));
+    await queue.add(buildArtifact('a2', 'carol$example.com'));
+
+    const restored = new JsonFileQueue(filePath);
+    expect((await restored.getPending()).map((a) => a.id)).toEqual(['a1', 'a2']);
+    expect((await restored.getPending('carol$example.com')).map((a) => a.id)).toEqual(['a2']);
+  });
+
+  it('should only return entries that are due, oldest first', async () => {
+    const queue = new JsonFileQueue(filePath);
+    const now = Date.now();
+    await queue.add(buildArtifact('later'), {
+      nextAttemptAt: new Date(now + 60_000).toISOString(),
+    });
+    await queue.add(buildArtifact('due'), { nextAttemptAt: new Date(now - 1_000).toISOString() });
+    await queue.add(buildArtifact('first'), { nextAttemptAt: new Date(now - 5_000).toISOString() });
+
+    const due = await queue.getDue(now);
+    expect(due.map((entry) => entry.id)).toEqual(['first', 'due']);
+    expect(due[0]).toMatchObject({ to: 'alice$example.com', attempts: 0 });
+  });
+
+  it('should persist reschedules and removals', async () => {
+    const queue = new JsonFileQueue(filePath);
+    await queue.add(buildArtifact('a1'));
+    await queue.add(buildArtifact('a2'));
+
+    const nextAttemptAt = new Date(Date.now() + 60_000).toISOString();
+    await queue.reschedule('a1', { attempts: 2, nextAttemptAt, lastError: 'ECONNREFUSED' });
+    await queue.markHandled('a2');
+
+    const restored = new JsonFileQueue(filePath);
+    expect(await restored.getDue()).toEqual([]);
+    const [entry] = await restored.getDue(Date.parse(nextAttemptAt));
+    expect(entry).toMatchObject({
+      id: 'a1',
+      attempts: 2,
+      nextAttemptAt,
+      lastError: 'ECONNREFUSED',
+    });
+  });
+
+  it('should replace the entry when the same artifact is added again', async () => {
+    const queue = new JsonFileQueue(filePath);
+    await queue.add(buildArtifact('a1'));
+    await queue.add(buildArtifact('a1'), { attempts: 3 });
+
+    const due = await queue.getDue();
+    expect(due).toHaveLength(1);
+    expect(due[0].attempts).toBe(3);
+  });
+
+  it('should not leave a temp file behind after writing', async () => {
+    const queue = new JsonFileQueue(filePath);
+    await queue.add(buildArtifact('a1'));
+
+    expect(await fs.readdir(path.dirname(filePath))).toEqual(['queue.json']);
+  });
+
+  it('should throw instead of dropping entries when the file is corrupt', async () => {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, '{not json', 'utf8');
+
+    const queue = new JsonFileQueue(filePath);
+    await expect(queue.getPending()).rejects.toBeInstanceOf(BTPErrorException);
+  });
+});
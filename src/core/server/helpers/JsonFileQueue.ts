@@ -0,0 +1,114 @@
+/**
+ * @license
+ * Copyright (c) 2025 Bhupendra Tamang
+ * Licensed under the Apache License, Version 2.0
+ * https://www.apache.org/licenses/LICENSE-2.0
+ */
+
+import fs from 'fs/promises';
+import { existsSync } from 'fs';
+import path from 'path';
+import { BTPArtifact } from '@core/server/types.js';
+import { BTPErrorException } from '@core/error/index.js';
+import { InMemoryQueue } from './InMemoryQueue.js';
+import type { BTPSQueueAddOptions, BTPSQueueEntry, BTPSQueueReschedule } from './types.js';
+
+/**
+ * File backed queue for self-hosted environments.
+ * Keeps entries in memory for fast lookup and rewrites the JSON file atomically after every
+ * change, so queued artifacts survive a crash or restart of the process.
+ */
+export class JsonFileQueue extends InMemoryQueue {
+  private readonly filePath: string;
+  private loading?: Promise<void>;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string) {
+    super();
+    if (typeof filePath !== 'string' || !filePath) {
+      throw new BTPErrorException({
+        code: 'INVALID_CONFIG',
+        message: 'JsonFileQueue expects a file path',
+      });
+    }
+    this.filePath = filePath;
+  }
+
+  async add(message: BTPArtifact, options?: BTPSQueueAddOptions): Promise<void> {
+    await this.load();
+    await super.add(message, options);
+    await this.persist();
+  }
+
+  async getPending(identity?: string): Promise<BTPArtifact[]> {
+    await this.load();
+    return super.getPending(identity);
+  }
+
+  async getDue(now?: number): Promise<BTPSQueueEntry[]> {
+    await this.load();
+    return super.getDue(now);
+  }
+
+  async reschedule(id: string, update: BTPSQueueReschedule): Promise<void> {
+    await this.load();
+    await super.reschedule(id, update);
+    await this.persist();
+  }
+
+  async markHandled(id: string): Promise<void> {
+    await this.load();
+    await super.markHandled(id);
+    await this.persist();
+  }
+
+  /**
+   * Reads the entries from disk once, a missing file is an empty queue
+   */
+  protected load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.readFromFile().catch((error) => {
+        this.loading = undefined;
+        throw error;
+      });
+    }
+    return this.loading;
+  }
+
+  private async readFromFile(): Promise<void> {
+    if (!existsSync(this.filePath)) return;
+
+    let entries: BTPSQueueEntry[];
+    try {
+      const raw = JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+      entries = Array.isArray(raw?.entries) ? raw.entries : [];
+    } catch (error) {
+      throw new BTPErrorException(
+        { code: 'INVALID_CONFIG', message: `Queue file ${this.filePath} could not be read` },
+        { cause: error },
+      );
+    }
+
+    this.queues = {};
+    for (const entry of entries) {
+      if (!this.queues[entry.to]) this.queues[entry.to] = [];
+      this.queues[entry.to].push(entry);
+    }
+  }
+
+  /**
+   * Writes the entries to a temp file and renames it over the queue file.
+   * Writes are chained so a slow write never lands after a newer one.
+   */
+  private persist(): Promise<void> {
+    const contents = JSON.stringify({ entries: Object.values(this.queues).flat() }, null, 2);
+    const write = this.writing.then(async () => {
+      const tmpPath = this.filePath + '.tmp';
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.writeFile(tmpPath, contents, 'utf8');
+      await fs.rename(tmpPath, this.filePath); // Atomic replace
+    });
+    this.writing = write.catch(() => {});
+    return write;
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * @license
+ * Copyright (c) 2025 Bhupendra Tamang
+ * Licensed under the Apache License, Version 2.0
+ * https://www.apache.org/licenses/LICENSE-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createDeliveryFailureArtifact } from './deliveryFailure.js';
+import { BTPErrorException, BTP_ERROR_TRUST_BLOCKED } from '@core/error/index.js';
+import {
+  BtpDeliveryFailureArtifactSchema,
+  BtpQueryResultSchema,
+} from '@core/server/schemas/responseSchema.js';
+import type { BTPTransporterArtifact } from '@core/server/types.js';
+
+const artifact = {
+  id: 'invoice-123',
+  type: 'TRUST_REQ',
+  to: 'pay$client.com',
+  from: 'billing$vendorcorp.com',
+  version: '1.0.0',
+  issuedAt: new Date().toISOString(),
+  document: {
+    id: 'trust-doc-1',
+    name: 'Vendor Corp',
+    email: 'billing@vendorcorp.com',
+    reason: 'Invoices',
+    phone: '+1234567890',
+  },
+  encryption: null,
+  selector: 'btps1',
+  signature: { algorithmHash: 'sha256', value: 'sig', fingerprint: 'fp' },
+} as BTPTransporterArtifact;
+
+describe('createDeliveryFailureArtifact', () => {
+  it('should describe the failed artifact', () => {
+    const error = new BTPErrorException(BTP_ERROR_TRUST_BLOCKED);
+    const failure = createDeliveryFailureArtifact({
+      artifact,
+      error,
+      retryCount: 2,
+      agentArtifactId: 'agent-artifact-1',
+      failedAt: '2025-01-15T10:30:00.000Z',
+    });
+
+    expect(failure).toMatchObject({
+      type: 'BTP_DELIVERY_FAILURE',
+      issuedAt: '2025-01-15T10:30:00.000Z',
+      from: 'billing$vendorcorp.com',
+      to: 'pay$client.com',
+      document: {
+        reason: BTP_ERROR_TRUST_BLOCKED.message,
+        failedAt: '2025-01-15T10:30:00.000Z',
+        retryCount: 2,
+        document: artifact,
+        errorLog: error,
+        recipient: 'pay$client.com',
+        transportArtifactId: 'invoice-123',
+        agentArtifactId: 'agent-artifact-1',
+      },
+    });
+    expect(failure.id).not.toBe(failure.document.id);
+  });
+
+  it('should omit agentArtifactId and default retryCount to 0', () => {
+    const failure = createDeliveryFailureArtifact({
+      artifact,
+      error: new BTPErrorException({ message: 'rejected' }),
+    });
+
+    expect(failure.document.retryCount).toBe(0);
+    expect(failure.document).not.toHaveProperty('agentArtifactId');
+  });
+
+  it('should be a valid inbox.fetch result entry', () => {
+    const failure = createDeliveryFailureArtifact({
+      artifact,
+      error: new BTPErrorException(BTP_ERROR_TRUST_BLOCKED),
+    });
+    const serialized = JSON.parse(JSON.stringify(failure));
+
+    expect(BtpDeliveryFailureArtifactSchema.safeParse(serialized).success).toBe(true);
+    expect(BtpQueryResultSchema.safeParse({ results: [{ artifact: serialized }] }).success).toBe(
+      true,
+    );
+  });
+});
@@ -0,0 +1,47 @@
+/**
+ * @license
+ * Copyright (c) 2025 Bhupendra Tamang
+ * Licensed under the Apache License, Version 2.0
+ * https://www.apache.org/licenses/LICENSE-2.0
+ */
+
+import { randomUUID } from 'crypto';
+import type { BTPDeliveryFailureArtifact, BTPTransporterArtifact } from '@core/server/types.js';
+import type { BTPErrorException } from '@core/error/index.js';
+
+export type BTPDeliveryFailureParams = {
+  artifact: BTPTransporterArtifact; // the artifact that could not be delivered
+  error: BTPErrorException; // error of the last attempt
+  retryCount?: number; // attempts made after the first one
+  agentArtifactId?: string; // id of the agent artifact the transporter artifact was created for
+  failedAt?: string; // ISO string, defaults to now
+};
+
+/**
+ * Builds the bounce for an artifact that will not be delivered.
+ * The failure keeps the from/to of the failed artifact and is meant for the inbox of its sender.
+ */
+export const createDeliveryFailureArtifact = ({
+  artifact,
+  error,
+  retryCount = 0,
+  agentArtifactId,
+  failedAt = new Date().toISOString(),
+}: BTPDeliveryFailureParams): BTPDeliveryFailureArtifact => ({
+  id: randomUUID(),
+  issuedAt: failedAt,
+  type: 'BTP_DELIVERY_FAILURE',
+  from: artifact.from,
+  to: artifact.to,
+  document: {
+    id: randomUUID(),
+    reason: error.message,
+    failedAt,
+    retryCount,
+    document: artifact,
+    errorLog: error,
+    recipient: artifact.to,
+    transportArtifactId: artifact.id,
+    ...(agentArtifactId ? { agentArtifactId } : {}),
+  },
+});
@@ -7,3 +7,6 @@
 
 export * from './BtpsMessageQueue.js';
 export * from './InMemoryQueue.js';
+export * from './JsonFileQueue.js';
+export * from './deliveryFailure.js';
+export * from './types.js';
@@ -0,0 +1,31 @@
+/**
+ * @license
+ * Copyright (c) 2025 Bhupendra Tamang
+ * Licensed under the Apache License, Version 2.0
+ * https://www.apache.org/licenses/LICENSE-2.0
+ */
+
+import type { BTPArtifact } from '@core/server/types.js';
+
+export interface BTPSQueueEntry {
+  id: string; // id of the queued artifact
+  to: string; // identity the artifact is queued for
+  artifact: BTPArtifact;
+  attempts: number; // delivery attempts made so far
+  enqueuedAt: string; // ISO string
+  nextAttemptAt: string; // ISO string, the entry is due once this time has passed
+  lastError?: string; // message of the last failed delivery attempt
+  agentArtifactId?: string; // id of the agent artifact the queued artifact was created for
+}
+
+export interface BTPSQueueAddOptions {
+  to?: string; // defaults to the identity derived from the artifact
+  attempts?: number; // defaults to 0
+  nextAttemptAt?: string; // defaults to now
+  lastError?: string;
+  agentArtifactId?: string;
+}
+
+export type BTPSQueueReschedule = Pick<BTPSQueueEntry, 'attempts' | 'nextAttemptAt'> & {
+  lastError?: string;
+};
@@ -6,7 +6,7 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { BtpArtifactServerSchema } from './artifacts.js';
+import { BtpArtifactServerSchema, getBtpArtifactServerSchema } from './artifacts.js';
 
 describe('BtpArtifactServerSchema', () => {
   it('should validate a valid control artifact', () => {
@@ -104,3 +104,47 @@ describe('BtpArtifactServerSchema', () => {
     expect(result.success).toBe(false);
   });
 });
+
+describe('getBtpArtifactServerSchema', () => {
+  const transporter = {
+    version: '1.1.0',
+    id: 'test-id-123',
+    issuedAt: '2024-01-01T00:00:00.000Z',
+    type: 'TRUST_REQ',
+    from: 'alice$example.com',
+    to: 'bob$example.com',
+    document: {
+      id: 'trust-req-1',
+      name: 'Alice',
+      email: 'alice@example.com',
+      reason: 'Business partnership',
+      phone: '+1234567890',
+    },
+    selector: 'btps1',
+    encryption: null,
+    signature: {
+      algorithmHash: 'sha256',
+      value: 'test-signature',
+      fingerprint: 'test-fingerprint',
+      canonicalization: 'jcs',
+    },
+  };
+
+  it('selects the schema by major.minor version', () => {
+    expect(getBtpArtifactServerSchema('1.1.4')?.safeParse(transporter).success).toBe(true);
+    expect(getBtpArtifactServerSchema('2.0.0')).toBeUndefined();
+    expect(getBtpArtifactServerSchema('invalid')).toBeUndefined();
+  });
+
+  it('rejects canonical JSON signatures on 1.0 artifacts', () => {
+    const schema = getBtpArtifactServerSchema('1.0.0')!;
+    expect(schema.safeParse({ ...transporter, version: '1.0.0' }).success).toBe(false);
+    expect(
+      schema.safeParse({
+        ...transporter,
+        version: '1.0.0',
+        signature: { ...transporter.signature, canonicalization: 'none' },
+      }).success,
+    ).toBe(true);
+  });
+});
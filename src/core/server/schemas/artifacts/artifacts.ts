@@ -10,6 +10,7 @@ import { BtpAgentArtifactSchema } from './agentSchema.js';
 import { BtpTransporterArtifactSchema } from './transporterSchema.js';
 import { BtpControlArtifactSchema } from './controlSchema.js';
 import { BtpIdentityLookupRequestSchema } from './identityLookupSchema.js';
+import { parseVersion } from '@core/utils/version.js';
 
 // Union schema that can validate agent, transporter, control, or identity lookup artifacts
 export const BtpArtifactServerSchema = z.union([
@@ -18,3 +19,33 @@ export const BtpArtifactServerSchema = z.union([
   BtpControlArtifactSchema,
   BtpIdentityLookupRequestSchema,
 ]);
+
+// 1.0 predates canonical JSON signatures, a 1.0 artifact can not claim one
+const BtpArtifactServerSchemaV1_0 = BtpArtifactServerSchema.superRefine((artifact, ctx) => {
+  if ('signature' in artifact && artifact.signature?.canonicalization === 'jcs') {
+    ctx.addIssue({
+      path: ['signature', 'canonicalization'],
+      code: z.ZodIssueCode.custom,
+      message: 'jcs canonicalization requires protocol version 1.1.0 or later',
+    });
+  }
+});
+
+// Artifact schemas keyed by major.minor protocol version
+export const BtpArtifactServerSchemas: Record<
+  string,
+  z.ZodType<z.infer<typeof BtpArtifactServerSchema>>
+> = {
+  '1.0': BtpArtifactServerSchemaV1_0,
+  '1.1': BtpArtifactServerSchema,
+};
+
+/**
+ * Returns the artifact schema for a protocol version, patch level is ignored
+ * @returns The schema or undefined when the version is unknown
+ */
+export const getBtpArtifactServerSchema = (version: unknown) => {
+  const parsed = parseVersion(version);
+  if (!parsed) return undefined;
+  return BtpArtifactServerSchemas[`${parsed[0]}.${parsed[1]}`];
+};
@@ -33,6 +33,19 @@ describe('BtpControlArtifactSchema', () => {
     expect(result.success).toBe(true);
   });
 
+  it('should validate a CAPABILITIES control artifact with a host selector', () => {
+    const validControl = {
+      version: '1.1.0',
+      id: 'test-id-789',
+      issuedAt: '2024-01-01T00:00:00.000Z',
+      action: 'CAPABILITIES',
+      hostSelector: 'btps1',
+    };
+
+    const result = BtpControlArtifactSchema.safeParse(validControl);
+    expect(result.success).toBe(true);
+  });
+
   it('should fail validation for invalid action', () => {
     const invalidControl = {
       version: '1.0.0',
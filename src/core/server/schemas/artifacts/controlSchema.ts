@@ -14,4 +14,5 @@ export const BtpControlArtifactSchema = z.object({
   id: z.string(),
   issuedAt: z.string().datetime(),
   action: z.enum(CONTROL_ACTIONS),
+  hostSelector: z.string().optional(),
 });
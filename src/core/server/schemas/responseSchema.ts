@@ -8,14 +8,16 @@
 import { z } from 'zod';
 import { BtpSignatureSchema, BtpEncryptionSchema } from './schema.js';
 import { identitySchema } from './shared.js';
-import { BtpAuthResDocSchema } from './btpsDocsSchema.js';
+import { BtpAuthResDocSchema, BtpDocSchema } from './btpsDocsSchema.js';
 import { BtpTransporterArtifactSchema } from './artifacts/transporterSchema.js';
+import { AGENT_ACTIONS, TRANSPORTER_ACTIONS } from '../constants/index.js';
 
 // Schema for BTPStatus
 export const BtpStatusSchema = z.object({
   ok: z.boolean(),
   code: z.number(),
   message: z.string().optional(),
+  errorCode: z.string().optional(),
 });
 
 // Schema for BTPDeliveryFailureDoc
@@ -41,9 +43,23 @@ export const BtpDeliveryFailureArtifactSchema = z.object({
   to: identitySchema,
 });
 
+// Schema for BTPDraftArtifact
+export const BtpDraftArtifactSchema = z.object({
+  id: z.string(),
+  issuedAt: z.string().datetime(),
+  updatedAt: z.string().datetime().optional(),
+  type: z.enum(TRANSPORTER_ACTIONS),
+  document: BtpDocSchema,
+  from: identitySchema,
+});
+
 // Schema for BTPQueryResultEntry
 export const BtpQueryResultEntrySchema = z.object({
-  artifact: z.union([BtpTransporterArtifactSchema, BtpDeliveryFailureArtifactSchema]),
+  artifact: z.union([
+    BtpTransporterArtifactSchema,
+    BtpDeliveryFailureArtifactSchema,
+    BtpDraftArtifactSchema,
+  ]),
   meta: z
     .object({
       seen: z.boolean().optional(),
@@ -61,8 +77,57 @@ export const BtpQueryResultSchema = z.object({
   hasNext: z.boolean().optional(),
 });
 
+// Schema for BTPVersionNegotiationDoc
+export const BtpVersionNegotiationDocSchema = z.object({
+  minVersion: z.string(),
+  maxVersion: z.string(),
+  supportedVersions: z.array(z.string()).min(1),
+});
+
+// Schema for BTPPongDoc
+export const BtpPongDocSchema = z.object({
+  pingIssuedAt: z.string().datetime(),
+  receivedAt: z.string().datetime(),
+  latencyMs: z.number(),
+});
+
+// Schema for BTPCapabilitiesDoc
+export const BtpCapabilitiesDocSchema = BtpVersionNegotiationDocSchema.extend({
+  agentActions: z.array(z.enum(AGENT_ACTIONS)),
+  artifactTypes: z.array(z.enum(TRANSPORTER_ACTIONS)),
+  crypto: z.object({
+    signatureAlgorithms: z.array(z.enum(['rsa-sha256', 'ed25519', 'ecdsa-p256-sha256'])),
+    signatureCanonicalizations: z.array(z.enum(['none', 'jcs'])),
+    encryptionAlgorithms: z.array(
+      z.enum(['aes-256-gcm', 'x25519-chacha20-poly1305', 'x25519-aes-256-gcm']),
+    ),
+    encryptionModes: z.array(z.enum(['none', 'standardEncrypt', '2faEncrypt'])),
+  }),
+  limits: z.object({
+    connectionTimeoutMs: z.number(),
+    maxArtifactBytes: z.number(),
+    headerTimeoutMs: z.number(),
+    heartbeatIntervalMs: z.number().optional(),
+  }),
+});
+
+// Schema for BTPIdentityResDoc
+export const BtpIdentityResDocSchema = z.object({
+  selector: z.string(),
+  publicKey: z.string(),
+  keyType: z.enum(['rsa', 'ed25519', 'ecdsa-p256', 'x25519']),
+  version: z.string(),
+});
+
 // Schema for BTPServerResDocs (union of possible response documents)
-export const BtpServerResDocsSchema = z.union([BtpAuthResDocSchema, BtpQueryResultSchema]);
+export const BtpServerResDocsSchema = z.union([
+  BtpAuthResDocSchema,
+  BtpQueryResultSchema,
+  BtpCapabilitiesDocSchema, // before the version negotiation doc it extends
+  BtpVersionNegotiationDocSchema,
+  BtpPongDocSchema,
+  BtpIdentityResDocSchema,
+]);
 
 // Schema for BTPServerResponse
 export const BtpServerResponseSchema = z
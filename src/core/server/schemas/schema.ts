@@ -19,8 +19,16 @@ export const BtpCryptoOptionsSchema = z.object({
     .optional(),
   encryption: z
     .object({
-      algorithm: z.literal('aes-256-gcm'),
+      algorithm: z.enum(['aes-256-gcm', 'x25519-chacha20-poly1305', 'x25519-aes-256-gcm']),
       mode: z.enum(['none', 'standardEncrypt', '2faEncrypt']),
+      secondFactor: z.string().min(1).optional(),
+      kdf: z
+        .object({
+          N: z.number().int().positive().optional(),
+          r: z.number().int().positive().optional(),
+          p: z.number().int().positive().optional(),
+        })
+        .optional(),
     })
     .optional(),
 });
@@ -28,18 +36,50 @@ export const BtpCryptoOptionsSchema = z.object({
 // Schema for validating individual parameters
 export const BtpsAgentActionTypeSchema = z.enum(AGENT_ACTIONS);
 
-export const BtpEncryptionSchema = z.object({
-  algorithm: z.literal('aes-256-gcm'),
-  encryptedKey: z.string(),
+const BtpEncryptionBaseSchema = z.object({
   iv: z.string(),
   type: z.enum(['none', 'standardEncrypt', '2faEncrypt']),
   authTag: z.string(),
+  kdf: z
+    .object({
+      algorithm: z.literal('scrypt'),
+      salt: z.string(),
+      N: z.number().int().positive(),
+      r: z.number().int().positive(),
+      p: z.number().int().positive(),
+    })
+    .optional(),
 });
 
+// Strict branches, an envelope carries exactly one way of recovering the content key
+export const BtpEncryptionSchema = z
+  .union([
+    BtpEncryptionBaseSchema.extend({
+      algorithm: z.literal('aes-256-gcm'),
+      encryptedKey: z.string(),
+    }).strict(),
+    BtpEncryptionBaseSchema.extend({
+      algorithm: z.enum(['x25519-chacha20-poly1305', 'x25519-aes-256-gcm']),
+      ephemeralPublicKey: z.string(),
+    }).strict(),
+    BtpEncryptionBaseSchema.extend({
+      algorithm: z.enum(['aes-256-gcm', 'x25519-chacha20-poly1305', 'x25519-aes-256-gcm']),
+      recipients: z
+        .record(z.string(), z.string())
+        .refine((recipients) => Object.keys(recipients).length > 0, 'At least one recipient'),
+    }).strict(),
+  ])
+  .refine((encryption) => encryption.type !== '2faEncrypt' || !!encryption.kdf, {
+    message: 'kdf is required for 2faEncrypt',
+    path: ['kdf'],
+  });
+
 export const BtpSignatureSchema = z.object({
   algorithmHash: z.literal('sha256'),
   value: z.string(),
   fingerprint: z.string(),
+  algorithm: z.enum(['rsa-sha256', 'ed25519', 'ecdsa-p256-sha256']).optional(),
+  canonicalization: z.enum(['none', 'jcs']).optional(),
 });
 
 // Schema for BTPDelegation
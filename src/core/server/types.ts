@@ -5,12 +5,20 @@
  * https://www.apache.org/licenses/LICENSE-2.0
  */
 
-import { BTPSignature, BTPEncryption } from '@core/crypto/types.js';
+import {
+  BTPSignature,
+  BTPEncryption,
+  EncryptionAlgorithmType,
+  EncryptionMode,
+  SignatureAlgorithm,
+  SignatureCanonicalization,
+} from '@core/crypto/types.js';
 import { BTPTrustReqDoc, BTPTrustResDoc } from '@core/trust/types.js';
 import { BTPInvoiceDoc } from '../../server/types.js';
 import {
   AGENT_ACTIONS,
   AGENT_ACTIONS_REQUIRING_DOCUMENT,
+  MAILBOX_ACTIONS,
   TRANSPORTER_ACTIONS,
 } from './constants/index.js';
 import { CURRENCY_CODES } from './constants/currency.js';
@@ -21,6 +29,7 @@ export type BTPArtifactType = (typeof TRANSPORTER_ACTIONS)[number];
 export type CurrencyCode = (typeof CURRENCY_CODES)[number];
 export type AgentAction = (typeof AGENT_ACTIONS)[number];
 export type AgentActionRequiringDocument = (typeof AGENT_ACTIONS_REQUIRING_DOCUMENT)[number];
+export type MailboxAction = (typeof MAILBOX_ACTIONS)[number];
 
 export type BTPDocType = BTPInvoiceDoc | BTPTrustReqDoc | BTPTrustResDoc;
 
@@ -60,7 +69,7 @@ export interface BTPStringQueryFilter {
   in?: string[];
   eq?: string;
   ne?: string;
-  notIn?: [string];
+  notIn?: string[];
   notLike?: string;
 }
 
@@ -103,7 +112,8 @@ export interface BTPGenericArtifact<T = string> {
 
 export interface BTPControlArtifact
   extends Omit<BTPGenericArtifact, 'document' | 'signature' | 'to'> {
-  action: 'QUIT' | 'PING';
+  action: 'QUIT' | 'PING' | 'CAPABILITIES';
+  hostSelector?: string; // server key selector from the host DNS record, required to sign CAPABILITIES
 }
 
 export interface BTPIdentityLookupRequest
@@ -128,6 +138,45 @@ export interface BTPAgentArtifact extends BTPGenericArtifact<BTPAgentDocument> {
   encryption: BTPEncryption | null;
 }
 
+/**
+ * Document carried by each agent action
+ */
+export interface BTPAgentActionDocMap {
+  'trust.request': BTPTransporterArtifact;
+  'trust.respond': BTPTransporterArtifact;
+  'trust.update': BTPAgentMutation;
+  'trust.delete': BTPIdsPayload;
+  'trust.fetch': BTPAgentQuery;
+  'inbox.fetch': BTPAgentQuery;
+  'inbox.delete': BTPIdsPayload;
+  'inbox.seen': BTPIdsPayload;
+  'outbox.fetch': BTPAgentQuery;
+  'outbox.cancel': BTPIdsPayload;
+  'sentbox.fetch': BTPAgentQuery;
+  'sentbox.delete': BTPIdsPayload;
+  'draft.fetch': BTPAgentQuery;
+  'draft.create': BTPAgentCreate;
+  'draft.update': BTPAgentMutation;
+  'draft.delete': BTPIdsPayload;
+  'system.ping': undefined;
+  'auth.request': BTPAuthReqDoc;
+  'auth.refresh': BTPAuthReqDoc;
+  'artifact.send': BTPTransporterArtifact;
+  'trash.fetch': BTPAgentQuery;
+  'trash.delete': BTPIdsPayload;
+}
+
+/**
+ * Agent artifact of a single action, typed with the document that action carries
+ * Encrypted documents still arrive as a ciphertext string, check `encryption` before use.
+ */
+export type BTPAgentActionArtifact<A extends AgentAction = AgentAction> = Omit<
+  BTPAgentArtifact,
+  'action' | 'document'
+> & { action: A } & (A extends AgentActionRequiringDocument
+    ? { document: BTPAgentActionDocMap[A] }
+    : { document?: BTPAgentActionDocMap[A] });
+
 export interface BTPTransporterArtifact extends BTPGenericArtifact<BTPDocType | string> {
   document: BTPDocType | string;
   type: BTPArtifactType;
@@ -147,9 +196,12 @@ export type BTPStatus = {
   ok: boolean;
   code: number; // 200 -> Sent OK | 404 --> Not Allowed | 403 --> Temporary Not Allowed | 500 --> Error
   message?: string;
+  errorCode?: string; // the BTP error code of a failed request, e.g. BTP_ERROR_REPLAY
 };
 
-export interface BTPQueryResultEntry<T = BTPTransporterArtifact | BTPDeliveryFailureArtifact> {
+export interface BTPQueryResultEntry<
+  T = BTPTransporterArtifact | BTPDeliveryFailureArtifact | BTPDraftArtifact,
+> {
   artifact: T;
   meta?: {
     seen?: boolean;
@@ -158,7 +210,9 @@ export interface BTPQueryResultEntry<T = BTPTransporterArtifact | BTPDeliveryFai
   };
 }
 
-export interface BTPQueryResult<T = BTPTransporterArtifact | BTPDeliveryFailureArtifact> {
+export interface BTPQueryResult<
+  T = BTPTransporterArtifact | BTPDeliveryFailureArtifact | BTPDraftArtifact,
+> {
   results: BTPQueryResultEntry<T>[];
   cursor?: string;
   total?: number;
@@ -186,9 +240,71 @@ export interface BTPDeliveryFailureArtifact {
   to: string;
 }
 
+/**
+ * Unsent artifact kept in the draft folder, created through draft.create
+ */
+export interface BTPDraftArtifact {
+  id: string; // Random Id
+  issuedAt: string; // ISO Format, time the draft was created
+  updatedAt?: string; // ISO Format
+  type: BTPArtifactType;
+  document: BTPDocType;
+  from: string; // identity owning the draft
+}
+
 export type BTPIdentityResDoc = Omit<IdentityPubKeyRecord, 'createdAt'>;
 
-export type BTPServerResDocs = BTPAuthResDoc | BTPQueryResult | BTPIdentityResDoc | string;
+/**
+ * Sent with BTP_ERROR_UNSUPPORTED_VERSION so clients can downgrade to a mutually supported version
+ */
+export type BTPVersionNegotiationDoc = {
+  minVersion: string;
+  maxVersion: string;
+  supportedVersions: string[];
+};
+
+/**
+ * Answer to a PING control artifact
+ */
+export type BTPPongDoc = {
+  pingIssuedAt: string; // issuedAt of the PING
+  receivedAt: string; // server time the PING was received
+  latencyMs: number; // one-way latency, only meaningful with synchronized clocks
+};
+
+/**
+ * Limits a server enforces on its connections
+ */
+export type BTPCapabilityLimits = {
+  connectionTimeoutMs: number; // idle time before the server closes a connection
+  maxArtifactBytes: number; // max size of a single artifact
+  headerTimeoutMs: number; // max time to receive a complete artifact
+  heartbeatIntervalMs?: number; // present when the server sends heartbeats
+};
+
+/**
+ * Answer to a CAPABILITIES control artifact
+ */
+export type BTPCapabilitiesDoc = BTPVersionNegotiationDoc & {
+  agentActions: AgentAction[]; // agent actions the server has handlers for
+  artifactTypes: BTPArtifactType[]; // accepted transporter artifact (document) types
+  crypto: {
+    signatureAlgorithms: SignatureAlgorithm[];
+    signatureCanonicalizations: SignatureCanonicalization[];
+    encryptionAlgorithms: EncryptionAlgorithmType[];
+    encryptionModes: EncryptionMode[];
+  };
+  limits: BTPCapabilityLimits;
+};
+
+export type BTPServerResDocs =
+  | BTPAuthResDoc
+  | BTPPongDoc
+  | BTPCapabilitiesDoc
+  | BTPQueryResult
+  | BTPIdentityResDoc
+  | BTPVersionNegotiationDoc
+  | string;
 
 export type BTPServerResponse<T = BTPServerResDocs> = {
   version: string;
@@ -0,0 +1,23 @@
+/**
+ * @license
+ * Copyright (c) 2025 Bhupendra Tamang
+ * Licensed under the Apache License, Version 2.0
+ * https://www.apache.org/licenses/LICENSE-2.0
+ */
+
+import { AbstractStorageStore } from '@core/storage/AbstractStorageStore.js';
+import type { BTPMailboxArtifact, BTPMailboxFolder, BTPMailboxRecord } from './types.js';
+import type { BTPAgentQuery, BTPQueryResult } from '@core/server/types.js';
+
+/**
+ * Records are keyed by computeMailboxId(identity, artifactId), an artifact lives in one folder of a mailbox
+ */
+export abstract class AbstractMailboxStore<
+  T extends BTPMailboxRecord,
+> extends AbstractStorageStore<T> {
+  abstract fetch(
+    identity: string,
+    folder: BTPMailboxFolder,
+    query?: BTPAgentQuery,
+  ): Promise<BTPQueryResult<BTPMailboxArtifact>>;
+}
@@ -0,0 +1,117 @@
+/**
+ * @license
+ * Copyright (c) 2025 Bhupendra Tamang
+ * Licensed under the Apache License, Version 2.0
+ * https://www.apache.org/licenses/LICENSE-2.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import { existsSync } from 'fs';
+import path from 'path';
+import { JsonMailboxStore } from './JsonMailboxStore.js';
+import { BTPErrorException } from '../error/index.js';
+import { computeMailboxId } from '../utils/index.js';
+import type { BTPTransporterArtifact } from '../server/types.js';
+import type { BTPMailboxFolder } from './types.js';
+
+const TEST_FILE = path.join(__dirname, 'test-mailbox-store.json');
+
+const identity = 'alice$example.com';
+
+const makeArtifact = (id: string, from: string, title: string): BTPTransporterArtifact =>
+  ({
+    version: '1.0.0',
+    id,
+    issuedAt: new Date().toISOString(),
+    type: 'BTPS_DOC',
+    from,
+    to: identity,
+    document: { title, id: `doc-${id}` },
+    signature: { algorithmHash: 'sha256', value: 'sig', fingerprint: 'fp' },
+    encryption: null,
+  }) as unknown as BTPTransporterArtifact;
+
+describe('JsonMailboxStore', () => {
+  let store: JsonMailboxStore;
+
+  const add = (
+    id: string,
+    createdAt: string,
+    { from = 'bob$example.com', title = 'Invoice', folder = 'inbox' as BTPMailboxFolder } = {},
+  ) =>
+    store.create({
+      identity,
+      folder,
+      artifactId: id,
+      artifact: makeArtifact(id, from, title),
+      createdAt,
+    });
+
+  beforeEach(async () => {
+    if (existsSync(TEST_FILE)) await fs.unlink(TEST_FILE);
+    store = new JsonMailboxStore({ connection: TEST_FILE, entityName: 'mailbox' });
+  });
+
+  afterEach(async () => {
+    await store.flushNow();
+    if (existsSync(TEST_FILE)) await fs.unlink(TEST_FILE);
+  });
+
+  it('stores artifacts under their mailbox id and rejects duplicates', async () => {
+    const record = await add('a1', '2025-01-01T00:00:00.000Z');
+
+    expect(record.id).toBe(computeMailboxId(identity, 'a1'));
+    expect(await store.getById(computeMailboxId('ALICE$example.com', 'a1'))).toEqual(record);
+    await expect(add('a1', '2025-01-02T00:00:00.000Z')).rejects.toThrow(BTPErrorException);
+  });
+
+  it('fetches a folder newest first with paging information', async () => {
+    await add('a1', '2025-01-01T00:00:00.000Z');
+    await add('a2', '2025-01-02T00:00:00.000Z');
+    await add('a3', '2025-01-03T00:00:00.000Z');
+    await add('d1', '2025-01-04T00:00:00.000Z', { folder: 'draft' });
+
+    const result = await store.fetch(identity, 'inbox', { limit: 2 });
+
+    expect(result.results.map(({ artifact }) => artifact.id)).toEqual(['a3', 'a2']);
+    expect(result.total).toBe(3);
+    expect(result.hasNext).toBe(true);
+
+    const next = await store.fetch(identity, 'inbox', { limit: 2, cursor: result.cursor });
+    expect(next.results.map(({ artifact }) => artifact.id)).toEqual(['a1']);
+    expect(next.hasNext).toBe(false);
+
+    const asc = await store.fetch(identity, 'inbox', {
+      sort: 'asc',
+      since: '2025-01-02T00:00:00.000Z',
+    });
+    expect(asc.results.map(({ artifact }) => artifact.id)).toEqual(['a2', 'a3']);
+    expect(asc.hasNext).toBe(false);
+  });
+
+  it('filters on title and sender', async () => {
+    await add('a1', '2025-01-01T00:00:00.000Z', { title: 'Invoice March' });
+    await add('a2', '2025-01-02T00:00:00.000Z', { title: 'Receipt', from: 'carol$example.com' });
+    await add('a3', '2025-01-03T00:00:00.000Z', {
+      title: 'invoice april',
+      from: 'carol$example.com',
+    });
+
+    const result = await store.fetch(identity, 'inbox', {
+      query: { title: { like: 'INVOICE' }, from: { eq: 'carol$example.com' } },
+    });
+
+    expect(result.results.map(({ artifact }) => artifact.id)).toEqual(['a3']);
+  });
+
+  it('persists records to disk', async () => {
+    await add('a1', '2025-01-01T00:00:00.000Z');
+    await store.flushNow();
+
+    const reloaded = new JsonMailboxStore({ connection: TEST_FILE, entityName: 'mailbox' });
+    const result = await reloaded.fetch(identity, 'inbox');
+
+    expect(result.results[0].artifact.id).toBe('a1');
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * @license
+ * Copyright (c) 2025 Bhupendra Tamang
+ * Licensed under the Apache License, Version 2.0
+ * https://www.apache.org/licenses/LICENSE-2.0
+ */
+
+import { BTPErrorException } from '@core/error/index.js';
+import { BtpsQueryEngine } from '@core/query/index.js';
+import type { BTPAgentQuery, BTPQueryResult } from '@core/server/types.js';
+import { computeMailboxId } from '@core/utils/index.js';
+import { JsonStorageStore } from './JsonStorageStore.js';
+import { AbstractMailboxStore } from './AbstractMailboxStore.js';
+import type {
+  BTPMailboxArtifact,
+  BTPMailboxFolder,
+  BTPMailboxRecord,
+  MailboxStoreOptions,
+} from './types.js';
+
+/**
+ * JSON-based MailboxStore for self-hosted environments.
+ * Keeps the inbox, outbox, sentbox, draft and trash folders of every identity in a single JSON file.
+ */
+export class JsonMailboxStore
+  extends JsonStorageStore<BTPMailboxRecord>
+  implements AbstractMailboxStore<BTPMailboxRecord>
+{
+  private readonly queryEngine: BtpsQueryEngine<BTPMailboxRecord, BTPMailboxArtifact>;
+
+  constructor(options: MailboxStoreOptions) {
+    super(options);
+    this.queryEngine = new BtpsQueryEngine({
+      fields: {
+        id: (record) => record.artifactId,
+        time: (record) => record.createdAt,
+        title: ({ artifact }) => {
+          const document = artifact.document as unknown;
+          return document && typeof document === 'object' && 'title' in document
+            ? String((document as { title: unknown }).title)
+            : undefined;
+        },
+        from: ({ artifact }) => artifact.from,
+        to: ({ artifact }) => ('to' in artifact ? artifact.to : undefined),
+      },
+      toEntry: ({ artifact, meta }) => ({ artifact, ...(meta ? { meta } : {}) }),
+      cursorSecret: options.cursorSecret,
+    });
+  }
+
+  /**
+   * Stores an artifact in a mailbox folder. Fails if the mailbox already holds the artifact.
+   */
+  async create(
+    record: Omit<BTPMailboxRecord, 'id'>,
+    computedId?: string,
+  ): Promise<BTPMailboxRecord> {
+    if ('id' in record) {
+      throw new BTPErrorException({
+        code: 'INVALID_CONFIG',
+        message: 'Record passed to create() must not include an id',
+      });
+    }
+
+    const id = computedId ?? computeMailboxId(record.identity, record.artifactId);
+    if (await this.getById(id)) {
+      throw new BTPErrorException({
+        code: 'INVALID_CONFIG',
+        message: `Artifact ${record.artifactId} already exists in the mailbox of ${record.identity}`,
+      });
+    }
+
+    const newRecord = { id, ...record };
+
+    this.recordMap.set(id, newRecord);
+    this.dirty = true;
+    this.writeDebounced();
+    return newRecord;
+  }
+
+  /**
+   * Returns a page of a mailbox folder, newest first unless sorted asc.
+   * since/until match the time the artifact was stored in the mailbox.
+   */
+  async fetch(
+    identity: string,
+    folder: BTPMailboxFolder,
+    query: BTPAgentQuery = {},
+  ): Promise<BTPQueryResult<BTPMailboxArtifact>> {
+    if (this.recordMap.size === 0) await this.init();
+    await this.reloadIfChanged();
+
+    const owner = identity.toLowerCase();
+    const records = ([...this.recordMap.values()] as BTPMailboxRecord[]).filter(
+      (record) => record.identity.toLowerCase() === owner && record.folder === folder,
+    );
+    return this.queryEngine.execute(records, query);
+  }
+}
@@ -7,6 +7,8 @@
 
 export { AbstractStorageStore } from './AbstractStorageStore.js';
 export { AbstractIdentityStore } from './AbstractIdentityStore.js';
+export { AbstractMailboxStore } from './AbstractMailboxStore.js';
 export { JsonStorageStore } from './JsonStorageStore.js';
 export { JsonIdentityStore } from './JsonIdentityStore.js';
+export { JsonMailboxStore } from './JsonMailboxStore.js';
 export * from './types.js';
@@ -5,6 +5,14 @@
  * https://www.apache.org/licenses/LICENSE-2.0
  */
 
+import type { BTPKeyType } from '@core/crypto/types.js';
+import type {
+  BTPDeliveryFailureArtifact,
+  BTPDraftArtifact,
+  BTPQueryResultEntry,
+  BTPTransporterArtifact,
+} from '@core/server/types.js';
+
 export interface BTPStorageRecord {
   id: string; // unique computed id of the storage record
   createdAt: string; // date and time of the storage record creation in ISO Format
@@ -21,12 +29,32 @@ export interface BTPIdentityRecord extends BTPStorageRecord {
 export type IdentityPubKeyRecord = {
   selector: string;
   publicKey: string;
-  keyType: 'rsa';
+  keyType: BTPKeyType;
   version: string;
   createdAt: string;
 };
 
+export type BTPMailboxFolder = 'inbox' | 'outbox' | 'sentbox' | 'draft' | 'trash';
+
+export type BTPMailboxArtifact =
+  | BTPTransporterArtifact
+  | BTPDeliveryFailureArtifact
+  | BTPDraftArtifact;
+
+export interface BTPMailboxRecord extends BTPStorageRecord {
+  identity: string; // identity owning the mailbox
+  folder: BTPMailboxFolder; // folder the artifact currently sits in
+  artifactId: string; // id of the stored artifact
+  artifact: BTPMailboxArtifact;
+  meta?: BTPQueryResultEntry['meta']; // seen state and other per mailbox flags
+  previousFolder?: BTPMailboxFolder; // folder the artifact was moved to trash from
+}
+
 export interface StorageStoreOptions {
   connection: unknown; // could be file path, MongoClient, Sequelize, etc.
   entityName?: string; // e.g. 'trustedSenders', 'trust_rejections'
 }
+
+export interface MailboxStoreOptions extends StorageStoreOptions {
+  cursorSecret?: string; // Signs fetch cursors, set it for cursors to outlive the store instance
+}
@@ -19,6 +19,7 @@ import {
   isDelegationAllowed,
 } from './index.js';
 import type { BTPTransporterArtifact } from '../server/types.js';
+import { getBTPKeyPair } from '../crypto/keygen.js';
 
 vi.mock('dns/promises', () => ({
   resolveTxt: vi.fn(),
@@ -151,6 +152,30 @@ describe('utils/index', () => {
     });
   });
 
+  describe('resolvePublicKey key type', () => {
+    const ed25519Keys = getBTPKeyPair({ keyType: 'ed25519' });
+    const ed25519Base64 = pemToBase64(ed25519Keys.publicKey);
+
+    it('should return the key when the DNS key type matches the published key', async () => {
+      mockDns.mockResolvedValue([[`v=1.0.0;k=ed25519;p=${ed25519Base64}`]]);
+      const pem = await resolvePublicKey('alice$example.com', 'btps1');
+      expect(pem).toBe(base64ToPem(ed25519Base64));
+    });
+
+    it('should not return the key when the DNS key type does not match', async () => {
+      mockDns.mockResolvedValue([[`v=1.0.0;k=rsa;p=${ed25519Base64}`]]);
+      expect(await resolvePublicKey('alice$example.com', 'btps1')).toBeUndefined();
+
+      mockDns.mockResolvedValue([[`v=1.0.0;p=${ed25519Base64}`]]);
+      expect(await resolvePublicKey('alice$example.com', 'btps1')).toBeUndefined();
+    });
+
+    it('should not return the key for unsupported key types', async () => {
+      mockDns.mockResolvedValue([[`v=1.0.0;k=dsa;p=${ed25519Base64}`]]);
+      expect(await resolvePublicKey('alice$example.com', 'btps1')).toBeUndefined();
+    });
+  });
+
   describe('Key Rotation Scenarios', () => {
     it('should resolve old selector when new selector is published but artifact uses old selector', async () => {
       // Simulate DNS records for key rotation scenario
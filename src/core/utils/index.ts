@@ -5,7 +5,6 @@
  * https://www.apache.org/licenses/LICENSE-2.0
  */
 
-import { resolveTxt } from 'dns/promises';
 import { ParsedIdentity } from './types.js';
 import {
   BTPControlArtifact,
@@ -19,8 +18,13 @@ import {
 } from '@core/server/constants/btps-protocol.js';
 import { createHash } from 'crypto';
 import { transformToBTPErrorException } from '@core/error/index.js';
+import { systemDnsResolver } from '@core/dns/index.js';
+import type { BtpsDnsResolver } from '@core/dns/types.js';
+import { getKeyType, isBTPKeyType } from '@core/crypto/keys.js';
+import type { BTPKeyType } from '@core/crypto/types.js';
 
 export * from './types.js';
+export * from './version.js';
 
 export const parseIdentity = (identity: string): ParsedIdentity | null => {
   const [accountName, domainName] = identity.split('$');
@@ -52,8 +56,22 @@ export function base64ToPem(base64: string): string {
   return ['-----BEGIN PUBLIC KEY-----', ...lines, '-----END PUBLIC KEY-----'].join('\n');
 }
 
+/**
+ * Parses `k=v;` pairs of a BTPS TXT record
+ * Only the first `=` separates key and value so base64 padding in values is preserved.
+ */
+const parseDnsTxtParts = (flat: string): Record<string, string> =>
+  Object.fromEntries(
+    flat
+      .split(';')
+      .map((s) => s.trim())
+      .filter((s) => s.indexOf('=') > 0)
+      .map((s) => [s.slice(0, s.indexOf('=')).trim(), s.slice(s.indexOf('=') + 1).trim()]),
+  );
+
 export const getHostAndSelector = async (
   identity: string,
+  dnsResolver: BtpsDnsResolver = systemDnsResolver,
 ): Promise<{ version: string; host: string; selector: string } | undefined> => {
   const parsedIdentity = parseIdentity(identity);
   if (!parsedIdentity) {
@@ -63,23 +81,13 @@ export const getHostAndSelector = async (
   const dnsName = `${BTPS_DNS_HOST_NAME_SPACE}.${parsedIdentity.domainName}`;
 
   try {
-    const txtRecords = await resolveTxt(dnsName);
+    const txtRecords = await dnsResolver.resolveTxt(dnsName);
     if (!txtRecords.length) {
       return undefined;
     }
 
     const flat = txtRecords.map((r) => r.join('')).join('');
-    const parts = Object.fromEntries(
-      flat
-        .split(';')
-        .map((s) =>
-          s
-            .trim()
-            .split('=')
-            .map((p) => p.trim()),
-        )
-        .filter((pair) => pair.length === 2),
-    );
+    const parts = parseDnsTxtParts(flat);
 
     if (!parts['v'] || !parts['u'] || !parts['s']) return undefined;
 
@@ -97,6 +105,7 @@ export const getDnsIdentityParts = async (
   identity: string,
   selector: string,
   type?: 'key' | 'pem' | 'version',
+  dnsResolver: BtpsDnsResolver = systemDnsResolver,
 ): Promise<{ key: string; version: string; pem: string } | string | undefined> => {
   const typeMap = {
     key: 'k',
@@ -114,24 +123,14 @@ export const getDnsIdentityParts = async (
   const dnsName = `${selector}.${BTPS_DNS_IDENTITY_NAME_SPACE}.${accountName}.${domainName}`;
 
   try {
-    const txtRecords = await resolveTxt(dnsName);
+    const txtRecords = await dnsResolver.resolveTxt(dnsName);
     if (!txtRecords.length) {
       return undefined;
     }
 
     const flat = txtRecords.map((r) => r.join('')).join('');
 
-    const parts = Object.fromEntries(
-      flat
-        .split(';')
-        .map((s) =>
-          s
-            .trim()
-            .split('=')
-            .map((p) => p.trim()),
-        )
-        .filter((pair) => pair.length === 2),
-    );
+    const parts = parseDnsTxtParts(flat);
 
     if (!type) {
       return {
@@ -161,11 +160,31 @@ export const getBtpAddressParts = (input: string): URL | null => {
   }
 };
 
+/**
+ * Resolves the public key PEM published for an identity selector
+ * The DNS `k=` key type (defaults to `rsa` when absent) must be supported and match the published key,
+ * otherwise the key is treated as not found.
+ */
 export const resolvePublicKey = async (
   identity: string,
   selector: string,
+  dnsResolver?: BtpsDnsResolver,
 ): Promise<string | undefined> => {
-  return (await getDnsIdentityParts(identity, selector, 'pem')) as string | undefined;
+  const parts = await getDnsIdentityParts(identity, selector, undefined, dnsResolver);
+  if (!parts || typeof parts !== 'object') return undefined;
+
+  const declaredKeyType = parts.key ?? 'rsa';
+  if (!isBTPKeyType(declaredKeyType)) return undefined;
+
+  let publishedKeyType: BTPKeyType | undefined;
+  try {
+    publishedKeyType = getKeyType(parts.pem);
+  } catch {
+    /* unparsable keys are rejected later by signature verification */
+    return parts.pem;
+  }
+
+  return publishedKeyType === declaredKeyType ? parts.pem : undefined;
 };
 
 /**
@@ -251,6 +270,18 @@ export function computeId(identity: string): string {
   return hash;
 }
 
+/**
+ * Computes the id of a mailbox record from the identity owning the mailbox and the artifact id
+ * @param identity - The identity owning the mailbox
+ * @param artifactId - The id of the stored artifact
+ * @returns 64-character hexadecimal SHA-256 hash of "identity:artifactId"
+ */
+export function computeMailboxId(identity: string, artifactId: string): string {
+  const input = `${identity.toLowerCase()}:${artifactId}`; // artifact ids stay case sensitive
+  const hash = createHash('sha256').update(input).digest('hex');
+  return hash;
+}
+
 /**
  * Checks if the artifact can be delegated
  * @param artifact - The artifact to check
@@ -0,0 +1,44 @@
+/**
+ * @license
+ * Copyright (c) 2025 Bhupendra Tamang
+ * Licensed under the Apache License, Version 2.0
+ * https://www.apache.org/licenses/LICENSE-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import { compareVersions, isVersionSupported, negotiateVersion, parseVersion } from './version.js';
+import { MAX_SUPPORTED_VERSION } from '../server/constants/index.js';
+
+describe('protocol versions', () => {
+  it('parses major.minor.patch versions only', () => {
+    expect(parseVersion('1.10.2')).toEqual([1, 10, 2]);
+    expect(parseVersion('1.0')).toBeUndefined();
+    expect(parseVersion('v1.0.0')).toBeUndefined();
+    expect(parseVersion(undefined)).toBeUndefined();
+  });
+
+  it('compares versions numerically', () => {
+    expect(compareVersions('1.10.0', '1.9.0')).toBeGreaterThan(0);
+    expect(compareVersions('1.0.0', '1.0.1')).toBeLessThan(0);
+    expect(compareVersions('1.0.0', '1.0.1', true)).toBe(0);
+    expect(compareVersions('1.0.0', 'invalid')).toBeNaN();
+  });
+
+  it('checks versions against the supported range ignoring the patch level', () => {
+    expect(isVersionSupported('1.0.0')).toBe(true);
+    expect(isVersionSupported(MAX_SUPPORTED_VERSION)).toBe(true);
+    expect(isVersionSupported('1.1.7')).toBe(true);
+    expect(isVersionSupported('0.9.0')).toBe(false);
+    expect(isVersionSupported('2.0.0')).toBe(false);
+    expect(isVersionSupported('latest')).toBe(false);
+    expect(isVersionSupported('2.0.0', { min: '1.0.0' })).toBe(true);
+  });
+
+  it('negotiates the highest mutually supported version', () => {
+    expect(negotiateVersion(['1.0.0'])).toBe('1.0.0');
+    expect(negotiateVersion(['1.0.0', '1.1.2', '2.0.0'])).toBe('1.1.0');
+    expect(negotiateVersion({ min: '1.0.0', max: '1.0.9' })).toBe('1.0.0');
+    expect(negotiateVersion({ min: '2.0.0' })).toBeUndefined();
+    expect(negotiateVersion(['3.1.2'], ['1.0.0', '3.1.0'])).toBe('3.1.0');
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * @license
+ * Copyright (c) 2025 Bhupendra Tamang
+ * Licensed under the Apache License, Version 2.0
+ * https://www.apache.org/licenses/LICENSE-2.0
+ */
+
+import {
+  MAX_SUPPORTED_VERSION,
+  MIN_SUPPORTED_VERSION,
+  SUPPORTED_PROTOCOL_VERSIONS,
+} from '@core/server/constants/btps-protocol.js';
+
+export type BTPVersionRange = {
+  min?: string;
+  max?: string;
+};
+
+type ParsedVersion = [major: number, minor: number, patch: number];
+
+/**
+ * Parses a `major.minor.patch` protocol version
+ * @returns The numeric parts or undefined when the version is not valid
+ */
+export const parseVersion = (version: unknown): ParsedVersion | undefined => {
+  if (typeof version !== 'string') return undefined;
+  const match = version.trim().match(/^(\d+)\.(\d+)\.(\d+)$/);
+  if (!match) return undefined;
+  return [Number(match[1]), Number(match[2]), Number(match[3])];
+};
+
+/**
+ * Compares two protocol versions
+ * Patch releases never change the wire format, so `ignorePatch` compares major.minor only.
+ * @returns negative if a < b, 0 if equal, positive if a > b and NaN if either is invalid
+ */
+export const compareVersions = (a: string, b: string, ignorePatch = false): number => {
+  const left = parseVersion(a);
+  const right = parseVersion(b);
+  if (!left || !right) return NaN;
+
+  const length = ignorePatch ? 2 : 3;
+  for (let i = 0; i < length; i++) {
+    if (left[i] !== right[i]) return left[i] - right[i];
+  }
+  return 0;
+};
+
+/**
+ * Checks whether a version falls inside a supported range, patch level is ignored
+ * @param range - Defaults to MIN_SUPPORTED_VERSION..MAX_SUPPORTED_VERSION
+ */
+export const isVersionSupported = (
+  version: unknown,
+  range: BTPVersionRange = { min: MIN_SUPPORTED_VERSION, max: MAX_SUPPORTED_VERSION },
+): boolean => {
+  if (!parseVersion(version)) return false;
+  const { min, max } = range;
+  if (min && !(compareVersions(version as string, min, true) >= 0)) return false;
+  if (max && !(compareVersions(version as string, max, true) <= 0)) return false;
+  return true;
+};
+
+/**
+ * Picks the highest local version the remote side also supports
+ * @param remote - The remote range or the explicit list of versions it supports
+ * @param local - The versions supported locally
+ * @returns The negotiated version or undefined when there is no overlap
+ */
+export const negotiateVersion = (
+  remote: BTPVersionRange | string[],
+  local: readonly string[] = SUPPORTED_PROTOCOL_VERSIONS,
+): string | undefined => {
+  const isMutual = (version: string) =>
+    Array.isArray(remote)
+      ? remote.some((remoteVersion) => compareVersions(remoteVersion, version, true) === 0)
+      : isVersionSupported(version, remote);
+
+  return [...local]
+    .filter((version) => parseVersion(version) && isMutual(version))
+    .sort((a, b) => compareVersions(a, b))
+    .pop();
+};
@@ -12,7 +12,7 @@ import {
   computeTrustId,
   validateTrustResponse,
 } from '@core/trust/index.js';
-import tls, { TlsOptions, TLSSocket } from 'tls';
+import tls, { SecureContext, TlsOptions, TLSSocket } from 'tls';
 import { EventEmitter } from 'events';
 import split2 from 'split2';
 
@@ -31,10 +31,21 @@ import {
   BTP_ERROR_IDENTITY_NOT_FOUND,
   BTP_ERROR_UNKNOWN,
   BTP_ERROR_INVALID_ACTION,
+  BTP_ERROR_REPLAY,
+  BTP_ERROR_UNSUPPORTED_VERSION,
+  BTP_ERROR_PAYLOAD_TOO_LARGE,
+  BTP_ERROR_UNSUPPORTED_ENCRYPT,
+  BTP_ERROR_TIMEOUT,
+  BTP_ERROR_MIDDLEWARE_FAILURE,
 } from '@core/error/constant.js';
 import {
+  ENCRYPTION_ALGORITHMS,
+  ENCRYPTION_MODES,
+  encryptBtpPayload,
   getFingerprintFromPem,
   PemKeys,
+  SIGNATURE_ALGORITHMS,
+  SIGNATURE_CANONICALIZATIONS,
   signBtpPayload,
   verifySignature,
 } from '@core/crypto/index.js';
@@ -48,37 +59,69 @@ import {
   isBtpsControlArtifact,
   isBtpsAgentArtifact,
   isValidIdentity,
+  isVersionSupported,
+  parseIdentity,
 } from '@core/utils/index.js';
 import { BTPError } from '@core/error/types.js';
 import type {
+  AgentAction,
   BTPAgentArtifact,
   BTPAttestation,
+  BTPCapabilitiesDoc,
   BTPAuthReqDoc,
   BTPControlArtifact,
   BTPDelegation,
   BTPIdentityLookupRequest,
+  BTPPongDoc,
   BTPServerResponse,
   BTPStatus,
   BTPTransporterArtifact,
+  BTPVersionNegotiationDoc,
 } from '@core/server/types.js';
 import { BTPErrorException, transformToBTPErrorException } from '@core/error/index.js';
-import { BTP_PROTOCOL_VERSION, IMMEDIATE_ACTIONS } from '../core/server/constants/index.js';
+import {
+  AGENT_ACTIONS,
+  MAILBOX_ACTIONS,
+  BTP_PROTOCOL_VERSION,
+  IMMEDIATE_ACTIONS,
+  MAX_SUPPORTED_VERSION,
+  MIN_SUPPORTED_VERSION,
+  SUPPORTED_PROTOCOL_VERSIONS,
+  TRANSPORTER_ACTIONS,
+} from '../core/server/constants/index.js';
 import type {
   BtpsServerOptions,
+  BtpsServerStopOptions,
+  BtpsTenantContext,
   BTPRequestCtx,
   BTPResponseCtx,
   MiddlewareContext,
   MiddlewareDefinition,
+  MiddlewareDefinitionArray,
+  MiddlewareModule,
+  MiddlewareReloadEvent,
+  MiddlewareExecution,
+  MiddlewareMetrics,
   ProcessedArtifact,
   ArtifactResCtx,
+  BTPConnectionStats,
   BTPContext,
   PreProcessedArtifact,
+  BtpsAgentActionHandler,
   BtpsErrorAction,
+  BtpsMailboxOptions,
 } from './types.js';
 import type { AbstractTrustStore } from '@core/trust/storage/AbstractTrustStore.js';
 import { validate } from '@core/utils/validation.js';
 import { MiddlewareManager } from './libs/middlewareManager.js';
-import { BtpArtifactServerSchema } from '@core/server/schemas/artifacts/artifacts.js';
+import { createAuthHandlers } from './libs/btpsAuthHandlers.js';
+import { createMailboxHandlers } from './libs/btpsMailboxHandlers.js';
+import type { ReplayStore } from './libs/abstractReplayStore.js';
+import type { IMetricsTracker } from './libs/type.js';
+import { BtpsMemoryReplayStore } from './libs/btpsMemoryReplayStore.js';
+import { getDefaultDnsResolver } from '@core/dns/index.js';
+import type { BtpsDnsResolver } from '@core/dns/types.js';
+import { getBtpArtifactServerSchema } from '@core/server/schemas/artifacts/artifacts.js';
 import { BtpServerResponseSchema } from '@core/server/schemas/responseSchema.js';
 import type { BTPIdentityRecord } from '@core/storage/types.js';
 import type { AbstractIdentityStore } from '@core/storage/AbstractIdentityStore.js';
@@ -95,6 +138,24 @@ export class BtpsServer {
   private readonly trustStore: AbstractTrustStore<BTPTrustRecord>;
   private readonly middlewareManager: MiddlewareManager;
   private readonly connectionTimeoutMs: number;
+  private readonly heartbeatIntervalMs: number;
+  private readonly maxArtifactBytes: number;
+  private readonly headerTimeoutMs: number;
+  private readonly actionTimeoutMs: number;
+  private readonly actionTimeouts: Partial<Record<AgentAction, number>>;
+  private readonly dnsResolver: BtpsDnsResolver;
+  private readonly replayClockSkewMs: number;
+  private readonly replayStore: ReplayStore;
+  private readonly signResponses: boolean;
+  private readonly metrics?: IMetricsTracker;
+  private readonly mailbox?: BtpsMailboxOptions;
+  /* handlers of the mailbox and authentication options, registered again after stop() */
+  private readonly builtInActionHandlers = new Map<AgentAction, BtpsAgentActionHandler>();
+  /* hosted domains, keyed by lowercase domain name */
+  private readonly tenants = new Map<
+    string,
+    BtpsTenantContext & { secureContext?: SecureContext }
+  >();
   private readonly dependencies: {
     trustStore: AbstractTrustStore<BTPTrustRecord>;
     identityStore?: AbstractIdentityStore<BTPIdentityRecord>;
@@ -104,6 +165,10 @@ export class BtpsServer {
   private server: tls.Server;
   private emitter = new EventEmitter();
   private handlerFn: ((data: ProcessedArtifact) => Promise<void>) | null = null;
+  /* open sockets, the number of artifacts each one is processing and the identity it addresses */
+  private connections = new Map<TLSSocket, { inFlight: number; to?: string }>();
+  private stopping?: Promise<void>;
+  private onDrained?: () => void;
 
   /**
    * Creates a new BtpsServer instance
@@ -117,21 +182,120 @@ export class BtpsServer {
     this.trustStore = options.trustStore;
     this.identityStore = options.identityStore;
     this.connectionTimeoutMs = options.connectionTimeoutMs ?? 30000;
-    this.middlewareManager = new MiddlewareManager(options.middlewarePath);
+    this.heartbeatIntervalMs = options.heartbeatIntervalMs ?? 0;
+    this.maxArtifactBytes = options.maxArtifactBytes ?? 5 * 1024 * 1024;
+    this.headerTimeoutMs = options.headerTimeoutMs ?? 10000;
+    this.actionTimeoutMs = options.actionTimeoutMs ?? 10000;
+    this.actionTimeouts = options.actionTimeouts ?? {};
+    this.dnsResolver = options.dnsResolver ?? getDefaultDnsResolver();
+    this.replayClockSkewMs = options.replayProtection?.clockSkewMs ?? 5 * 60 * 1000;
+    this.replayStore = options.replayProtection?.store ?? new BtpsMemoryReplayStore();
+    this.signResponses = options.signResponses ?? false;
+    this.metrics = options.metrics;
+    this.mailbox = options.mailbox;
+    this.middlewareManager = new MiddlewareManager(options.middlewarePath, {
+      watch: options.watchMiddleware,
+    });
     this.dependencies = {
       trustStore: this.trustStore,
       identityStore: this.identityStore,
     };
 
-    // TLS server creation with certs
+    for (const [domain, tenant] of Object.entries(options.tenants ?? {})) {
+      this.tenants.set(domain.toLowerCase(), {
+        serverIdentity: tenant.serverIdentity,
+        trustStore: tenant.trustStore ?? this.trustStore,
+        identityStore: tenant.identityStore ?? this.identityStore,
+        secureContext: tenant.tlsOptions ? tls.createSecureContext(tenant.tlsOptions) : undefined,
+      });
+    }
+
+    if (this.signResponses) {
+      const unsigned = [
+        this.serverIdentity,
+        ...[...this.tenants.values()].map((t) => t.serverIdentity),
+      ]
+        .filter(({ selector }) => !selector)
+        .map(({ identity }) => identity);
+      if (unsigned.length) {
+        throw new BTPErrorException(BTP_ERROR_VALIDATION, {
+          cause: `signResponses requires a selector for server identities: ${unsigned.join(', ')}`,
+        });
+      }
+    }
+
+    if (options.authentication) {
+      const handlers = createAuthHandlers(
+        options.authentication,
+        this.prepareBtpsResponse.bind(this),
+        (to) => this.getTenant(to).serverIdentity.identity,
+      );
+      for (const action of ['auth.request', 'auth.refresh'] as const) {
+        this.builtInActionHandlers.set(action, handlers[action] as BtpsAgentActionHandler);
+      }
+    }
+
+    if (this.mailbox) {
+      const handlers = createMailboxHandlers(
+        this.mailbox.store,
+        this.prepareBtpsResponse.bind(this),
+      );
+      for (const action of this.mailbox.actions ?? MAILBOX_ACTIONS) {
+        this.builtInActionHandlers.set(action, handlers[action] as BtpsAgentActionHandler);
+      }
+    }
+    this.registerBuiltInActionHandlers();
+
+    // TLS server creation with certs, tenant certificates are selected through SNI
+    const useTenantSni = this.tenants.size > 0 && !this.tlsOptions?.SNICallback;
     this.server = tls.createServer(
       {
         ...this.tlsOptions,
+        ...(useTenantSni ? { SNICallback: this.selectTenantContext.bind(this) } : {}),
       },
       this.handleConnection.bind(this),
     );
   }
 
+  /**
+   * Routes the agent actions served by the built-in mailbox and authentication handlers
+   */
+  private registerBuiltInActionHandlers() {
+    for (const [action, handler] of this.builtInActionHandlers) {
+      this.handleAgentAction(action, handler);
+    }
+  }
+
+  /**
+   * SNI callback selecting the certificate of a hosted domain
+   * Unknown server names fall back to the default certificate.
+   */
+  private selectTenantContext(
+    servername: string,
+    cb: (err: Error | null, ctx?: SecureContext) => void,
+  ) {
+    cb(null, this.tenants.get(servername.toLowerCase())?.secureContext);
+  }
+
+  /**
+   * Resolves the identity and stores serving an identity or domain
+   * @param identityOrDomain - The `to` identity of an artifact or a domain name
+   * @returns The matching tenant or the default server identity and stores
+   */
+  private getTenant(identityOrDomain?: string | false | null): BtpsTenantContext {
+    const domain = identityOrDomain
+      ? (parseIdentity(identityOrDomain)?.domainName ?? identityOrDomain)
+      : undefined;
+    const tenant = domain ? this.tenants.get(domain.toLowerCase()) : undefined;
+    if (tenant) return tenant;
+
+    return {
+      serverIdentity: this.serverIdentity,
+      trustStore: this.trustStore,
+      identityStore: this.identityStore,
+    };
+  }
+
   /**
    * Initializes the server and loads middleware
    */
@@ -228,10 +392,19 @@ export class BtpsServer {
     const now = Date.now();
     const startTime = new Date(now).toISOString();
     const stream = socket.pipe(split2());
+    const connection: { inFlight: number; to?: string } = { inFlight: 0 };
+    this.connections.set(socket, connection);
+
+    const connectionStats: BTPConnectionStats = {
+      bytesReceived: 0,
+      artifactsReceived: 0,
+      pendingBytes: 0,
+    };
     const context: BTPContext = {
       socket,
       remoteAddress: ipAddress,
       startTime,
+      connectionStats,
     };
     let responseSent: boolean = false;
     let fromIdentity: string | undefined = undefined;
@@ -241,6 +414,7 @@ export class BtpsServer {
       update: (to: string, from: string) => {
         toIdentity = to;
         fromIdentity = from;
+        connection.to = to;
       },
       get: () => ({ to: toIdentity, from: fromIdentity }),
     };
@@ -248,13 +422,22 @@ export class BtpsServer {
     const reqCtx: BTPRequestCtx<'before', 'parsing'> = { ...context, getIdentity: identityRef.get };
     const resCtx: BTPResponseCtx<'before', 'parsing'> = {
       ...context,
-      sendRes: (response) => {
+      sendRes: (response, options) => {
         if (!responseSent) {
           responseSent = true;
         }
         /* always try to send the response with the reqId */
         response.reqId = resCtx?.reqId as string | undefined;
-        this.sendBtpsResponse(socket, response);
+        if (!options?.encrypt) return this.sendBtpsResponse(socket, response);
+
+        void this.encryptAgentResponse(resCtx.data, response).then(({ data, error }) => {
+          if (error) {
+            this.onError?.(error);
+            /* never fall back to sending the document in clear */
+            return this.sendBtpsError(socket, BTP_ERROR_UNSUPPORTED_ENCRYPT, response.reqId);
+          }
+          this.sendBtpsResponse(socket, data as BTPServerResponse);
+        });
       },
       sendError: (error, action) => {
         if (!responseSent) {
@@ -269,14 +452,86 @@ export class BtpsServer {
       },
     };
 
+    // Optional heartbeats keep idle connections alive through NATs and proxies
+    let lastActivityAt = Date.now();
+    const heartbeatTimer = this.heartbeatIntervalMs
+      ? setInterval(() => {
+          if (Date.now() - lastActivityAt < this.heartbeatIntervalMs) return;
+          lastActivityAt = Date.now();
+          this.sendHeartbeat(socket);
+        }, this.heartbeatIntervalMs)
+      : undefined;
+    heartbeatTimer?.unref();
+
+    /*
+     * Frame limits, split2 buffers until a newline arrives so the artifact being received
+     * is bounded in size and in the time it may take to complete (slow-loris protection)
+     */
+    let headerTimer: NodeJS.Timeout | undefined;
+    let frameRejected = false;
+    const rejectFrame = (error: BTPErrorException) => {
+      if (frameRejected) return;
+      frameRejected = true;
+      clearTimeout(headerTimer);
+      socket.unpipe(stream);
+      const errorReq = reqCtx as BTPRequestCtx<'before', 'onError'>;
+      errorReq.error = error;
+      void this.handleOnSocketError(error, {
+        req: errorReq,
+        res: resCtx,
+      });
+    };
+    const tooLarge = (bytes: number) =>
+      new BTPErrorException(BTP_ERROR_PAYLOAD_TOO_LARGE, {
+        cause: `Artifact of at least ${bytes} bytes exceeds ${this.maxArtifactBytes} bytes`,
+        meta: { remoteAddress: ipAddress, maxArtifactBytes: this.maxArtifactBytes },
+      });
+
+    socket.on('data', (chunk: Buffer) => {
+      if (frameRejected) return;
+      connectionStats.bytesReceived += chunk.length;
+      const lastNewline = chunk.lastIndexOf(0x0a);
+      connectionStats.pendingBytes =
+        lastNewline === -1
+          ? connectionStats.pendingBytes + chunk.length
+          : chunk.length - lastNewline - 1;
+
+      if (connectionStats.pendingBytes > this.maxArtifactBytes) {
+        return rejectFrame(tooLarge(connectionStats.pendingBytes));
+      }
+
+      // The deadline restarts with every artifact
+      if (lastNewline !== -1 || !connectionStats.pendingBytes) {
+        clearTimeout(headerTimer);
+        headerTimer = undefined;
+      }
+      if (connectionStats.pendingBytes && !headerTimer && this.headerTimeoutMs) {
+        headerTimer = setTimeout(() => {
+          rejectFrame(
+            new BTPErrorException(BTP_ERROR_SOCKET_TIMEOUT, {
+              cause: `Artifact not received within ${this.headerTimeoutMs}ms`,
+              meta: { remoteAddress: ipAddress, timeoutMs: this.headerTimeoutMs },
+            }),
+          );
+        }, this.headerTimeoutMs);
+      }
+    });
+
     // Data event handler
     stream.on('data', async (line: string) => {
-      if (!line.trim()) return;
+      lastActivityAt = Date.now();
+      if (frameRejected || !line.trim()) return;
+
+      /* complete lines of a single chunk never reach the pending byte check */
+      const lineBytes = Buffer.byteLength(line);
+      if (lineBytes > this.maxArtifactBytes) return rejectFrame(tooLarge(lineBytes));
+      connectionStats.artifactsReceived++;
 
       const parseReq: BTPRequestCtx<'before', 'parsing'> = reqCtx;
       parseReq.rawPacket = line;
       const parseRes = resCtx;
 
+      connection.inFlight++;
       try {
         // Execute before parsing middleware
         const beforeParseMiddleware = this.middlewareManager.getMiddleware('before', 'parsing');
@@ -292,9 +547,11 @@ export class BtpsServer {
         const { data, error } = this._parseAndValidateArtifact(line);
 
         const parseError = error
-          ? error === 'VALIDATION'
-            ? BTP_ERROR_VALIDATION
-            : BTP_ERROR_INVALID_JSON
+          ? {
+              JSON: BTP_ERROR_INVALID_JSON,
+              VALIDATION: BTP_ERROR_VALIDATION,
+              VERSION: BTP_ERROR_UNSUPPORTED_VERSION,
+            }[error]
           : undefined;
         const parseErrException: BTPErrorException | undefined = parseError
           ? new BTPErrorException(parseError)
@@ -326,6 +583,10 @@ export class BtpsServer {
           return; // Response already sent, stop processing
         }
 
+        if (error === 'VERSION') {
+          return this.sendUnsupportedVersion(socket, parseRes.reqId, data?.artifact?.version);
+        }
+
         if (parseError || !data) {
           const errorToSend = parseError ?? BTP_ERROR_INVALID_JSON;
           return this.sendBtpsError(socket, errorToSend);
@@ -360,6 +621,9 @@ export class BtpsServer {
           req: errorReq,
           res: parseRes,
         });
+      } finally {
+        connection.inFlight--;
+        if (this.stopping && !connection.inFlight) this.sendGoodbye(socket);
       }
     });
 
@@ -392,6 +656,10 @@ export class BtpsServer {
 
     // Cleanup to avoid memory leaks and max listener warnings
     socket.on('close', () => {
+      if (heartbeatTimer) clearInterval(heartbeatTimer);
+      clearTimeout(headerTimer);
+      this.connections.delete(socket);
+      if (!this.connections.size) this.onDrained?.();
       socket.off('error', handleError);
       if (typeof stream.off === 'function') stream.off('error', handleError);
     });
@@ -407,6 +675,21 @@ export class BtpsServer {
     const { res } = context;
     const { action } = artifact;
     switch (action) {
+      case 'PING': {
+        const receivedAt = Date.now();
+        const document: BTPPongDoc = {
+          pingIssuedAt: artifact.issuedAt,
+          receivedAt: new Date(receivedAt).toISOString(),
+          latencyMs: Math.max(0, receivedAt - Date.parse(artifact.issuedAt)),
+        };
+        return this.sendBtpsResponse(res.socket, {
+          ...this.prepareBtpsResponse({ ok: true, message: 'pong', code: 200 }, res.reqId),
+          type: 'btps_response',
+          document,
+        });
+      }
+      case 'CAPABILITIES':
+        return this.handleCapabilities(artifact, context);
       case 'QUIT':
         return this.sendBtpsResponse(
           res.socket,
@@ -421,6 +704,69 @@ export class BtpsServer {
     }
   }
 
+  /**
+   * Answers a CAPABILITIES control artifact with a signed capabilities document
+   * @param artifact - The capabilities control artifact
+   * @param context - The request and response context
+   */
+  private async handleCapabilities(
+    artifact: BTPControlArtifact,
+    context: {
+      req: BTPRequestCtx;
+      res: BTPResponseCtx;
+    },
+  ) {
+    const { res } = context;
+    /* control artifacts carry no identity, the tenant is the TLS server name */
+    const { serverIdentity } = this.getTenant(
+      (res.socket as TLSSocket & { servername?: string | false }).servername,
+    );
+    if (!artifact.hostSelector) {
+      return this.sendBtpsError(
+        res.socket,
+        new BTPErrorException(BTP_ERROR_VALIDATION, {
+          cause: 'hostSelector is required to sign the capabilities document',
+        }),
+        res.reqId,
+      );
+    }
+
+    const data: BTPServerResponse = {
+      /* answer in the requested version so the signature is verifiable by the requester */
+      ...this.prepareBtpsResponse(
+        { ok: true, message: 'success', code: 200 },
+        res.reqId,
+        artifact.version,
+      ),
+      type: 'btps_response',
+      selector: artifact.hostSelector,
+      document: this.getCapabilities(),
+      signedBy: serverIdentity.identity,
+    };
+
+    const serverPemKeys: PemKeys = {
+      publicKey: serverIdentity.publicKey,
+      privateKey: serverIdentity.privateKey,
+    };
+
+    try {
+      const signature = signBtpPayload(data, serverPemKeys);
+      this.sendBtpsResponse(res.socket, { ...data, signature });
+    } catch (error) {
+      const err = transformToBTPErrorException(error);
+      const newErr = new BTPErrorException(BTP_ERROR_UNKNOWN, {
+        cause: err,
+        meta: data,
+      });
+      const errorReq = context.req as BTPRequestCtx<'before', 'onError'>;
+      errorReq.error = newErr;
+      return this.handleOnSocketError(newErr, {
+        req: errorReq,
+        res: context.res,
+      });
+    }
+  }
+
   /**
    * Handles an identity lookup request
    * @param artifact - The identity lookup request artifact
@@ -436,26 +782,29 @@ export class BtpsServer {
     const { res } = context;
     const { identity, hostSelector, identitySelector } = artifact;
 
+    const { serverIdentity, identityStore } = this.getTenant(identity);
     const computedId = computeId(identity);
-    const identityRecord = await this.identityStore?.getPublicKeyRecord(
-      computedId,
-      identitySelector,
-    );
+    const identityRecord = await identityStore?.getPublicKeyRecord(computedId, identitySelector);
     if (!identityRecord)
       return this.sendBtpsError(res.socket, BTP_ERROR_IDENTITY_NOT_FOUND, res.reqId);
 
     const { createdAt, ...restRecord } = identityRecord;
     const data: BTPServerResponse = {
-      ...this.prepareBtpsResponse({ ok: true, message: 'success', code: 200 }, res.reqId),
+      /* answer in the requested version so the signature is verifiable by the requester */
+      ...this.prepareBtpsResponse(
+        { ok: true, message: 'success', code: 200 },
+        res.reqId,
+        artifact.version,
+      ),
       type: 'btps_response',
       selector: hostSelector,
       document: restRecord,
-      signedBy: this.serverIdentity.identity,
+      signedBy: serverIdentity.identity,
     };
 
     const serverPemKeys: PemKeys = {
-      publicKey: this.serverIdentity.publicKey,
-      privateKey: this.serverIdentity.privateKey,
+      publicKey: serverIdentity.publicKey,
+      privateKey: serverIdentity.privateKey,
     };
 
     try {
@@ -518,6 +867,13 @@ export class BtpsServer {
       return this.sendBtpsError(resCtx.socket, BTP_ERROR_SIG_VERIFICATION, resCtx.reqId);
     }
 
+    // Core replay protection (non-negotiable), only signed artifacts may claim an id
+    const { isFresh, error: replayError } = await this.verifyReplay(data);
+    if (!isFresh) {
+      if (replayError) reqCtx.error = replayError;
+      return this.sendBtpsError(resCtx.socket, BTP_ERROR_REPLAY, resCtx.reqId);
+    }
+
     // Execute before trust verification middleware
     const beforeTrustVerResponseSent = await this.executeMiddleware(
       this.middlewareManager.getMiddleware('before', 'trustVerification'),
@@ -584,7 +940,7 @@ export class BtpsServer {
     req: BTPRequestCtx,
     res: BTPResponseCtx,
   ): Promise<boolean> {
-    for (const mw of middleware) {
+    for (const [index, mw] of middleware.entries()) {
       // Check if socket is already destroyed before executing middleware
       if (this.isResponseSent(res)) return true;
 
@@ -603,16 +959,108 @@ export class BtpsServer {
         context?: MiddlewareContext,
       ) => Promise<void> | void;
 
-      await typedHandler(req, res, () => Promise.resolve(), context);
+      const name = mw.config?.name ?? `${mw.phase}.${mw.step}[${index}]`;
+      const timeoutMs = mw.config?.timeoutMs;
+      let timedOut = false;
+      /* a timed out middleware keeps running, it must not answer a request that moved on */
+      const handlerRes = timeoutMs
+        ? this.guardLateResponses(
+            res,
+            () => timedOut,
+            () =>
+              new BTPErrorException(BTP_ERROR_TIMEOUT, {
+                cause: `Middleware ${name} responded after its ${timeoutMs}ms timeout`,
+                meta: { middleware: name, timeoutMs },
+              }),
+          )
+        : res;
+      const startedAt = performance.now();
+      try {
+        await this.withMiddlewareTimeout(
+          typedHandler(req, handlerRes, () => Promise.resolve(), context),
+          name,
+          timeoutMs,
+        );
+      } catch (err) {
+        const error = transformToBTPErrorException(err);
+        const isTimeout = error.code === BTP_ERROR_TIMEOUT.code;
+        timedOut = isTimeout;
+        this.recordMiddlewareExecution(mw, name, startedAt, isTimeout ? 'timeout' : 'failed');
+
+        const onFailure = mw.config?.onFailure ?? 'destroy';
+        if (onFailure === 'destroy') throw err;
+
+        this.onError?.(error);
+        if (onFailure === 'skip') continue;
+
+        if (!this.isResponseSent(res)) {
+          res.sendError(isTimeout ? BTP_ERROR_TIMEOUT : BTP_ERROR_MIDDLEWARE_FAILURE);
+        }
+        return true;
+      }
 
       // Check if socket was destroyed after middleware execution
       // This indicates sendError or sendRes was called
-      if (this.isResponseSent(res)) return true;
+      const responded = this.isResponseSent(res);
+      this.recordMiddlewareExecution(mw, name, startedAt, responded ? 'responded' : 'next');
+      if (responded) return true;
     }
 
     return false; // No response was sent, continue with normal flow
   }
 
+  /**
+   * Bounds a middleware handler by its configured timeout
+   */
+  private async withMiddlewareTimeout(
+    result: Promise<void> | void,
+    name: string,
+    timeoutMs?: number,
+  ): Promise<void> {
+    if (!timeoutMs) return result;
+
+    let timer: NodeJS.Timeout | undefined;
+    try {
+      await Promise.race([
+        result,
+        new Promise<never>((_, reject) => {
+          timer = setTimeout(
+            () =>
+              reject(
+                new BTPErrorException(BTP_ERROR_TIMEOUT, {
+                  cause: `Middleware ${name} did not complete within ${timeoutMs}ms`,
+                  meta: { middleware: name, timeoutMs },
+                }),
+              ),
+            timeoutMs,
+          );
+        }),
+      ]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Records a middleware execution and reports it to the metrics tracker
+   */
+  private recordMiddlewareExecution(
+    mw: MiddlewareDefinition,
+    name: string,
+    startedAt: number,
+    outcome: MiddlewareExecution['outcome'],
+  ) {
+    const execution: MiddlewareExecution = {
+      name,
+      phase: mw.phase,
+      step: mw.step,
+      durationMs: performance.now() - startedAt,
+      outcome,
+    };
+    this.middlewareManager.recordExecution(execution);
+    this.metrics?.onMiddlewareExecuted?.(execution);
+  }
+
   /**
    * Core agent signature verification (non-negotiable)
    */
@@ -661,7 +1109,7 @@ export class BtpsServer {
 
     // For existing agents, get public key from trust store
     const computedTrustId = computeTrustId(artifact.agentId, artifact.to);
-    const trustRecord = await this.trustStore.getById(computedTrustId);
+    const trustRecord = await this.getTenant(artifact.to).trustStore.getById(computedTrustId);
 
     if (!trustRecord) {
       return null; // Trust record not found
@@ -686,6 +1134,51 @@ export class BtpsServer {
     return base64ToPem(trustRecord.publicKeyBase64);
   }
 
+  /**
+   * Encrypts the document of a response to the public key of the agent that sent the artifact
+   */
+  private async encryptAgentResponse(
+    data: PreProcessedArtifact | undefined,
+    response: BTPServerResponse,
+  ): Promise<{ data?: BTPServerResponse; error?: BTPErrorException }> {
+    if (response.document === undefined || response.encryption) return { data: response };
+
+    if (data?.type !== 'agent') {
+      return {
+        error: new BTPErrorException(BTP_ERROR_UNSUPPORTED_ENCRYPT, {
+          cause: 'Only responses to agent artifacts can be encrypted',
+          meta: { reqId: response.reqId },
+        }),
+      };
+    }
+
+    const { agentId, action } = data.artifact;
+    try {
+      const agentPublicPem = await this.getAgentPublicKey(data.artifact);
+      if (!agentPublicPem) {
+        return {
+          error: new BTPErrorException(BTP_ERROR_UNSUPPORTED_ENCRYPT, {
+            cause: `Agent ${agentId} public key not found`,
+            meta: { agentId, action },
+          }),
+        };
+      }
+
+      const { data: document, encryption } = await encryptBtpPayload(
+        response.document,
+        agentPublicPem,
+      );
+      return { data: { ...response, document, encryption } };
+    } catch (err) {
+      return {
+        error: new BTPErrorException(BTP_ERROR_UNSUPPORTED_ENCRYPT, {
+          cause: transformToBTPErrorException(err),
+          meta: { agentId, action },
+        }),
+      };
+    }
+  }
+
   /**
    * Core agent trust verification (non-negotiable)
    */
@@ -700,7 +1193,7 @@ export class BtpsServer {
 
     const { agentId, to } = artifact;
     const computedTrustId = computeTrustId(agentId, to);
-    const trustRecord = await this.trustStore.getById(computedTrustId);
+    const trustRecord = await this.getTenant(to).trustStore.getById(computedTrustId);
     if (!trustRecord) {
       return {
         isTrusted: false,
@@ -738,7 +1231,11 @@ export class BtpsServer {
     const { attestation, ...restDelegation } = delegation;
     const { signature, ...restAttestation } = attestation;
 
-    const attestorPubKey = await resolvePublicKey(attestation.signedBy, attestation.selector);
+    const attestorPubKey = await resolvePublicKey(
+      attestation.signedBy,
+      attestation.selector,
+      this.dnsResolver,
+    );
     if (!attestorPubKey) {
       return {
         isValid: false,
@@ -841,7 +1338,11 @@ export class BtpsServer {
     }
 
     /* Verify the delegation signature against the delegated artifact which includes the original artifact and signed artifact*/
-    const delegatorPubKey = await resolvePublicKey(delegation.signedBy, delegation.selector);
+    const delegatorPubKey = await resolvePublicKey(
+      delegation.signedBy,
+      delegation.selector,
+      this.dnsResolver,
+    );
     if (!delegatorPubKey) {
       return {
         isValid: false,
@@ -906,7 +1407,7 @@ export class BtpsServer {
     }
 
     const { signature, ...signedMsg } = artifact;
-    const publicKey = await resolvePublicKey(artifact.from, artifact.selector);
+    const publicKey = await resolvePublicKey(artifact.from, artifact.selector, this.dnsResolver);
 
     if (!publicKey) {
       return { isValid: false, error: new BTPErrorException(BTP_ERROR_RESOLVE_PUBKEY) };
@@ -915,6 +1416,44 @@ export class BtpsServer {
     return verifySignature(signedMsg, signature, publicKey);
   }
 
+  /**
+   * Core replay protection (non-negotiable)
+   * Rejects artifacts issued outside the clock skew window and artifacts whose from + id was already seen
+   */
+  private async verifyReplay(
+    data: ProcessedArtifact,
+  ): Promise<{ isFresh: boolean; error?: BTPErrorException }> {
+    const { artifact, type } = data;
+    const from = type === 'agent' ? artifact.agentId : artifact.from;
+    const issuedAt = Date.parse(artifact.issuedAt);
+
+    if (Number.isNaN(issuedAt) || Math.abs(Date.now() - issuedAt) > this.replayClockSkewMs) {
+      return {
+        isFresh: false,
+        error: new BTPErrorException(BTP_ERROR_REPLAY, {
+          cause: 'issuedAt is outside the allowed clock skew window',
+          meta: { issuedAt: artifact.issuedAt, clockSkewMs: this.replayClockSkewMs },
+        }),
+      };
+    }
+
+    /* ids only need to be remembered while their issuedAt can still pass the window check */
+    const isFresh = await this.replayStore.markSeen(
+      `${from}:${artifact.id}`,
+      issuedAt + this.replayClockSkewMs,
+    );
+
+    return {
+      isFresh,
+      error: isFresh
+        ? undefined
+        : new BTPErrorException(BTP_ERROR_REPLAY, {
+            cause: 'Artifact id was already processed',
+            meta: { id: artifact.id, from },
+          }),
+    };
+  }
+
   /**
    * Core trust verification (non-negotiable)
    */
@@ -925,17 +1464,18 @@ export class BtpsServer {
 
     if (type === 'agent') return this.verifyAgentTrust(artifact);
 
+    const { trustStore } = this.getTenant(artifact.to);
     if (artifact.type === 'TRUST_RES') {
       const { isValid, error } = await validateTrustResponse(
         artifact.from,
         artifact.to,
-        this.trustStore,
+        trustStore,
       );
       return { isTrusted: isValid, error };
     }
 
     const computedTrustId = computeTrustId(artifact.from, artifact.to);
-    const trustRecord = await this.trustStore.getById(computedTrustId);
+    const trustRecord = await trustStore.getById(computedTrustId);
 
     if (artifact.type === 'TRUST_REQ') {
       const { isValid, error } = validateTrustRequest(trustRecord);
@@ -960,6 +1500,7 @@ export class BtpsServer {
     reqCtx: BTPRequestCtx,
     resCtx: BTPResponseCtx,
     artifact: BTPAgentArtifact & { respondNow: boolean },
+    isExpired: () => boolean = () => false,
   ): Promise<void> {
     if (!shouldAwait) {
       this.emitter.emit(event, artifact, resCtx);
@@ -980,6 +1521,11 @@ export class BtpsServer {
           await Promise.resolve(result);
         } catch (err) {
           const error = transformToBTPErrorException(err);
+          /* the request was already answered with BTP_ERROR_TIMEOUT, the connection has moved on */
+          if (isExpired()) {
+            this.onError?.(error);
+            return;
+          }
           this.handleOnSocketError(error, {
             req: { ...reqCtx, error },
             res: resCtx,
@@ -1001,19 +1547,54 @@ export class BtpsServer {
 
     if (type === 'agent') {
       const { respondNow } = data;
-      await this.awaitableEmitIfNeeded('agentArtifact', respondNow === true, reqCtx, resCtx, {
-        ...artifact,
-        respondNow,
-      });
+      if (!this.isAgentActionHandled(artifact.action)) {
+        resCtx.sendError({ code: 501, message: `Action ${artifact.action} is not implemented` });
+        return true;
+      }
+
+      /* routed actions go to their own handler instead of the catch-all agent listeners */
+      const routeEvent = this.getAgentActionEvent(artifact.action);
+      const event = this.emitter.listenerCount(routeEvent) > 0 ? routeEvent : 'agentArtifact';
+      await this.emitAgentArtifact(event, reqCtx, resCtx, { ...artifact, respondNow });
 
       if (this.isResponseSent(resCtx)) return true;
     } else {
+      if (!(await this.storeIncomingArtifact(artifact, resCtx))) return true;
       this.emitter.emit('transporterArtifact', artifact);
     }
     await this._forwardArtifact(data);
     return false;
   }
 
+  /**
+   * Saves a delivered document in the recipient inbox of the built-in mailbox
+   * @returns false when the artifact could not be stored and an error was sent
+   */
+  private async storeIncomingArtifact(
+    artifact: BTPTransporterArtifact,
+    resCtx: BTPResponseCtx,
+  ): Promise<boolean> {
+    if (!this.mailbox || this.mailbox.storeIncoming === false || artifact.type !== 'BTPS_DOC') {
+      return true;
+    }
+
+    try {
+      await this.mailbox.store.create({
+        identity: artifact.to,
+        folder: 'inbox',
+        artifactId: artifact.id,
+        artifact,
+        createdAt: new Date().toISOString(),
+        meta: { seen: false },
+      });
+      return true;
+    } catch (error) {
+      this.onError?.(transformToBTPErrorException(error));
+      resCtx.sendError({ code: 500, message: 'Artifact could not be stored' });
+      return false;
+    }
+  }
+
   /**
    * Parses and validates an artifact from a string
    * @param line - The string to parse
@@ -1021,7 +1602,7 @@ export class BtpsServer {
    */
   private _parseAndValidateArtifact(line: string): {
     data?: PreProcessedArtifact;
-    error?: 'JSON' | 'VALIDATION';
+    error?: 'JSON' | 'VALIDATION' | 'VERSION';
   } {
     try {
       const data = JSON.parse(line);
@@ -1041,16 +1622,23 @@ export class BtpsServer {
         return { error: 'VALIDATION', data };
       }
 
-      const validationResult = validate(BtpArtifactServerSchema, data);
+      const unprocessed: PreProcessedArtifact =
+        type === 'agent'
+          ? { artifact: data, type, respondNow: false } // Default value for agent artifacts
+          : { artifact: data, type };
+
+      // Artifacts are validated against the schema of the protocol version they declare
+      const schema = isVersionSupported(data.version)
+        ? getBtpArtifactServerSchema(data.version)
+        : undefined;
+      if (!schema) {
+        return { error: 'VERSION', data: unprocessed };
+      }
+
+      const validationResult = validate(schema, data);
 
       if (!validationResult.success) {
-        return {
-          error: 'VALIDATION',
-          data:
-            type === 'agent'
-              ? { artifact: data, type, respondNow: false } // Default value for agent artifacts
-              : { artifact: data, type },
-        };
+        return { error: 'VALIDATION', data: unprocessed };
       }
 
       // IMPORTANT: For signature verification, always use the original data.
@@ -1080,6 +1668,112 @@ export class BtpsServer {
     }
   }
 
+  /**
+   * Protocol versions this server accepts
+   */
+  private getVersionNegotiationDoc(): BTPVersionNegotiationDoc {
+    return {
+      minVersion: MIN_SUPPORTED_VERSION,
+      maxVersion: MAX_SUPPORTED_VERSION,
+      supportedVersions: SUPPORTED_PROTOCOL_VERSIONS.filter((v) => isVersionSupported(v)),
+    };
+  }
+
+  /**
+   * Emits an agent artifact to its listeners
+   * Immediate actions must be answered within their deadline, otherwise the server answers
+   * with BTP_ERROR_TIMEOUT and reports later responses and errors of the handler through onError.
+   */
+  private async emitAgentArtifact(
+    event: string,
+    reqCtx: BTPRequestCtx,
+    resCtx: BTPResponseCtx,
+    artifact: BTPAgentArtifact & { respondNow: boolean },
+  ): Promise<void> {
+    const timeoutMs = artifact.respondNow ? this.getActionTimeoutMs(artifact.action) : 0;
+    if (!timeoutMs) {
+      return this.awaitableEmitIfNeeded(event, artifact.respondNow, reqCtx, resCtx, artifact);
+    }
+
+    let expired = false;
+    let deadline: NodeJS.Timeout | undefined;
+    const handlerResCtx = this.guardLateResponses(
+      resCtx,
+      () => expired,
+      () =>
+        new BTPErrorException(BTP_ERROR_TIMEOUT, {
+          cause: `Response to ${artifact.action} sent after the ${timeoutMs}ms deadline`,
+          meta: { reqId: artifact.id, action: artifact.action, agentId: artifact.agentId },
+        }),
+    );
+    const result = await Promise.race([
+      this.awaitableEmitIfNeeded(event, true, reqCtx, handlerResCtx, artifact, () => expired),
+      new Promise<'timeout'>((resolve) => {
+        deadline = setTimeout(() => resolve('timeout'), timeoutMs);
+      }),
+    ]);
+    clearTimeout(deadline);
+
+    if (result === 'timeout' && !this.isResponseSent(resCtx)) {
+      expired = true;
+      resCtx.sendError(BTP_ERROR_TIMEOUT);
+    }
+  }
+
+  /**
+   * Time the handler of an immediate agent action has to respond
+   */
+  private getActionTimeoutMs(action: AgentAction): number {
+    return this.actionTimeouts[action] ?? this.actionTimeoutMs;
+  }
+
+  /**
+   * Wraps a response context so responses sent after a deadline are reported
+   * through onError instead of being written to a request that was already answered
+   */
+  private guardLateResponses(
+    resCtx: BTPResponseCtx,
+    isExpired: () => boolean,
+    lateError: () => BTPErrorException,
+  ): BTPResponseCtx {
+    const reportLate = () => this.onError?.(lateError());
+
+    return {
+      ...resCtx,
+      sendRes: (response, options) =>
+        isExpired() ? reportLate() : resCtx.sendRes(response, options),
+      sendError: (error, action) => (isExpired() ? reportLate() : resCtx.sendError(error, action)),
+      get responseSent() {
+        return resCtx.responseSent;
+      },
+    };
+  }
+
+  /**
+   * Agent actions that reach a handler
+   */
+  private getEnabledAgentActions(): AgentAction[] {
+    return AGENT_ACTIONS.filter((action) => this.isAgentActionHandled(action));
+  }
+
+  /**
+   * Checks if an agent action reaches a handler
+   * Immediate actions are answered by their routed handler or agentArtifact listeners, the
+   * others are also delivered to the forwardTo handler.
+   */
+  private isAgentActionHandled(action: AgentAction): boolean {
+    if (this.emitter.listenerCount(this.getAgentActionEvent(action)) > 0) return true;
+    if (this.emitter.listenerCount('agentArtifact') > 0) return true;
+    return !!this.handlerFn && !this.isImmediateAction(action);
+  }
+
+  /**
+   * Event carrying the artifacts of a routed agent action
+   */
+  private getAgentActionEvent(action: AgentAction): string {
+    return `agentAction:${action}`;
+  }
+
   /**
    * Checks if an agent action requires immediate response
    */
@@ -1145,6 +1839,8 @@ export class BtpsServer {
         ok: false,
         code: typeof error.code === 'number' ? error.code : 500,
         message: error.message,
+        /* string codes tell the sender why it was refused, e.g. a permanent rejection not worth retrying */
+        ...(typeof error.code === 'string' && { errorCode: error.code }),
       },
       reqId,
     );
@@ -1159,6 +1855,54 @@ export class BtpsServer {
     );
   }
 
+  /**
+   * Tells a client the server is going away and ends its connection
+   */
+  private sendGoodbye(socket: TLSSocket) {
+    this.sendBtpsResponse(socket, {
+      ...this.prepareBtpsResponse({ ok: true, message: 'bye', code: 200 }),
+      type: 'btps_response',
+    });
+    if (!socket.writableEnded) socket.end();
+  }
+
+  /**
+   * Sends a PING control artifact to an idle client
+   * Heartbeats count as socket activity, an idle connection stays open while the peer acknowledges them.
+   */
+  private sendHeartbeat(socket: TLSSocket) {
+    if (socket.destroyed || socket.writableEnded || !socket.writable) return;
+    const heartbeat: BTPControlArtifact = {
+      version: this.getProtocolVersion(),
+      id: randomUUID(),
+      issuedAt: new Date().toISOString(),
+      action: 'PING',
+    };
+    socket.write(JSON.stringify(heartbeat) + '\n');
+  }
+
+  /**
+   * Rejects an artifact of an unsupported protocol version
+   * The response lists the supported versions so the client can downgrade
+   */
+  private sendUnsupportedVersion(socket: TLSSocket, reqId?: string, version?: string) {
+    const document = this.getVersionNegotiationDoc();
+
+    this.sendBtpsResponse(socket, {
+      ...this.prepareBtpsResponse(
+        {
+          ok: false,
+          code: 505,
+          message: `${BTP_ERROR_UNSUPPORTED_VERSION.message}: ${version ?? 'unknown'}`,
+          errorCode: String(BTP_ERROR_UNSUPPORTED_VERSION.code),
+        },
+        reqId,
+      ),
+      type: 'btps_error',
+      document,
+    });
+  }
+
   /**
    * Sends a BTPS response to the client
    * @param socket - The socket to send the response to
@@ -1171,6 +1915,21 @@ export class BtpsServer {
   ) {
     if (socket.destroyed || socket.writableEnded || !socket.writable) return;
 
+    if (this.signResponses && !artifact.signature) {
+      try {
+        artifact = this.signResponse(socket, artifact);
+      } catch (err) {
+        this.onError?.(
+          new BTPErrorException(BTP_ERROR_UNKNOWN, {
+            cause: transformToBTPErrorException(err),
+            meta: { response: artifact },
+          }),
+        );
+        if (!socket.destroyed) socket.destroy();
+        return;
+      }
+    }
+
     // Validate the response artifact using Zod schema
     const validationResult = validate(BtpServerResponseSchema, artifact);
     if (!validationResult.success) {
@@ -1203,6 +1962,28 @@ export class BtpsServer {
     }
   }
 
+  /**
+   * Signs a response with the identity serving the connection
+   * The tenant is resolved from the identity the connection addresses, or its TLS server name.
+   */
+  private signResponse(socket: TLSSocket, response: BTPServerResponse): BTPServerResponse {
+    const to = this.connections.get(socket)?.to;
+    const { serverIdentity } = this.getTenant(
+      isValidIdentity(to) ? to : (socket as TLSSocket & { servername?: string | false }).servername,
+    );
+
+    const data: BTPServerResponse = {
+      ...response,
+      signedBy: serverIdentity.identity,
+      selector: serverIdentity.selector,
+    };
+    const signature = signBtpPayload(data, {
+      publicKey: serverIdentity.publicKey,
+      privateKey: serverIdentity.privateKey,
+    });
+    return { ...data, signature };
+  }
+
   /**
    * Returns the BTPS protocol version
    */
@@ -1213,9 +1994,13 @@ export class BtpsServer {
   /**
    * Prepares a BTPS server response with the given status
    */
-  public prepareBtpsResponse(status: BTPStatus, reqId?: string): Omit<BTPServerResponse, 'type'> {
+  public prepareBtpsResponse(
+    status: BTPStatus,
+    reqId?: string,
+    version: string = this.getProtocolVersion(),
+  ): Omit<BTPServerResponse, 'type'> {
     const response: Omit<BTPServerResponse, 'type'> = {
-      version: this.getProtocolVersion(),
+      version,
       status,
       id: randomUUID(),
       issuedAt: new Date().toISOString(),
@@ -1236,11 +2021,41 @@ export class BtpsServer {
 
   /**
    * Stops the BTPS server
+   * New connections are refused, idle connections are ended with a goodbye and busy ones once
+   * their in-flight artifacts are processed. Connections still open after `drainTimeoutMs` are destroyed.
    */
-  public stop() {
+  public stop(options: BtpsServerStopOptions = {}): Promise<void> {
+    this.stopping ??= this.drainAndStop(options.drainTimeoutMs ?? 10000);
+    return this.stopping;
+  }
+
+  private async drainAndStop(drainTimeoutMs: number): Promise<void> {
     this.server.close();
-    this.middlewareManager.onServerStop();
+
+    for (const [socket, { inFlight }] of this.connections) {
+      if (!inFlight) this.sendGoodbye(socket);
+    }
+
+    if (this.connections.size) {
+      let drainTimer: NodeJS.Timeout | undefined;
+      await new Promise<void>((resolve) => {
+        this.onDrained = resolve;
+        drainTimer = setTimeout(resolve, drainTimeoutMs);
+      });
+      clearTimeout(drainTimer);
+      this.onDrained = undefined;
+
+      for (const socket of this.connections.keys()) {
+        if (!socket.destroyed) socket.destroy();
+      }
+      this.connections.clear();
+    }
+
+    this.middlewareManager.stopWatching();
+    await this.middlewareManager.onServerStop();
     this.emitter.removeAllListeners();
+    this.registerBuiltInActionHandlers();
+    this.stopping = undefined;
     console.log('✅ BtpsServer stopped');
   }
 
@@ -1284,14 +2099,104 @@ export class BtpsServer {
     }
   }
 
-  public getServerIdentity(): BtpsServerOptions['serverIdentity'] {
-    return this.serverIdentity;
+  /**
+   * Registers middleware, or a middleware module with lifecycle hooks, in code
+   * Code middleware is merged with the middleware file by priority, file middleware first
+   * on equal priority.
+   */
+  public use(
+    middleware: MiddlewareDefinitionArray[number] | MiddlewareDefinitionArray | MiddlewareModule,
+  ): void {
+    this.middlewareManager.use(middleware);
+  }
+
+  /**
+   * Gets the execution totals of every middleware that ran
+   */
+  public getMiddlewareMetrics(): MiddlewareMetrics[] {
+    return this.middlewareManager.getMetrics();
+  }
+
+  /**
+   * Listens to reloads of the middleware file, enabled with `watchMiddleware`
+   */
+  public onMiddlewareReload(listener: (event: MiddlewareReloadEvent) => void): void {
+    this.middlewareManager.on('reload', listener);
+  }
+
+  /**
+   * Removes the middleware registered under `config.name`
+   * @returns true when at least one middleware was removed
+   */
+  public removeMiddleware(name: string): boolean {
+    return this.middlewareManager.removeMiddleware(name);
+  }
+
+  /**
+   * Registers the handler of a single agent action
+   * The handler receives the document typed for its action, routed actions are no longer
+   * delivered to `onIncomingArtifact('Agent')` listeners.
+   */
+  public handleAgentAction<A extends AgentAction>(
+    action: A,
+    handler: BtpsAgentActionHandler<A>,
+  ): void {
+    if (!(AGENT_ACTIONS as readonly string[]).includes(action)) {
+      throw new BTPErrorException(BTP_ERROR_INVALID_ACTION, {
+        cause: `Unknown agent action ${action}`,
+      });
+    }
+
+    const event = this.getAgentActionEvent(action);
+    if (this.emitter.listenerCount(event) > 0) {
+      throw new BTPErrorException(BTP_ERROR_VALIDATION, {
+        cause: `A handler is already registered for ${action}`,
+        meta: { action },
+      });
+    }
+
+    this.emitter.on(event, handler);
+  }
+
+  /**
+   * Builds the capabilities document advertised to clients
+   */
+  public getCapabilities(): BTPCapabilitiesDoc {
+    return {
+      ...this.getVersionNegotiationDoc(),
+      agentActions: this.getEnabledAgentActions(),
+      artifactTypes: [...TRANSPORTER_ACTIONS],
+      crypto: {
+        signatureAlgorithms: Object.values(SIGNATURE_ALGORITHMS),
+        signatureCanonicalizations: [...SIGNATURE_CANONICALIZATIONS],
+        encryptionAlgorithms: [...ENCRYPTION_ALGORITHMS],
+        encryptionModes: [...ENCRYPTION_MODES],
+      },
+      limits: {
+        connectionTimeoutMs: this.connectionTimeoutMs,
+        maxArtifactBytes: this.maxArtifactBytes,
+        headerTimeoutMs: this.headerTimeoutMs,
+        ...(this.heartbeatIntervalMs ? { heartbeatIntervalMs: this.heartbeatIntervalMs } : {}),
+      },
+    };
+  }
+
+  /**
+   * Returns the server identity, or the identity of the tenant hosting `domain`
+   */
+  public getServerIdentity(domain?: string): BtpsServerOptions['serverIdentity'] {
+    return this.getTenant(domain).serverIdentity;
   }
 
-  public getDependencies(): {
+  /**
+   * Returns the server stores, or the stores of the tenant hosting `domain`
+   */
+  public getDependencies(domain?: string): {
     trustStore: AbstractTrustStore<BTPTrustRecord>;
     identityStore?: AbstractIdentityStore<BTPIdentityRecord>;
   } {
-    return this.dependencies;
+    if (!domain) return this.dependencies;
+    const { trustStore, identityStore } = this.getTenant(domain);
+    return { trustStore, identityStore };
   }
 }
@@ -0,0 +1,19 @@
+/**
+ * @license
+ * Copyright (c) 2025 Bhupendra Tamang
+ * Licensed under the Apache License, Version 2.0
+ * https://www.apache.org/licenses/LICENSE-2.0
+ */
+
+export abstract class ReplayStore {
+  /**
+   * Atomically records an artifact key as seen until expiresAt (epoch ms)
+   * @returns false if the key was already recorded and has not expired yet
+   */
+  abstract markSeen(key: string, expiresAt: number): Promise<boolean>;
+
+  // No-op default. Safe for Redis, essential for in-memory.
+  cleanup(): void {
+    // nothing
+  }
+}
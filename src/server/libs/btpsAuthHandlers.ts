@@ -0,0 +1,146 @@
+/**
+ * @license
+ * Copyright (c) 2025 Bhupendra Tamang
+ * Licensed under the Apache License, Version 2.0
+ * https://www.apache.org/licenses/LICENSE-2.0
+ */
+
+/**
+ * Built-in handlers of the auth.request and auth.refresh agent actions
+ *
+ * auth.request redeems a one-time auth token issued for the `to` identity and creates an agent,
+ * the token is only consumed once approveAgent and the policies accepted the agent.
+ * auth.refresh reissues the refresh token of an existing agent and rotates its public key.
+ */
+import { BTP_ERROR_AUTHENTICATION_INVALID } from '@core/error/index.js';
+import type { BTPServerResponse, BTPStatus } from '@core/server/types.js';
+import type {
+  ArtifactResCtx,
+  BtpsAgentActionHandler,
+  BtpsAuthContext,
+  BtpsAuthenticationOptions,
+  BtpsAuthPolicy,
+} from '../types.js';
+
+export type BtpsAuthHandlers = {
+  'auth.request': BtpsAgentActionHandler<'auth.request'>;
+  'auth.refresh': BtpsAgentActionHandler<'auth.refresh'>;
+};
+
+type PrepareResponse = (status: BTPStatus, reqId?: string) => Omit<BTPServerResponse, 'type'>;
+
+export function createAuthHandlers(
+  options: BtpsAuthenticationOptions,
+  prepareResponse: PrepareResponse,
+  getServerIdentity: (to: string) => string,
+): BtpsAuthHandlers {
+  const { auth, approveAgent, enrichAgentInfo } = options;
+
+  const resolvePolicy = async (
+    policy: BtpsAuthPolicy | undefined,
+    fallback: string,
+    ctx: BtpsAuthContext,
+  ) => (typeof policy === 'function' ? policy(ctx) : (policy ?? fallback));
+
+  const createContext = async (
+    artifact: BtpsAuthContext['artifact'],
+    userIdentity: string,
+    agentInfo: BtpsAuthContext['agentInfo'] = {},
+  ) => {
+    const ctx: BtpsAuthContext = {
+      artifact,
+      userIdentity,
+      serverIdentity: getServerIdentity(artifact.to),
+      agentInfo,
+    };
+    if (enrichAgentInfo) ctx.agentInfo = await enrichAgentInfo(ctx);
+    return {
+      ...ctx,
+      decidedBy: await resolvePolicy(options.decidedBy, userIdentity, ctx),
+      decryptBy: await resolvePolicy(options.decryptBy, ctx.serverIdentity, ctx),
+    };
+  };
+
+  /* refresh documents may be encrypted for the server, the handlers only read plain documents */
+  const rejectEncrypted = (artifact: { encryption: unknown }, resCtx: ArtifactResCtx) => {
+    if (!artifact.encryption) return false;
+    resCtx.sendError({
+      code: 400,
+      message: 'Encrypted documents are not supported by the built-in auth handlers',
+    });
+    return true;
+  };
+
+  return {
+    'auth.request': async (artifact, resCtx) => {
+      if (rejectEncrypted(artifact, resCtx)) return;
+      const { authToken, publicKey, agentInfo } = artifact.document;
+
+      /* the token is bound to the identity it was issued for, not to the identity the document claims */
+      const { isValid, userIdentity } = await auth.validateAuthToken(artifact.to, authToken, false);
+      if (!isValid || !userIdentity) {
+        return resCtx.sendError(BTP_ERROR_AUTHENTICATION_INVALID);
+      }
+
+      const ctx = await createContext(artifact, userIdentity, agentInfo);
+      if (approveAgent && !(await approveAgent(ctx))) {
+        return resCtx.sendError({ code: 403, message: 'Agent creation was denied' });
+      }
+
+      /*
+       * the token is only used up once the hooks and policies accepted the agent, a denied request or a failing hook
+       * leaves it to the user for another attempt. Consuming it again right before createAgent keeps it one-time
+       * when the same token is redeemed concurrently.
+       */
+      if (!(await auth.validateAuthToken(artifact.to, authToken)).isValid) {
+        return resCtx.sendError(BTP_ERROR_AUTHENTICATION_INVALID);
+      }
+
+      const document = await auth.createAgent(
+        { decidedBy: ctx.decidedBy, publicKey, userIdentity, agentInfo: ctx.agentInfo },
+        ctx.decryptBy,
+      );
+      resCtx.sendRes({
+        ...prepareResponse(
+          { ok: true, code: 200, message: 'Authentication successful' },
+          artifact.id,
+        ),
+        type: 'btps_response',
+        document,
+      });
+    },
+    'auth.refresh': async (artifact, resCtx) => {
+      if (rejectEncrypted(artifact, resCtx)) return;
+      const { authToken, publicKey, agentInfo } = artifact.document;
+
+      const validation = await auth.validateRefreshToken(artifact.agentId, authToken);
+      if (!validation.isValid) {
+        return resCtx.sendError(BTP_ERROR_AUTHENTICATION_INVALID);
+      }
+
+      const ctx = await createContext(artifact, validation.userIdentity, agentInfo);
+      const { data, error } = await auth.validateAndReissueRefreshToken(
+        artifact.agentId,
+        authToken,
+        {
+          decidedBy: ctx.decidedBy,
+          decryptBy: ctx.decryptBy,
+          publicKey,
+          agentInfo: ctx.agentInfo,
+        },
+      );
+      if (error || !data) {
+        return resCtx.sendError(BTP_ERROR_AUTHENTICATION_INVALID);
+      }
+
+      resCtx.sendRes({
+        ...prepareResponse(
+          { ok: true, code: 200, message: 'Refresh Auth Session Successful' },
+          artifact.id,
+        ),
+        type: 'btps_response',
+        document: data,
+      });
+    },
+  };
+}
@@ -6,7 +6,7 @@
  */
 
 import { BtpsServer } from 'server/btpsServer.js';
-import { BtpsServerOptions } from 'server/types.js';
+import { BtpsServerOptions, BtpsServerStopOptions } from 'server/types.js';
 
 /**
  * BtpsServerRegistry keeps track of multiple named BtpsServer instances.
@@ -31,10 +31,10 @@ export class BtpsServerRegistry {
     }
   }
 
-  static stop(id: string): void {
+  static async stop(id: string, options?: BtpsServerStopOptions): Promise<void> {
     const server = this.servers.get(id);
     if (server) {
-      server.stop();
+      await server.stop(options);
     } else {
       console.warn(`[BtpsServerRegistry] Server with id '${id}' not found.`);
     }
@@ -45,10 +45,9 @@ export class BtpsServerRegistry {
     await Promise.all(startPromises);
   }
 
-  static stopAll() {
-    for (const server of this.servers.values()) {
-      server.stop();
-    }
+  static async stopAll(options?: BtpsServerStopOptions) {
+    const stopPromises = Array.from(this.servers.values()).map((server) => server.stop(options));
+    await Promise.all(stopPromises);
   }
 
   static clear() {
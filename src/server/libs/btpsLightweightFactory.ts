@@ -5,8 +5,17 @@
  * https://www.apache.org/licenses/LICENSE-2.0
  */
 
-import type { BtpsServerOptions, ProcessedArtifact, ArtifactResCtx } from '../types.js';
 import type {
+  BtpsServerOptions,
+  BtpsServerStopOptions,
+  ProcessedArtifact,
+  ArtifactResCtx,
+  BtpsAgentActionHandler,
+  MiddlewareDefinitionArray,
+  MiddlewareModule,
+} from '../types.js';
+import type {
+  AgentAction,
   BTPStatus,
   BTPServerResponse,
   BTPAgentArtifact,
@@ -16,7 +25,7 @@ import type {
 // Type for the BtpsServer instance
 interface BtpsServerInstance {
   start(): Promise<void>;
-  stop(): void;
+  stop(options?: BtpsServerStopOptions): Promise<void>;
   forwardTo(handler: (msg: ProcessedArtifact) => Promise<void>): void;
   onIncomingArtifact(
     type: 'Agent' | 'Transporter',
@@ -24,8 +33,17 @@ interface BtpsServerInstance {
       | ((artifact: BTPAgentArtifact, resCtx: ArtifactResCtx) => void)
       | ((artifact: BTPTransporterArtifact) => void),
   ): void;
+  handleAgentAction<A extends AgentAction>(action: A, handler: BtpsAgentActionHandler<A>): void;
+  use(
+    middleware: MiddlewareDefinitionArray[number] | MiddlewareDefinitionArray | MiddlewareModule,
+  ): void;
+  removeMiddleware(name: string): boolean;
   getProtocolVersion(): string;
-  prepareBtpsResponse(status: BTPStatus, reqId?: string): Omit<BTPServerResponse, 'type'>;
+  prepareBtpsResponse(
+    status: BTPStatus,
+    reqId?: string,
+    version?: string,
+  ): Omit<BTPServerResponse, 'type'>;
 }
 
 /**
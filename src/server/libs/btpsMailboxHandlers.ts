@@ -0,0 +1,165 @@
+/**
+ * @license
+ * Copyright (c) 2025 Bhupendra Tamang
+ * Licensed under the Apache License, Version 2.0
+ * https://www.apache.org/licenses/LICENSE-2.0
+ */
+
+/**
+ * Built-in handlers serving the mailbox agent actions from a mailbox store
+ *
+ * The mailbox of an agent artifact is the identity it is addressed to (`artifact.to`).
+ * Deleting from inbox, outbox, sentbox or draft moves the artifact to trash, trash.delete removes it.
+ * Every response carries a BTPQueryResult, mutations return the entries they changed.
+ */
+import { randomUUID } from 'crypto';
+import { BTPErrorException, BTP_ERROR_INVALID_CURSOR } from '@core/error/index.js';
+import { AbstractMailboxStore } from '@core/storage/AbstractMailboxStore.js';
+import type { BTPMailboxFolder, BTPMailboxRecord } from '@core/storage/types.js';
+import type {
+  BTPDraftArtifact,
+  BTPQueryResult,
+  BTPServerResponse,
+  BTPStatus,
+  MailboxAction,
+} from '@core/server/types.js';
+import { computeMailboxId } from '@core/utils/index.js';
+import type { ArtifactResCtx, BtpsAgentActionHandler } from '../types.js';
+
+export type BtpsMailboxHandlers = { [A in MailboxAction]: BtpsAgentActionHandler<A> };
+
+type PrepareResponse = (status: BTPStatus, reqId?: string) => Omit<BTPServerResponse, 'type'>;
+
+export function createMailboxHandlers(
+  store: AbstractMailboxStore<BTPMailboxRecord>,
+  prepareResponse: PrepareResponse,
+): BtpsMailboxHandlers {
+  const respond = (resCtx: ArtifactResCtx, reqId: string, document: BTPQueryResult) =>
+    resCtx.sendRes({
+      ...prepareResponse({ ok: true, code: 200, message: 'success' }, reqId),
+      type: 'btps_response',
+      document,
+    });
+
+  const toResult = (records: BTPMailboxRecord[]): BTPQueryResult => ({
+    results: records.map(({ artifact, meta }) => ({ artifact, ...(meta ? { meta } : {}) })),
+    total: records.length,
+  });
+
+  /* encrypted documents are ciphertext the store cannot query or update */
+  const rejectEncrypted = (artifact: { encryption: unknown }, resCtx: ArtifactResCtx) => {
+    if (!artifact.encryption) return false;
+    resCtx.sendError({
+      code: 400,
+      message: 'Encrypted documents are not supported by the built-in mailbox handlers',
+    });
+    return true;
+  };
+
+  const getRecords = async (identity: string, folder: BTPMailboxFolder, ids: string[]) => {
+    const records = await Promise.all(
+      [...new Set(ids)].map((id) => store.getById(computeMailboxId(identity, id))),
+    );
+    return records.filter((record): record is BTPMailboxRecord => record?.folder === folder);
+  };
+
+  const fetchFolder =
+    (folder: BTPMailboxFolder): BtpsAgentActionHandler<`${BTPMailboxFolder}.fetch`> =>
+    async (artifact, resCtx) => {
+      if (rejectEncrypted(artifact, resCtx)) return;
+      try {
+        respond(resCtx, artifact.id, await store.fetch(artifact.to, folder, artifact.document));
+      } catch (error) {
+        /* malformed or foreign cursors are client errors, anything else is a server failure */
+        if (!(error instanceof BTPErrorException) || error.code !== BTP_ERROR_INVALID_CURSOR.code) {
+          throw error;
+        }
+        resCtx.sendError({ code: 400, message: error.message });
+      }
+    };
+
+  const moveToTrash =
+    (
+      folder: Exclude<BTPMailboxFolder, 'trash'>,
+    ): BtpsAgentActionHandler<
+      'inbox.delete' | 'outbox.cancel' | 'sentbox.delete' | 'draft.delete'
+    > =>
+    async (artifact, resCtx) => {
+      if (rejectEncrypted(artifact, resCtx)) return;
+      const records = await getRecords(artifact.to, folder, artifact.document.ids);
+      const updatedAt = new Date().toISOString();
+      const moved = await Promise.all(
+        records.map((record) =>
+          store.update(record.id, { folder: 'trash', previousFolder: folder, updatedAt }),
+        ),
+      );
+      respond(resCtx, artifact.id, toResult(moved));
+    };
+
+  return {
+    'inbox.fetch': fetchFolder('inbox'),
+    'inbox.seen': async (artifact, resCtx) => {
+      if (rejectEncrypted(artifact, resCtx)) return;
+      const records = await getRecords(artifact.to, 'inbox', artifact.document.ids);
+      const seenAt = new Date().toISOString();
+      const seen = await Promise.all(
+        records.map((record) =>
+          record.meta?.seen
+            ? record
+            : store.update(record.id, {
+                meta: { ...record.meta, seen: true, seenAt },
+                updatedAt: seenAt,
+              }),
+        ),
+      );
+      respond(resCtx, artifact.id, toResult(seen));
+    },
+    'inbox.delete': moveToTrash('inbox'),
+    'outbox.fetch': fetchFolder('outbox'),
+    'outbox.cancel': moveToTrash('outbox'),
+    'sentbox.fetch': fetchFolder('sentbox'),
+    'sentbox.delete': moveToTrash('sentbox'),
+    'draft.fetch': fetchFolder('draft'),
+    'draft.create': async (artifact, resCtx) => {
+      if (rejectEncrypted(artifact, resCtx)) return;
+      const createdAt = new Date().toISOString();
+      const draft: BTPDraftArtifact = {
+        id: randomUUID(),
+        issuedAt: createdAt,
+        type: artifact.document.type,
+        document: artifact.document.document,
+        from: artifact.to,
+      };
+      const record = await store.create({
+        identity: artifact.to,
+        folder: 'draft',
+        artifactId: draft.id,
+        artifact: draft,
+        createdAt,
+      });
+      respond(resCtx, artifact.id, toResult([record]));
+    },
+    'draft.update': async (artifact, resCtx) => {
+      if (rejectEncrypted(artifact, resCtx)) return;
+      const { id, document } = artifact.document;
+      const [record] = await getRecords(artifact.to, 'draft', [id]);
+      if (!record) {
+        return resCtx.sendError({ code: 404, message: `Draft ${id} not found` });
+      }
+      const updatedAt = new Date().toISOString();
+      const updated = await store.update(record.id, {
+        artifact: { ...(record.artifact as BTPDraftArtifact), document, updatedAt },
+        updatedAt,
+      });
+      respond(resCtx, artifact.id, toResult([updated]));
+    },
+    'draft.delete': moveToTrash('draft'),
+    'trash.fetch': fetchFolder('trash'),
+    'trash.delete': async (artifact, resCtx) => {
+      if (rejectEncrypted(artifact, resCtx)) return;
+      const records = await getRecords(artifact.to, 'trash', artifact.document.ids);
+      await Promise.all(records.map((record) => store.delete(record.id)));
+      respond(resCtx, artifact.id, toResult(records));
+    },
+  };
+}
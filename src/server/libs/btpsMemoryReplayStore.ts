@@ -0,0 +1,64 @@
+/**
+ * @license
+ * Copyright (c) 2025 Bhupendra Tamang
+ * Licensed under the Apache License, Version 2.0
+ * https://www.apache.org/licenses/LICENSE-2.0
+ */
+
+import { ReplayStore } from './abstractReplayStore.js';
+import { IReplayStoreOptions } from './type.js';
+
+/**
+ * In-memory seen-id store with LRU eviction.
+ * Suitable for single instance servers, use a shared store (e.g. Redis SET NX PX) when clustering.
+ */
+export class BtpsMemoryReplayStore implements ReplayStore {
+  private readonly maxEntries: number;
+  private readonly cleanupIntervalMs: number;
+  private readonly seen = new Map<string, number>();
+  private cleanupTimer?: NodeJS.Timeout;
+
+  constructor(options: IReplayStoreOptions = {}) {
+    this.maxEntries = Math.max(1, options.maxEntries ?? 100_000);
+    this.cleanupIntervalMs = (options.cleanupIntervalSec ?? 60) * 1000;
+
+    this.startCleanupTimer();
+  }
+
+  private startCleanupTimer() {
+    this.cleanupTimer = setInterval(() => this.cleanup(), this.cleanupIntervalMs);
+    this.cleanupTimer.unref(); // Prevents timer from blocking Node exit
+  }
+
+  public stopCleanupTimer() {
+    if (this.cleanupTimer) clearInterval(this.cleanupTimer);
+  }
+
+  public cleanup() {
+    const now = Date.now();
+    for (const [key, expiresAt] of this.seen.entries()) {
+      if (expiresAt <= now) this.seen.delete(key);
+    }
+  }
+
+  get size(): number {
+    return this.seen.size;
+  }
+
+  async markSeen(key: string, expiresAt: number): Promise<boolean> {
+    const existing = this.seen.get(key);
+    if (existing !== undefined && existing > Date.now()) return false;
+
+    this.seen.delete(key);
+    this.seen.set(key, expiresAt);
+
+    /* evict the oldest entries, their issuedAt falls out of the skew window first */
+    while (this.seen.size > this.maxEntries) {
+      const oldest = this.seen.keys().next().value;
+      if (oldest === undefined) break;
+      this.seen.delete(oldest);
+    }
+
+    return true;
+  }
+}
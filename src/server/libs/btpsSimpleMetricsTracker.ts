@@ -7,6 +7,7 @@
 
 import { BTPErrorException } from '@core/error/index.js';
 import { IMetricsTracker } from './type.js';
+import type { MiddlewareExecution } from '../types.js';
 
 export class BtpsSimpleMetricsTracker implements IMetricsTracker {
   onMessageReceived(sender: string, recipient?: string) {
@@ -20,4 +21,12 @@ export class BtpsSimpleMetricsTracker implements IMetricsTracker {
   onError(error: BTPErrorException) {
     console.error(`[Metrics] Error:`, error.toJSON());
   }
+
+  onMiddlewareExecuted(execution: MiddlewareExecution) {
+    if (execution.outcome === 'failed' || execution.outcome === 'timeout') {
+      console.warn(
+        `[Metrics] Middleware ${execution.name} ${execution.outcome} after ${execution.durationMs}ms`,
+      );
+    }
+  }
 }
@@ -6,8 +6,12 @@
  */
 
 export * from './abstractRateLimiter.js';
+export * from './abstractReplayStore.js';
+export * from './btpsAuthHandlers.js';
 export * from './btpsFactory.js';
 export * from './btpsLightweightFactory.js';
+export * from './btpsMailboxHandlers.js';
+export * from './btpsMemoryReplayStore.js';
 export * from './btpsRegistry.js';
 export * from './btpsSimpleMetricsTracker.js';
 export * from './btpsSimpleRateLimiter.js';
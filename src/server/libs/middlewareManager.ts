@@ -5,29 +5,46 @@
  * https://www.apache.org/licenses/LICENSE-2.0
  */
 
-import { existsSync } from 'fs';
-import { resolve } from 'path';
+import { EventEmitter } from 'events';
+import { existsSync, FSWatcher, watch } from 'fs';
+import { basename, dirname, resolve } from 'path';
+import { pathToFileURL } from 'url';
 import {
   MiddlewareDefinition,
   MiddlewareDefinitionArray,
+  MiddlewareLifecycleHooks,
+  MiddlewareManagerOptions,
   MiddlewareModule,
   MiddlewareContext,
+  MiddlewareExecution,
+  MiddlewareFailureAction,
+  MiddlewareMetrics,
   Phase,
   Step,
 } from '../types.js';
 import isEmpty from 'lodash/isEmpty.js';
-import { BTPErrorException } from '@core/error/index.js';
+import { BTPErrorException, transformToBTPErrorException } from '@core/error/index.js';
 import { BTPServerResponse } from '@core/server/types.js';
 
-export class MiddlewareManager {
+const MIDDLEWARE_FAILURE_ACTIONS: MiddlewareFailureAction[] = ['skip', 'reject', 'destroy'];
+
+export class MiddlewareManager extends EventEmitter {
   private middleware: MiddlewareDefinition[] = [];
-  private lifecycleHooks: {
-    onServerStart?: () => Promise<void> | void;
-    onServerStop?: () => Promise<void> | void;
-    onResponseSent?: (response: BTPServerResponse) => Promise<void> | void;
-  } = {};
+  private fileMiddleware: MiddlewareDefinition[] = [];
+  private codeMiddleware: MiddlewareDefinition[] = [];
+  private lifecycleHooks: MiddlewareLifecycleHooks = {};
+  private codeLifecycleHooks: MiddlewareLifecycleHooks[] = [];
+  private metrics = new Map<string, MiddlewareMetrics>();
+  private dependencies?: MiddlewareContext['dependencies'];
+  private watcher?: FSWatcher;
+  private reloadTimer?: NodeJS.Timeout;
+  private reloading: Promise<boolean> = Promise.resolve(true);
 
-  constructor(private middlewarePath?: string) {
+  constructor(
+    private middlewarePath?: string,
+    private readonly options: MiddlewareManagerOptions = {},
+  ) {
+    super();
     if (isEmpty(middlewarePath)) {
       this.middlewarePath = `${process.cwd()}/btps.middleware.mjs`;
     }
@@ -38,52 +55,221 @@ export class MiddlewareManager {
    */
   async loadMiddleware(dependencies: MiddlewareContext['dependencies']): Promise<void> {
     if (!this.middlewarePath) return;
+    this.dependencies = dependencies;
 
     const resolvedPath = resolve(this.middlewarePath);
 
     if (!existsSync(resolvedPath)) return;
 
     try {
-      // Dynamic import of the middleware file
-      const middlewareModule = await import(resolvedPath);
-      const createMiddleware = middlewareModule.default;
+      const { middleware, hooks } = await this.importMiddlewareModule(resolvedPath);
+      this.fileMiddleware = this.validateAndSortMiddleware(middleware);
+      this.lifecycleHooks = hooks;
 
-      if (typeof createMiddleware !== 'function') {
-        throw new BTPErrorException({ message: 'Middleware file must export a default function' });
-      }
+      this.mergeMiddleware();
+      console.log(`[MiddlewareManager] Loaded ${this.fileMiddleware.length} middleware`);
+    } catch (error) {
+      console.error('[MiddlewareManager] Failed to load middleware:', error);
+      throw new BTPErrorException({
+        message: `Failed to load middleware from ${resolvedPath}: ${error}`,
+      });
+    }
+
+    if (this.options.watch) this.watch(resolvedPath);
+  }
+
+  /**
+   * Re-imports the middleware file and swaps it in when every definition is valid
+   * The old onServerStop and the new onServerStart hooks are called around the swap, and a
+   * `reload` event reports the outcome. A failed reload keeps the current middleware.
+   * @returns true when the new middleware was swapped in
+   */
+  reloadMiddleware(): Promise<boolean> {
+    // Reloads are serialized so a slow import never overwrites a newer one
+    this.reloading = this.reloading.then(() => this.swapMiddleware());
+    return this.reloading;
+  }
+
+  /**
+   * Stops watching the middleware file
+   */
+  stopWatching() {
+    clearTimeout(this.reloadTimer);
+    this.reloadTimer = undefined;
+    this.watcher?.close();
+    this.watcher = undefined;
+  }
+
+  /**
+   * Imports a middleware file, bypassing the ESM module cache when `cacheBust` is set
+   */
+  private async importMiddlewareModule(
+    resolvedPath: string,
+    cacheBust?: string,
+  ): Promise<{ middleware: MiddlewareDefinitionArray; hooks: MiddlewareLifecycleHooks }> {
+    // Dynamic import of the middleware file
+    const middlewareModule = await import(
+      cacheBust ? `${pathToFileURL(resolvedPath).href}?update=${cacheBust}` : resolvedPath
+    );
+    const createMiddleware = middlewareModule.default;
 
-      const result = createMiddleware(dependencies);
+    if (typeof createMiddleware !== 'function') {
+      throw new BTPErrorException({ message: 'Middleware file must export a default function' });
+    }
 
-      if (this.isMiddlewareModule(result)) {
-        // New format with lifecycle hooks
-        this.middleware = this.validateAndSortMiddleware(result.middleware);
-        this.lifecycleHooks = {
+    const result = createMiddleware(this.dependencies);
+
+    if (this.isMiddlewareModule(result)) {
+      // New format with lifecycle hooks
+      return {
+        middleware: result.middleware,
+        hooks: {
           onServerStart: result.onServerStart,
           onServerStop: result.onServerStop,
           onResponseSent: result.onResponseSent,
-        };
-      } else if (Array.isArray(result)) {
-        // Legacy format - just array of middleware
-        this.middleware = this.validateAndSortMiddleware(result);
-      } else {
-        throw new BTPErrorException({
-          message: 'Middleware function must return an array or MiddlewareModule',
-        });
-      }
+        },
+      };
+    }
+    if (Array.isArray(result)) {
+      // Legacy format - just array of middleware
+      return { middleware: result, hooks: {} };
+    }
+
+    throw new BTPErrorException({
+      message: 'Middleware function must return an array or MiddlewareModule',
+    });
+  }
+
+  /**
+   * Watches the directory of the middleware file, editors often replace the file on save
+   */
+  private watch(resolvedPath: string) {
+    this.stopWatching();
+    const fileName = basename(resolvedPath);
+
+    this.watcher = watch(dirname(resolvedPath), (_event, changed) => {
+      if (changed !== fileName) return;
+      // Editors emit several events per save
+      clearTimeout(this.reloadTimer);
+      this.reloadTimer = setTimeout(() => {
+        this.reloadTimer = undefined;
+        void this.reloadMiddleware();
+      }, this.options.watchDebounceMs ?? 100);
+    });
+    this.watcher.unref();
+  }
 
-      console.log(`[MiddlewareManager] Loaded ${this.middleware.length} middleware`);
+  /**
+   * Performs a single reload, see reloadMiddleware
+   */
+  private async swapMiddleware(): Promise<boolean> {
+    const resolvedPath = resolve(this.middlewarePath as string);
+
+    let next: { middleware: MiddlewareDefinition[]; hooks: MiddlewareLifecycleHooks };
+    try {
+      if (!existsSync(resolvedPath)) {
+        throw new BTPErrorException({ message: 'Middleware file no longer exists' });
+      }
+      const { middleware, hooks } = await this.importMiddlewareModule(
+        resolvedPath,
+        `${Date.now()}`,
+      );
+      next = { middleware: this.validateAndSortMiddleware(middleware, true), hooks };
     } catch (error) {
-      console.error('[MiddlewareManager] Failed to load middleware:', error);
-      throw new BTPErrorException({
-        message: `Failed to load middleware from ${resolvedPath}: ${error}`,
-      });
+      const reloadError = new BTPErrorException(
+        { message: `Failed to reload middleware from ${resolvedPath}` },
+        { cause: transformToBTPErrorException(error) },
+      );
+      console.error('[MiddlewareManager] Failed to reload middleware:', error);
+      this.emit('reload', { success: false, path: resolvedPath, error: reloadError });
+      return false;
     }
+
+    const previousHooks = this.lifecycleHooks;
+    this.fileMiddleware = next.middleware;
+    this.lifecycleHooks = next.hooks;
+    this.mergeMiddleware();
+
+    await this.runHook(previousHooks, 'onServerStop');
+    await this.runHook(next.hooks, 'onServerStart');
+
+    console.log(`[MiddlewareManager] Reloaded ${next.middleware.length} middleware`);
+    this.emit('reload', {
+      success: true,
+      path: resolvedPath,
+      middlewareCount: next.middleware.length,
+    });
+    return true;
+  }
+
+  /**
+   * Registers middleware and lifecycle hooks in code
+   * Definitions go through the same validation as the middleware file but invalid ones
+   * throw instead of being skipped.
+   */
+  use(
+    middleware: MiddlewareDefinitionArray[number] | MiddlewareDefinitionArray | MiddlewareModule,
+  ) {
+    const definitions = this.isMiddlewareModule(middleware)
+      ? middleware.middleware
+      : Array.isArray(middleware)
+        ? middleware
+        : [middleware];
+
+    definitions.forEach((mw, index) => this.validateMiddlewareDefinition(mw, index));
+    this.codeMiddleware.push(
+      ...(definitions as MiddlewareDefinition[]).filter((mw) => mw.config?.enabled !== false),
+    );
+
+    if (this.isMiddlewareModule(middleware)) {
+      const { onServerStart, onServerStop, onResponseSent } = middleware;
+      this.codeLifecycleHooks.push({ onServerStart, onServerStop, onResponseSent });
+    }
+
+    this.mergeMiddleware();
+  }
+
+  /**
+   * Removes the file and code middleware registered under a name
+   * @returns true when at least one middleware was removed
+   */
+  removeMiddleware(name: string): boolean {
+    const count = this.fileMiddleware.length + this.codeMiddleware.length;
+    this.fileMiddleware = this.fileMiddleware.filter((mw) => mw.config?.name !== name);
+    this.codeMiddleware = this.codeMiddleware.filter((mw) => mw.config?.name !== name);
+    this.mergeMiddleware();
+
+    return this.fileMiddleware.length + this.codeMiddleware.length < count;
+  }
+
+  /**
+   * Merges file and code middleware by priority
+   * The sort is stable, so middleware of equal priority keeps file middleware first and
+   * code middleware in registration order.
+   */
+  private mergeMiddleware() {
+    this.middleware = this.sortByPriority([...this.fileMiddleware, ...this.codeMiddleware]);
+  }
+
+  /**
+   * Sorts middleware by priority (lower numbers first)
+   */
+  private sortByPriority(middleware: MiddlewareDefinition[]): MiddlewareDefinition[] {
+    return middleware.sort((a, b) => {
+      const priorityA = a.priority ?? Number.MAX_SAFE_INTEGER;
+      const priorityB = b.priority ?? Number.MAX_SAFE_INTEGER;
+      return priorityA - priorityB;
+    });
   }
 
   /**
    * Validates middleware definitions and sorts them by priority
+   * Invalid definitions are skipped, or throw when `strict` is set
    */
-  private validateAndSortMiddleware(middleware: MiddlewareDefinitionArray): MiddlewareDefinition[] {
+  private validateAndSortMiddleware(
+    middleware: MiddlewareDefinitionArray,
+    strict: boolean = false,
+  ): MiddlewareDefinition[] {
     if (!Array.isArray(middleware)) {
       throw new BTPErrorException({ message: 'Middleware must be an array' });
     }
@@ -99,16 +285,12 @@ export class MiddlewareManager {
           validMiddleware.push(mw);
         }
       } catch (error) {
+        if (strict) throw error;
         console.warn(`[MiddlewareManager] Skipping invalid middleware at index ${index}:`, error);
       }
     });
 
-    // Sort by priority (lower numbers first)
-    return validMiddleware.sort((a, b) => {
-      const priorityA = a.priority ?? Number.MAX_SAFE_INTEGER;
-      const priorityB = b.priority ?? Number.MAX_SAFE_INTEGER;
-      return priorityA - priorityB;
-    });
+    return this.sortByPriority(validMiddleware);
   }
 
   /**
@@ -168,6 +350,20 @@ export class MiddlewareManager {
         message: 'Middleware priority must be a non-negative integer',
       });
     }
+
+    const timeoutMs = middleware.config?.timeoutMs;
+    if (timeoutMs !== undefined && (typeof timeoutMs !== 'number' || !(timeoutMs >= 0))) {
+      throw new BTPErrorException({
+        message: 'Middleware timeoutMs must be a non-negative number',
+      });
+    }
+
+    const onFailure = middleware.config?.onFailure;
+    if (onFailure !== undefined && !MIDDLEWARE_FAILURE_ACTIONS.includes(onFailure)) {
+      throw new BTPErrorException({
+        message: `Middleware onFailure must be one of ${MIDDLEWARE_FAILURE_ACTIONS.join(', ')}`,
+      });
+    }
   }
 
   /**
@@ -196,6 +392,38 @@ export class MiddlewareManager {
     return [...this.middleware];
   }
 
+  /**
+   * Records the timing of a middleware execution
+   */
+  recordExecution(execution: MiddlewareExecution) {
+    const { name, phase, step, durationMs, outcome } = execution;
+    const key = `${phase}.${step}.${name}`;
+    const metrics = this.metrics.get(key) ?? {
+      name,
+      phase,
+      step,
+      calls: 0,
+      failures: 0,
+      timeouts: 0,
+      totalMs: 0,
+      maxMs: 0,
+    };
+
+    metrics.calls++;
+    if (outcome === 'failed') metrics.failures++;
+    if (outcome === 'timeout') metrics.timeouts++;
+    metrics.totalMs += durationMs;
+    metrics.maxMs = Math.max(metrics.maxMs, durationMs);
+    this.metrics.set(key, metrics);
+  }
+
+  /**
+   * Gets the execution totals of every middleware that ran
+   */
+  getMetrics(): MiddlewareMetrics[] {
+    return [...this.metrics.values()].map((metrics) => ({ ...metrics }));
+  }
+
   /**
    * Gets lifecycle hooks
    */
@@ -207,38 +435,50 @@ export class MiddlewareManager {
    * Executes server start lifecycle hooks
    */
   async onServerStart(): Promise<void> {
-    if (this.lifecycleHooks.onServerStart) {
-      try {
-        await this.lifecycleHooks.onServerStart();
-      } catch (error) {
-        console.error('[MiddlewareManager] Error in onServerStart hook:', error);
-      }
-    }
+    await this.runLifecycleHook('onServerStart');
   }
 
   /**
    * Executes server stop lifecycle hooks
    */
   async onServerStop(): Promise<void> {
-    if (this.lifecycleHooks.onServerStop) {
-      try {
-        await this.lifecycleHooks.onServerStop();
-      } catch (error) {
-        console.error('[MiddlewareManager] Error in onServerStop hook:', error);
-      }
-    }
+    await this.runLifecycleHook('onServerStop');
   }
 
   /**
    * Executes onResponseSent lifecycle hooks
    */
   async onResponseSent(response: BTPServerResponse): Promise<void> {
-    if (this.lifecycleHooks.onResponseSent) {
-      try {
-        await this.lifecycleHooks.onResponseSent(response);
-      } catch (error) {
-        console.error('[MiddlewareManager] Error in onResponseSent hook:', error);
-      }
+    await this.runLifecycleHook('onResponseSent', response);
+  }
+
+  /**
+   * Runs a lifecycle hook of the middleware file, then the ones registered in code
+   * A failing hook is logged and does not prevent the others from running.
+   */
+  private async runLifecycleHook(
+    name: keyof MiddlewareLifecycleHooks,
+    response?: BTPServerResponse,
+  ): Promise<void> {
+    for (const hooks of [this.lifecycleHooks, ...this.codeLifecycleHooks]) {
+      await this.runHook(hooks, name, response);
+    }
+  }
+
+  /**
+   * Runs one lifecycle hook, logging its failure
+   */
+  private async runHook(
+    hooks: MiddlewareLifecycleHooks,
+    name: keyof MiddlewareLifecycleHooks,
+    response?: BTPServerResponse,
+  ): Promise<void> {
+    const hook = hooks[name];
+    if (!hook) return;
+    try {
+      await hook(response as BTPServerResponse);
+    } catch (error) {
+      console.error(`[MiddlewareManager] Error in ${name} hook:`, error);
     }
   }
 }
@@ -5,16 +5,24 @@
  * https://www.apache.org/licenses/LICENSE-2.0
  */
 
+import type { MiddlewareExecution } from '../types.js';
+
 export interface IRateLimitOptions {
   ipAddress?: number;
   fromIdentity?: number;
   cleanupIntervalSec?: number;
 }
 
+export interface IReplayStoreOptions {
+  maxEntries?: number;
+  cleanupIntervalSec?: number;
+}
+
 export interface IMetricsTracker {
   onMessageReceived(sender: string, recipient?: string): void;
   onMessageRejected(sender: string, recipient: string, reason: string): void;
   onError(error: Error): void;
+  onMiddlewareExecuted?(execution: MiddlewareExecution): void;
 }
 
 export interface CounterRecord {
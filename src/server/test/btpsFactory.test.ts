@@ -96,6 +96,18 @@ describe('BtpsServerRegistry', () => {
     expect(closeSpy).toHaveBeenCalledTimes(2);
   });
 
+  it('drains every server on stopAll', async () => {
+    BtpsServerRegistry.register('a', serverA);
+    BtpsServerRegistry.register('b', serverB);
+    const stopA = vi.spyOn(serverA, 'stop');
+    const stopB = vi.spyOn(serverB, 'stop');
+
+    await BtpsServerRegistry.stopAll({ drainTimeoutMs: 500 });
+
+    expect(stopA).toHaveBeenCalledWith({ drainTimeoutMs: 500 });
+    expect(stopB).toHaveBeenCalledWith({ drainTimeoutMs: 500 });
+  });
+
   it('clear removes all servers', () => {
     BtpsServerRegistry.register('a', serverA);
     BtpsServerRegistry.register('b', serverB);
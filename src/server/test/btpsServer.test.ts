@@ -11,11 +11,25 @@ import { AbstractTrustStore } from '../../core/trust/storage/AbstractTrustStore.
 import { BTPTrustRecord } from '../../core/trust/types.js';
 import { EventEmitter } from 'events';
 import tls, { TlsOptions, TLSSocket } from 'tls';
-import { BTP_PROTOCOL_VERSION } from '../../core/server/constants/index.js';
+import {
+  AGENT_ACTIONS,
+  BTP_PROTOCOL_VERSION,
+  MAILBOX_ACTIONS,
+} from '../../core/server/constants/index.js';
 import JsonTrustStore from '../../core/trust/storage/JsonTrustStore.js';
 import path from 'path';
 import fs from 'fs/promises';
-import type { BTPRequestCtx, BTPResponseCtx, ProcessedArtifact, BtpsTlsOptions } from '../types.js';
+import type { IMetricsTracker } from '../libs/type.js';
+import type {
+  ArtifactResCtx,
+  MiddlewareDefinition,
+  BTPRequestCtx,
+  BTPResponseCtx,
+  ProcessedArtifact,
+  BtpsTlsOptions,
+  BtpsAuthContext,
+  BtpsAuthenticationOptions,
+} from '../types.js';
 import {
   BTPAgentArtifact,
   BTPAttestation,
@@ -23,8 +37,33 @@ import {
   BTPServerResponse,
   BTPStatus,
   BTPAuthReqDoc,
+  BTPQueryResult,
+  BTPTransporterArtifact,
+  BTPAuthResDoc,
 } from '../../core/server/types.js';
-import { BTPErrorException } from '../../core/error/index.js';
+import {
+  BTPErrorException,
+  BTP_ERROR_MIDDLEWARE_FAILURE,
+  BTP_ERROR_TIMEOUT,
+  BTP_ERROR_VALIDATION,
+  BTP_ERROR_AUTHENTICATION_INVALID,
+  BTP_ERROR_TRUST_BLOCKED,
+  BTP_ERROR_RESOLVE_DNS,
+  BTP_ERROR_CONNECTION_CLOSED,
+} from '../../core/error/index.js';
+import { decryptBtpPayload, signBtpPayload, verifySignature } from '../../core/crypto/index.js';
+import { generateKeyPairSync } from 'crypto';
+import { AbstractIdentityStore } from '../../core/storage/AbstractIdentityStore.js';
+import type { BTPIdentityRecord } from '../../core/storage/types.js';
+import { JsonMailboxStore } from '../../core/storage/JsonMailboxStore.js';
+import { BtpsTransporter } from '../../client/btpsTransporter.js';
+import { BtpsClient } from '../../client/btpsClient.js';
+import { InMemoryQueue } from '../../core/server/helpers/InMemoryQueue.js';
+import { BtpsStaticDnsResolver } from '../../core/dns/BtpsStaticDnsResolver.js';
+import { pemToBase64 } from '../../core/utils/index.js';
+import { BtpsAuthentication, InMemoryTokenStore } from '../../core/authentication/index.js';
+import { computeTrustId } from '../../core/trust/index.js';
+import { BtpServerResponseSchema } from '../../core/server/schemas/responseSchema.js';
 
 const TEST_FILE = path.join(__dirname, 'test-trust-store.json');
 
@@ -277,7 +316,7 @@ describe('BtpsServer', () => {
         const consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
 
         await server.start();
-        server.stop();
+        await server.stop();
 
         expect(closeSpy).toHaveBeenCalled();
         expect(consoleSpy).toHaveBeenCalledWith('✅ BtpsServer stopped');
@@ -289,8 +328,8 @@ describe('BtpsServer', () => {
         const consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
 
         await server.start();
-        server.stop();
-        server.stop(); // Should not throw
+        await server.stop();
+        await server.stop(); // Should not throw
 
         // The close method can be called multiple times on the same server instance
         expect(closeSpy).toHaveBeenCalledTimes(2);
@@ -300,6 +339,98 @@ describe('BtpsServer', () => {
       });
     });
 
+    describe('stop() draining', () => {
+      const connect = (target: BtpsServer) => {
+        const stream = new EventEmitter();
+        const socket = Object.assign(new EventEmitter(), {
+          remoteAddress: '127.0.0.1',
+          destroyed: false,
+          writableEnded: false,
+          writable: true,
+          write: vi.fn(),
+          setTimeout: vi.fn(),
+          pipe: vi.fn(() => stream),
+          end: vi.fn(() => {
+            socket.writableEnded = true;
+          }),
+          destroy: vi.fn(() => {
+            socket.destroyed = true;
+            socket.emit('close');
+          }),
+        });
+        // @ts-expect-error - test access to private method
+        target.handleConnection(socket as unknown as TLSSocket);
+        return { socket, stream };
+      };
+
+      beforeEach(() => {
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+      });
+
+      it('says goodbye to idle connections and resolves once they close', async () => {
+        const { socket } = connect(server);
+        const onServerStop = vi.spyOn(server['middlewareManager'], 'onServerStop');
+
+        let stopped = false;
+        const stopping = server.stop().then(() => (stopped = true));
+        await new Promise((resolve) => setImmediate(resolve));
+
+        expect(closeSpy).toHaveBeenCalled();
+        expect(JSON.parse(socket.write.mock.calls[0][0])).toMatchObject({
+          type: 'btps_response',
+          status: { ok: true, message: 'bye' },
+        });
+        expect(socket.end).toHaveBeenCalled();
+        expect(stopped).toBe(false);
+
+        socket.emit('close');
+        await stopping;
+        expect(onServerStop).toHaveBeenCalled();
+      });
+
+      it('lets in-flight artifacts finish before ending their connection', async () => {
+        const { socket, stream } = connect(server);
+        let finishRequest!: () => void;
+        server['executeMiddleware'] = vi.fn(
+          () => new Promise<boolean>((resolve) => (finishRequest = () => resolve(true))),
+        );
+        const handler = vi.fn();
+        server.onIncomingArtifact('Agent', handler);
+
+        stream.emit('data', '{"id":"in-flight"}');
+        const stopping = server.stop();
+        await new Promise((resolve) => setImmediate(resolve));
+
+        expect(socket.write).not.toHaveBeenCalled();
+        expect(server['emitter'].listenerCount('agentArtifact')).toBe(1);
+
+        finishRequest();
+        await new Promise((resolve) => setImmediate(resolve));
+        expect(socket.end).toHaveBeenCalled();
+
+        socket.emit('close');
+        await stopping;
+        expect(server['emitter'].listenerCount('agentArtifact')).toBe(0);
+      });
+
+      it('destroys connections still open after the drain timeout', async () => {
+        vi.useFakeTimers();
+        try {
+          const { socket } = connect(server);
+
+          const stopping = server.stop({ drainTimeoutMs: 1000 });
+          await vi.advanceTimersByTimeAsync(999);
+          expect(socket.destroy).not.toHaveBeenCalled();
+
+          await vi.advanceTimersByTimeAsync(1);
+          await stopping;
+          expect(socket.destroy).toHaveBeenCalled();
+        } finally {
+          vi.useRealTimers();
+        }
+      });
+    });
+
     describe('forwardTo()', () => {
       it('sets the handler function', () => {
         const handler = vi.fn();
@@ -341,6 +472,634 @@ describe('BtpsServer', () => {
         expect(handler2).toBeDefined();
       });
     });
+
+    describe('use() and removeMiddleware()', () => {
+      it('registers middleware for its phase and step and removes it by name', () => {
+        const handler = vi.fn(async (_req, _res, next) => next());
+        server.use({ phase: 'before', step: 'onArtifact', config: { name: 'audit' }, handler });
+
+        expect(server['middlewareManager'].getMiddleware('before', 'onArtifact')).toEqual([
+          expect.objectContaining({ handler }),
+        ]);
+        expect(server.removeMiddleware('audit')).toBe(true);
+        expect(server['middlewareManager'].getMiddleware('before', 'onArtifact')).toEqual([]);
+      });
+    });
+
+    describe('handleAgentAction()', () => {
+      const agentData = (action: string): ProcessedArtifact => ({
+        artifact: {
+          version: BTP_PROTOCOL_VERSION,
+          issuedAt: new Date().toISOString(),
+          encryption: null,
+          id: 'req-1',
+          agentId: 'agent-1',
+          action,
+          to: 'admin$a.com',
+          signature: { algorithmHash: 'sha256', value: 'sig', fingerprint: 'fp' },
+          document: { limit: 10 },
+        } as unknown as BTPAgentArtifact,
+        type: 'agent',
+        respondNow: true,
+      });
+      const createResCtx = () => {
+        let responseSent = false;
+        return {
+          socket: { destroyed: false, writableEnded: false },
+          sendRes: vi.fn(() => (responseSent = true)),
+          sendError: vi.fn(() => (responseSent = true)),
+          get responseSent() {
+            return responseSent;
+          },
+        } as unknown as BTPResponseCtx;
+      };
+
+      it('routes artifacts to the handler of their action only', async () => {
+        const resCtx = createResCtx();
+        const fallback = vi.fn();
+        const inboxHandler = vi.fn((artifact, res) => {
+          res.sendRes(server.prepareBtpsResponse({ ok: true, code: 200 }, artifact.id));
+        });
+        server.onIncomingArtifact('Agent', fallback);
+        server.handleAgentAction('inbox.fetch', inboxHandler);
+
+        const handled = await server['processMessage'](
+          agentData('inbox.fetch'),
+          resCtx,
+          {} as BTPRequestCtx,
+        );
+
+        expect(handled).toBe(true);
+        expect(inboxHandler).toHaveBeenCalledWith(
+          expect.objectContaining({ action: 'inbox.fetch', document: { limit: 10 } }),
+          expect.objectContaining({ sendRes: expect.any(Function) }),
+        );
+        expect(fallback).not.toHaveBeenCalled();
+        expect(resCtx.sendRes).toHaveBeenCalled();
+      });
+
+      it('answers 501 for actions without a handler', async () => {
+        const resCtx = createResCtx();
+        server.handleAgentAction('inbox.fetch', vi.fn());
+
+        const handled = await server['processMessage'](
+          agentData('draft.fetch'),
+          resCtx,
+          {} as BTPRequestCtx,
+        );
+
+        expect(handled).toBe(true);
+        expect(resCtx.sendError).toHaveBeenCalledWith(expect.objectContaining({ code: 501 }));
+      });
+
+      it('rejects duplicate and unknown actions', () => {
+        server.handleAgentAction('inbox.fetch', vi.fn());
+
+        expect(() => server.handleAgentAction('inbox.fetch', vi.fn())).toThrow(BTPErrorException);
+        expect(() => server.handleAgentAction('inbox.unknown' as 'inbox.fetch', vi.fn())).toThrow(
+          BTPErrorException,
+        );
+      });
+
+      describe('action deadlines', () => {
+        let onError: Mock;
+
+        beforeEach(() => {
+          vi.useFakeTimers();
+          onError = vi.fn();
+          server = new BtpsServer({
+            trustStore,
+            serverIdentity: { identity: 'test', publicKey: 'test', privateKey: 'test' },
+            tlsOptions: { key: 'test-key', cert: 'test-cert' },
+            actionTimeoutMs: 1000,
+            actionTimeouts: { 'draft.fetch': 50 },
+            onError,
+          });
+        });
+
+        afterEach(() => {
+          vi.useRealTimers();
+        });
+
+        it('answers with BTP_ERROR_TIMEOUT when the handler does not respond in time', async () => {
+          const resCtx = createResCtx();
+          let handlerResCtx: ArtifactResCtx | undefined;
+          server.handleAgentAction('inbox.fetch', (_artifact, res) => {
+            handlerResCtx = res;
+            return new Promise(() => {});
+          });
+
+          const processing = server['processMessage'](
+            agentData('inbox.fetch'),
+            resCtx,
+            {} as BTPRequestCtx,
+          );
+          await vi.advanceTimersByTimeAsync(999);
+          expect(resCtx.sendError).not.toHaveBeenCalled();
+          await vi.advanceTimersByTimeAsync(1);
+
+          expect(await processing).toBe(true);
+          expect(resCtx.sendError).toHaveBeenCalledWith(BTP_ERROR_TIMEOUT);
+
+          handlerResCtx?.sendRes({
+            ...server.prepareBtpsResponse({ ok: true, code: 200 }, 'req-1'),
+            type: 'btps_response',
+          });
+          expect(resCtx.sendRes).not.toHaveBeenCalled();
+          expect(onError).toHaveBeenCalledWith(
+            expect.objectContaining({
+              code: BTP_ERROR_TIMEOUT.code,
+              meta: expect.objectContaining({ reqId: 'req-1' }),
+            }),
+          );
+        });
+
+        it('reports handler errors after the deadline through onError only', async () => {
+          const resCtx = createResCtx();
+          const handleOnSocketError = vi.spyOn(server as never, 'handleOnSocketError');
+          server.handleAgentAction('draft.fetch', async () => {
+            await new Promise((resolve) => setTimeout(resolve, 100));
+            throw new Error('store unavailable');
+          });
+
+          const processing = server['processMessage'](
+            agentData('draft.fetch'),
+            resCtx,
+            {} as BTPRequestCtx,
+          );
+          await vi.advanceTimersByTimeAsync(50);
+          expect(await processing).toBe(true);
+          await vi.advanceTimersByTimeAsync(50);
+
+          expect(resCtx.sendError).toHaveBeenCalledTimes(1);
+          expect(handleOnSocketError).not.toHaveBeenCalled();
+          expect(onError).toHaveBeenCalledWith(
+            expect.objectContaining({ message: 'store unavailable' }),
+          );
+        });
+
+        it('applies per-action deadlines', async () => {
+          const resCtx = createResCtx();
+          server.handleAgentAction('draft.fetch', () => new Promise(() => {}));
+
+          const processing = server['processMessage'](
+            agentData('draft.fetch'),
+            resCtx,
+            {} as BTPRequestCtx,
+          );
+          await vi.advanceTimersByTimeAsync(50);
+
+          expect(await processing).toBe(true);
+          expect(resCtx.sendError).toHaveBeenCalledWith(BTP_ERROR_TIMEOUT);
+        });
+
+        it('does not time out handlers that respond in time', async () => {
+          const resCtx = createResCtx();
+          server.handleAgentAction('inbox.fetch', async (artifact, res) => {
+            await new Promise((resolve) => setTimeout(resolve, 500));
+            res.sendRes({
+              ...server.prepareBtpsResponse({ ok: true, code: 200 }, artifact.id),
+              type: 'btps_response',
+            });
+          });
+
+          const processing = server['processMessage'](
+            agentData('inbox.fetch'),
+            resCtx,
+            {} as BTPRequestCtx,
+          );
+          await vi.advanceTimersByTimeAsync(2000);
+
+          expect(await processing).toBe(true);
+          expect(resCtx.sendRes).toHaveBeenCalled();
+          expect(resCtx.sendError).not.toHaveBeenCalled();
+          expect(onError).not.toHaveBeenCalled();
+        });
+
+        it('replies immediately to immediate actions that only have a forward handler', async () => {
+          const resCtx = createResCtx();
+          server.forwardTo(vi.fn());
+
+          expect(
+            await server['processMessage'](agentData('inbox.fetch'), resCtx, {} as BTPRequestCtx),
+          ).toBe(true);
+          expect(resCtx.sendError).toHaveBeenCalledWith(expect.objectContaining({ code: 501 }));
+        });
+      });
+
+      it('advertises routed actions in the capabilities', () => {
+        server.handleAgentAction('inbox.fetch', vi.fn());
+        server.handleAgentAction('auth.request', vi.fn());
+
+        expect(server.getCapabilities().agentActions).toEqual(['inbox.fetch', 'auth.request']);
+      });
+    });
+
+    describe('built-in mailbox', () => {
+      const MAILBOX_FILE = path.join(__dirname, 'test-mailbox-store.json');
+      let mailboxStore: JsonMailboxStore;
+      let onError: Mock;
+
+      const invoiceDoc = (title: string) => ({
+        title,
+        id: 'inv-1',
+        issuedAt: new Date().toISOString(),
+        status: 'unpaid',
+        totalAmount: { value: 100, currency: 'USD' },
+        lineItems: { columns: ['Item'], rows: [{ Item: 'Hosting' }] },
+      });
+      const agentData = (action: string, document?: unknown): ProcessedArtifact => ({
+        artifact: {
+          version: BTP_PROTOCOL_VERSION,
+          issuedAt: new Date().toISOString(),
+          encryption: null,
+          id: `req-${action}`,
+          agentId: 'agent-1',
+          action,
+          to: 'alice$a.com',
+          signature: { algorithmHash: 'sha256', value: 'sig', fingerprint: 'fp' },
+          document,
+        } as unknown as BTPAgentArtifact,
+        type: 'agent',
+        respondNow: true,
+      });
+      const transporterData = (id: string): ProcessedArtifact => ({
+        artifact: {
+          version: BTP_PROTOCOL_VERSION,
+          issuedAt: new Date().toISOString(),
+          encryption: null,
+          id,
+          type: 'BTPS_DOC',
+          from: 'bob$b.com',
+          to: 'alice$a.com',
+          selector: 'btps1',
+          signature: { algorithmHash: 'sha256', value: 'sig', fingerprint: 'fp' },
+          document: invoiceDoc('Invoice'),
+        } as unknown as BTPTransporterArtifact,
+        type: 'transporter',
+      });
+      const createResCtx = () => {
+        let responseSent = false;
+        return {
+          socket: { destroyed: false, writableEnded: false },
+          sendRes: vi.fn(() => (responseSent = true)),
+          sendError: vi.fn(() => (responseSent = true)),
+          get responseSent() {
+            return responseSent;
+          },
+        } as unknown as BTPResponseCtx;
+      };
+      const run = async (data: ProcessedArtifact) => {
+        const resCtx = createResCtx();
+        const handled = await server['processMessage'](data, resCtx, {} as BTPRequestCtx);
+        return { handled, resCtx };
+      };
+      const resultIds = (resCtx: BTPResponseCtx) => {
+        const response = (resCtx.sendRes as Mock).mock.calls[0][0] as BTPServerResponse;
+        expect(BtpServerResponseSchema.safeParse(response).success).toBe(true);
+        return (response.document as BTPQueryResult).results.map(({ artifact }) => artifact.id);
+      };
+
+      beforeEach(async () => {
+        await fs.rm(MAILBOX_FILE, { force: true });
+        onError = vi.fn();
+        mailboxStore = new JsonMailboxStore({ connection: MAILBOX_FILE, entityName: 'mailbox' });
+        server = new BtpsServer({
+          trustStore,
+          serverIdentity: { identity: 'test', publicKey: 'test', privateKey: 'test' },
+          tlsOptions: { key: 'test-key', cert: 'test-cert' },
+          mailbox: { store: mailboxStore },
+          onError,
+        });
+        server.forwardTo(vi.fn());
+      });
+
+      afterEach(async () => {
+        await mailboxStore.flushNow();
+        await fs.rm(MAILBOX_FILE, { force: true });
+      });
+
+      it('registers and advertises every mailbox action', () => {
+        expect(server.getCapabilities().agentActions).toEqual(
+          expect.arrayContaining([...MAILBOX_ACTIONS]),
+        );
+        expect(() => server.handleAgentAction('inbox.fetch', vi.fn())).toThrow(BTPErrorException);
+      });
+
+      it('only registers the configured actions', () => {
+        server = new BtpsServer({
+          trustStore,
+          serverIdentity: { identity: 'test', publicKey: 'test', privateKey: 'test' },
+          tlsOptions: { key: 'test-key', cert: 'test-cert' },
+          mailbox: { store: mailboxStore, actions: ['inbox.fetch'] },
+        });
+
+        expect(server.getCapabilities().agentActions).toEqual(['inbox.fetch']);
+      });
+
+      it('stores delivered documents in the recipient inbox and serves them', async () => {
+        expect((await run(transporterData('doc-1'))).handled).toBe(false);
+        expect((await run(transporterData('doc-2'))).handled).toBe(false);
+
+        const { handled, resCtx } = await run(agentData('inbox.fetch', { limit: 10 }));
+
+        expect(handled).toBe(true);
+        expect(resultIds(resCtx)).toEqual(['doc-2', 'doc-1']);
+      });
+
+      it('keeps serving the mailbox after the server is stopped and started again', async () => {
+        const consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+        await server.start();
+        await server.stop();
+        await server.start();
+
+        await run(transporterData('doc-1'));
+        const { handled, resCtx } = await run(agentData('inbox.fetch', { limit: 10 }));
+
+        expect(handled).toBe(true);
+        expect(resultIds(resCtx)).toEqual(['doc-1']);
+        await server.stop();
+        consoleSpy.mockRestore();
+      });
+
+      it('serves bounces stored by the transporter failureStore', async () => {
+        const transporter = new BtpsTransporter({ failureStore: mailboxStore });
+        const outgoing = {
+          ...transporterData('doc-out').artifact,
+          from: 'alice$a.com',
+          to: 'bob$b.com',
+        } as BTPTransporterArtifact;
+        vi.spyOn(transporter as unknown as { send: () => unknown }, 'send').mockResolvedValue({
+          response: {
+            ...server['prepareBtpsResponse']({
+              ok: false,
+              code: 500,
+              message: BTP_ERROR_TRUST_BLOCKED.message,
+              errorCode: String(BTP_ERROR_TRUST_BLOCKED.code),
+            }),
+            type: 'btps_error',
+          },
+        });
+
+        await transporter.transport('bob$b.com', outgoing);
+        transporter.destroy();
+        const { resCtx } = await run(agentData('inbox.fetch', { limit: 10 }));
+
+        const response = (resCtx.sendRes as Mock).mock.calls[0][0] as BTPServerResponse;
+        const [bounce] = (response.document as BTPQueryResult).results;
+        expect(bounce.artifact).toEqual(
+          expect.objectContaining({
+            type: 'BTP_DELIVERY_FAILURE',
+            from: 'alice$a.com',
+            document: expect.objectContaining({
+              reason: BTP_ERROR_TRUST_BLOCKED.message,
+              transportArtifactId: 'doc-out',
+            }),
+          }),
+        );
+        expect(bounce.meta).toEqual({ seen: false });
+      });
+
+      it('does not store incoming documents when storeIncoming is disabled', async () => {
+        server = new BtpsServer({
+          trustStore,
+          serverIdentity: { identity: 'test', publicKey: 'test', privateKey: 'test' },
+          tlsOptions: { key: 'test-key', cert: 'test-cert' },
+          mailbox: { store: mailboxStore, storeIncoming: false },
+        });
+        server.forwardTo(vi.fn());
+        await run(transporterData('doc-1'));
+
+        expect((await mailboxStore.fetch('alice$a.com', 'inbox')).total).toBe(0);
+      });
+
+      it('answers 500 when an incoming document cannot be stored', async () => {
+        await run(transporterData('doc-1'));
+        const { handled, resCtx } = await run(transporterData('doc-1'));
+
+        expect(handled).toBe(true);
+        expect(resCtx.sendError).toHaveBeenCalledWith(expect.objectContaining({ code: 500 }));
+        expect(onError).toHaveBeenCalled();
+      });
+
+      it('marks inbox artifacts as seen', async () => {
+        await run(transporterData('doc-1'));
+        await run(agentData('inbox.seen', { ids: ['doc-1'] }));
+
+        const { results } = await mailboxStore.fetch('alice$a.com', 'inbox');
+        expect(results[0].meta).toEqual(expect.objectContaining({ seen: true }));
+      });
+
+      it('moves deleted artifacts to trash and removes them from there', async () => {
+        await run(transporterData('doc-1'));
+
+        const deleted = await run(agentData('inbox.delete', { ids: ['doc-1', 'unknown'] }));
+        expect(resultIds(deleted.resCtx)).toEqual(['doc-1']);
+        expect((await mailboxStore.fetch('alice$a.com', 'inbox')).total).toBe(0);
+        expect((await mailboxStore.fetch('alice$a.com', 'trash')).total).toBe(1);
+
+        await run(agentData('trash.delete', { ids: ['doc-1'] }));
+        expect((await mailboxStore.fetch('alice$a.com', 'trash')).total).toBe(0);
+      });
+
+      it('creates and updates drafts', async () => {
+        const created = await run(
+          agentData('draft.create', { type: 'BTPS_DOC', document: invoiceDoc('Draft') }),
+        );
+        const [draftId] = resultIds(created.resCtx);
+
+        const updated = await run(
+          agentData('draft.update', { id: draftId, document: invoiceDoc('Final') }),
+        );
+        const response = (updated.resCtx.sendRes as Mock).mock.calls[0][0] as BTPServerResponse;
+        const [entry] = (response.document as BTPQueryResult).results;
+        expect(entry.artifact).toEqual(
+          expect.objectContaining({
+            id: draftId,
+            from: 'alice$a.com',
+            document: expect.objectContaining({ title: 'Final' }),
+          }),
+        );
+
+        const missing = await run(
+          agentData('draft.update', { id: 'unknown', document: invoiceDoc('Final') }),
+        );
+        expect((missing.resCtx.sendError as Mock).mock.calls[0][0]).toEqual(
+          expect.objectContaining({ code: 404 }),
+        );
+      });
+    });
+
+    describe('built-in authentication', () => {
+      const AUTH_TRUST_FILE = path.join(__dirname, 'test-auth-trust-store.json');
+      const { publicKey } = generateKeyPairSync('ed25519', {
+        publicKeyEncoding: { type: 'spki', format: 'pem' },
+        privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+      });
+      let authTrustStore: JsonTrustStore;
+      let auth: BtpsAuthentication;
+
+      const authData = (
+        action: 'auth.request' | 'auth.refresh',
+        authToken: string,
+        agentId = 'btps_ag_pending',
+      ): ProcessedArtifact => ({
+        artifact: {
+          version: BTP_PROTOCOL_VERSION,
+          issuedAt: new Date().toISOString(),
+          encryption: null,
+          id: `req-${action}`,
+          agentId,
+          action,
+          to: 'alice$a.com',
+          signature: { algorithmHash: 'sha256', value: 'sig', fingerprint: 'fp' },
+          document: {
+            identity: 'alice$a.com',
+            authToken,
+            publicKey,
+            agentInfo: { device: 'phone' },
+          },
+        } as unknown as BTPAgentArtifact,
+        type: 'agent',
+        respondNow: true,
+      });
+      const createResCtx = () => {
+        let responseSent = false;
+        return {
+          socket: { destroyed: false, writableEnded: false },
+          sendRes: vi.fn(() => (responseSent = true)),
+          sendError: vi.fn(() => (responseSent = true)),
+          get responseSent() {
+            return responseSent;
+          },
+        } as unknown as BTPResponseCtx;
+      };
+      const run = async (data: ProcessedArtifact) => {
+        const resCtx = createResCtx();
+        await server['processMessage'](data, resCtx, {} as BTPRequestCtx);
+        return resCtx;
+      };
+      const authDocument = (resCtx: BTPResponseCtx) => {
+        const response = (resCtx.sendRes as Mock).mock.calls[0][0] as BTPServerResponse;
+        expect(BtpServerResponseSchema.safeParse(response).success).toBe(true);
+        return response.document as BTPAuthResDoc;
+      };
+      const createServer = (authentication: Omit<BtpsAuthenticationOptions, 'auth'> = {}) =>
+        new BtpsServer({
+          trustStore,
+          serverIdentity: { identity: 'server$a.com', publicKey: 'test', privateKey: 'test' },
+          tlsOptions: { key: 'test-key', cert: 'test-cert' },
+          authentication: { auth, ...authentication },
+        });
+      const issueToken = async () => {
+        const token = BtpsAuthentication.generateAuthToken('alice$a.com');
+        await auth.storeAuthToken(token, 'alice$a.com', 'server$a.com');
+        return token;
+      };
+
+      beforeEach(async () => {
+        await fs.rm(AUTH_TRUST_FILE, { force: true });
+        authTrustStore = new JsonTrustStore({ connection: AUTH_TRUST_FILE, entityName: 'agents' });
+        const tokenStore = new InMemoryTokenStore();
+        auth = new BtpsAuthentication({ trustStore: authTrustStore, tokenStore });
+        server = createServer();
+      });
+
+      afterEach(async () => {
+        await authTrustStore.flushNow();
+        await fs.rm(AUTH_TRUST_FILE, { force: true });
+      });
+
+      it('creates an agent for a valid auth token and refreshes its session', async () => {
+        const resCtx = await run(authData('auth.request', await issueToken()));
+        const { agentId, refreshToken, decryptBy } = authDocument(resCtx);
+
+        expect(decryptBy).toBe('server$a.com');
+        const record = await authTrustStore.getById(computeTrustId(agentId, 'alice$a.com'));
+        expect(record).toEqual(
+          expect.objectContaining({
+            decidedBy: 'alice$a.com',
+            metadata: { agentInfo: { device: 'phone' } },
+          }),
+        );
+
+        const refreshed = authDocument(await run(authData('auth.refresh', refreshToken, agentId)));
+        expect(refreshed.agentId).toBe(agentId);
+        expect(refreshed.refreshToken).not.toBe(refreshToken);
+      });
+
+      it('rejects invalid auth and refresh tokens', async () => {
+        const request = await run(authData('auth.request', 'unknown-token'));
+        const refresh = await run(authData('auth.refresh', 'unknown-token', 'btps_ag_1'));
+
+        expect((request.sendError as Mock).mock.calls[0][0]).toEqual(
+          BTP_ERROR_AUTHENTICATION_INVALID,
+        );
+        expect((refresh.sendError as Mock).mock.calls[0][0]).toEqual(
+          BTP_ERROR_AUTHENTICATION_INVALID,
+        );
+      });
+
+      it('applies the decidedBy and decryptBy policy and enriches agentInfo', async () => {
+        const enrichAgentInfo = vi.fn((ctx: BtpsAuthContext) => ({
+          ...ctx.agentInfo,
+          approvedVia: 'policy',
+        }));
+        server = createServer({
+          decidedBy: 'admin$a.com',
+          decryptBy: async (ctx) => `vault$${ctx.userIdentity.split('$')[1]}`,
+          enrichAgentInfo,
+        });
+
+        const { agentId, decryptBy } = authDocument(
+          await run(authData('auth.request', await issueToken())),
+        );
+
+        expect(decryptBy).toBe('vault$a.com');
+        expect(enrichAgentInfo).toHaveBeenCalledWith(
+          expect.objectContaining({ userIdentity: 'alice$a.com', serverIdentity: 'server$a.com' }),
+        );
+        expect(await authTrustStore.getById(computeTrustId(agentId, 'alice$a.com'))).toEqual(
+          expect.objectContaining({
+            decidedBy: 'admin$a.com',
+            metadata: { agentInfo: { device: 'phone', approvedVia: 'policy' } },
+          }),
+        );
+      });
+
+      it('denies agents rejected by approveAgent', async () => {
+        server = createServer({ approveAgent: () => false });
+
+        const resCtx = await run(authData('auth.request', await issueToken()));
+
+        expect((resCtx.sendError as Mock).mock.calls[0][0]).toEqual(
+          expect.objectContaining({ code: 403 }),
+        );
+        expect(await authTrustStore.getAll()).toEqual([]);
+      });
+
+      it('keeps the auth token until the agent is approved', async () => {
+        const authToken = await issueToken();
+        const enrichAgentInfo = vi.fn().mockRejectedValueOnce(new Error('directory unavailable'));
+        server = createServer({ enrichAgentInfo });
+        const socket = { destroyed: true };
+        await server['processMessage'](authData('auth.request', authToken), createResCtx(), {
+          socket,
+        } as unknown as BTPRequestCtx);
+        server = createServer({ approveAgent: () => false });
+        await run(authData('auth.request', authToken));
+
+        server = createServer();
+        const { agentId } = authDocument(await run(authData('auth.request', authToken)));
+        const reused = await run(authData('auth.request', authToken));
+
+        expect(agentId).toBeDefined();
+        expect((reused.sendError as Mock).mock.calls[0][0]).toEqual(
+          BTP_ERROR_AUTHENTICATION_INVALID,
+        );
+        expect(await authTrustStore.getAll()).toHaveLength(1);
+      });
+    });
   });
 
   describe('Error Handling', () => {
@@ -552,6 +1311,194 @@ describe('BtpsServer', () => {
       server.forwardTo(handler);
       expect(handler).toBeDefined();
     });
+
+    describe('transporter deliveries', () => {
+      const sender = generateKeyPairSync('rsa', {
+        modulusLength: 2048,
+        publicKeyEncoding: { type: 'spki', format: 'pem' },
+        privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+      });
+      const signed = (overrides: Partial<BTPTransporterArtifact> = {}): BTPTransporterArtifact => {
+        const payload = {
+          version: BTP_PROTOCOL_VERSION,
+          issuedAt: new Date().toISOString(),
+          encryption: null,
+          id: `doc-${Math.random().toString(36).slice(2)}`,
+          type: 'BTPS_DOC' as const,
+          from: 'bob$b.com',
+          to: 'alice$a.com',
+          selector: 'btps1',
+          document: {
+            title: 'Invoice',
+            id: 'inv-1',
+            issuedAt: new Date().toISOString(),
+            status: 'unpaid',
+            totalAmount: { value: 100, currency: 'USD' },
+            lineItems: { columns: ['Item'], rows: [{ Item: 'Hosting' }] },
+          },
+          ...overrides,
+        };
+        return { ...payload, signature: signBtpPayload(payload, sender) } as BTPTransporterArtifact;
+      };
+
+      /* a receiver connection that resolves the sender key, trusting nobody */
+      const connectReceiver = () => {
+        const receiver = new BtpsServer({
+          trustStore,
+          serverIdentity: { identity: 'test', publicKey: 'test', privateKey: 'test' },
+          tlsOptions: { key: 'test-key', cert: 'test-cert' },
+          dnsResolver: new BtpsStaticDnsResolver({
+            'btps1._btps.identity.bob.b.com': `v=1.0.0;k=rsa;p=${pemToBase64(sender.publicKey)}`,
+          }),
+        });
+        const stream = new EventEmitter();
+        const socket = Object.assign(new EventEmitter(), {
+          remoteAddress: '127.0.0.1',
+          destroyed: false,
+          writableEnded: false,
+          writable: true,
+          write: vi.fn(),
+          setTimeout: vi.fn(),
+          pipe: vi.fn(() => stream),
+          unpipe: vi.fn(),
+          destroy: vi.fn(),
+        });
+
+        // @ts-expect-error - test access to private method
+        receiver.handleConnection(socket as unknown as TLSSocket);
+        return { receiver, socket, stream };
+      };
+
+      /* sends every artifact the transporter clients send over the receiver connection, rewrite alters it on the wire */
+      const deliverTo = (
+        { socket, stream }: ReturnType<typeof connectReceiver>,
+        rewrite = (artifact: BTPTransporterArtifact): object => artifact,
+      ) =>
+        vi
+          .spyOn(
+            BtpsClient.prototype as unknown as { send: (...args: unknown[]) => unknown },
+            'send',
+          )
+          .mockImplementation(async (...args: unknown[]) => {
+            const written = socket.write.mock.calls.length;
+            stream.emit('data', JSON.stringify(rewrite(args[0] as BTPTransporterArtifact)));
+            await vi.waitFor(() => expect(socket.write.mock.calls.length).toBeGreaterThan(written));
+            return { response: JSON.parse(socket.write.mock.calls[written][0] as string) };
+          });
+
+      it.each([
+        {
+          name: 'an invalid signature',
+          errorCode: 'BTP_ERROR_SIG_VERIFICATION',
+          rewrite: (artifact: BTPTransporterArtifact) => ({ ...artifact, id: 'tampered' }),
+        },
+        {
+          name: 'a replayed artifact',
+          errorCode: 'BTP_ERROR_REPLAY',
+          artifact: () => signed({ issuedAt: new Date(Date.now() - 60 * 60 * 1000).toISOString() }),
+        },
+        {
+          name: 'an invalid artifact',
+          errorCode: 'BTP_ERROR_VALIDATION',
+          rewrite: ({ selector: _selector, ...artifact }: BTPTransporterArtifact) => artifact,
+        },
+        {
+          name: 'an unsupported protocol version',
+          errorCode: 'BTP_ERROR_UNSUPPORTED_VERSION',
+          rewrite: (artifact: BTPTransporterArtifact) => ({ ...artifact, version: '9.0.0' }),
+        },
+        {
+          name: 'an untrusted sender',
+          errorCode: 'BTP_ERROR_TRUST_NOT_ALLOWED',
+        },
+      ])('reports $name as a delivery failure without queueing it', async (rejection) => {
+        const connection = connectReceiver();
+        const queue = new InMemoryQueue();
+        const onDeliveryFailure = vi.fn();
+        const transporter = new BtpsTransporter({
+          queue: { store: queue, signer: sender },
+          onDeliveryFailure,
+        });
+        deliverTo(connection, rejection.rewrite);
+
+        const result = await transporter.transport('alice$a.com', (rejection.artifact ?? signed)());
+        transporter.destroy();
+
+        expect(result.response?.status).toMatchObject({
+          ok: false,
+          errorCode: rejection.errorCode,
+        });
+        expect(result.queued).toBeUndefined();
+        expect(await queue.getPending()).toEqual([]);
+        expect(onDeliveryFailure).toHaveBeenCalledTimes(1);
+        expect(onDeliveryFailure.mock.calls[0][0].document.errorLog.code).toBe(rejection.errorCode);
+      });
+
+      it('re-signs queued retries so they pass the replay guard of the receiver', async () => {
+        vi.spyOn(trustStore, 'getById').mockResolvedValue({ status: 'accepted' } as BTPTrustRecord);
+        const queue = new InMemoryQueue();
+        const transporter = new BtpsTransporter({
+          queue: { store: queue, baseDelayMs: 0, jitter: 0, signer: sender },
+        });
+        const send = deliverTo(connectReceiver());
+        send.mockResolvedValueOnce({ error: new BTPErrorException(BTP_ERROR_RESOLVE_DNS) });
+        const onDelivered = vi.fn();
+        transporter.on('artifactDelivered', onDelivered);
+        const artifact = signed();
+
+        expect((await transporter.transport('alice$a.com', artifact)).queued).toBe(true);
+        /* the retry runs after the original issuedAt left the replay window */
+        vi.useFakeTimers({ toFake: ['Date'] });
+        try {
+          vi.setSystemTime(Date.now() + 10 * 60 * 1000);
+          await transporter.flushQueue();
+        } finally {
+          vi.useRealTimers();
+          transporter.destroy();
+        }
+
+        expect(onDelivered).toHaveBeenCalledWith(
+          artifact.id,
+          'alice$a.com',
+          expect.objectContaining({ status: expect.objectContaining({ ok: true }) }),
+        );
+        expect(await queue.getPending()).toEqual([]);
+      });
+
+      it('treats a replay rejection of a retried artifact as delivered', async () => {
+        vi.spyOn(trustStore, 'getById').mockResolvedValue({ status: 'accepted' } as BTPTrustRecord);
+        const queue = new InMemoryQueue();
+        const onDeliveryFailure = vi.fn();
+        const transporter = new BtpsTransporter({
+          queue: { store: queue, baseDelayMs: 0, jitter: 0, prepareRetry: (artifact) => artifact },
+          onDeliveryFailure,
+        });
+        const send = deliverTo(connectReceiver());
+        const deliver = send.getMockImplementation()!;
+        /* the receiver processes the first attempt but its response never arrives */
+        send.mockImplementationOnce(async (...args: unknown[]) => {
+          await deliver(...args);
+          return { error: new BTPErrorException(BTP_ERROR_CONNECTION_CLOSED) };
+        });
+        const onDelivered = vi.fn();
+        transporter.on('artifactDelivered', onDelivered);
+        const artifact = signed();
+
+        expect((await transporter.transport('alice$a.com', artifact)).queued).toBe(true);
+        await transporter.flushQueue();
+        transporter.destroy();
+
+        expect(onDelivered).toHaveBeenCalledWith(
+          artifact.id,
+          'alice$a.com',
+          expect.objectContaining({
+            status: expect.objectContaining({ ok: false, errorCode: 'BTP_ERROR_REPLAY' }),
+          }),
+        );
+        expect(onDeliveryFailure).not.toHaveBeenCalled();
+        expect(await queue.getPending()).toEqual([]);
+      });
+    });
   });
 
   // --- Additional tests for 100% coverage ---
@@ -667,6 +1614,7 @@ export default function () {
         socket: mockSocket,
         remoteAddress: '127.0.0.1',
         startTime: new Date().toISOString(),
+        connectionStats: { bytesReceived: 0, artifactsReceived: 0, pendingBytes: 0 },
         sendError: (error: { code: number; message: string }) => {
           if (!responseSent) {
             responseSent = true;
@@ -1045,6 +1993,86 @@ export default function () {
       expect(res2.isTrusted).toBe(true);
     });
 
+    it('covers verifyReplay for stale, future and duplicate artifacts', async () => {
+      const artifact = {
+        version: '1.0.0',
+        id: 'replay-id',
+        type: 'TRUST_REQ' as const,
+        from: 'from$domain.com',
+        to: 'to$domain.com',
+        issuedAt: new Date().toISOString(),
+        signature: { algorithmHash: 'sha256' as const, value: 'v', fingerprint: 'f' },
+        encryption: null,
+        document: 'document',
+        selector: 'selector',
+      };
+
+      // @ts-expect-error - test access to private method
+      const first = await server.verifyReplay({ artifact, type: 'transporter' });
+      expect(first.isFresh).toBe(true);
+
+      // @ts-expect-error - test access to private method
+      const replayed = await server.verifyReplay({ artifact, type: 'transporter' });
+      expect(replayed.isFresh).toBe(false);
+      expect(replayed.error?.code).toBe('BTP_ERROR_REPLAY');
+
+      // same id from another sender is not a replay
+      // @ts-expect-error - test access to private method
+      const otherSender = await server.verifyReplay({
+        artifact: { ...artifact, from: 'other$domain.com' },
+        type: 'transporter',
+      });
+      expect(otherSender.isFresh).toBe(true);
+
+      for (const offsetMs of [-10 * 60 * 1000, 10 * 60 * 1000]) {
+        // @ts-expect-error - test access to private method
+        const result = await server.verifyReplay({
+          artifact: {
+            ...artifact,
+            id: `skewed-${offsetMs}`,
+            issuedAt: new Date(Date.now() + offsetMs).toISOString(),
+          },
+          type: 'transporter',
+        });
+        expect(result.isFresh).toBe(false);
+        expect(result.error?.code).toBe('BTP_ERROR_REPLAY');
+      }
+    });
+
+    it('uses the configured replay store and clock skew window', async () => {
+      const store = { markSeen: vi.fn().mockResolvedValue(true), cleanup: vi.fn() };
+      const replayServer = new BtpsServer({
+        trustStore,
+        serverIdentity: { identity: 'test', publicKey: 'test', privateKey: 'test' },
+        tlsOptions: { key: 'test-key', cert: 'test-cert' },
+        replayProtection: { clockSkewMs: 1000, store },
+      });
+      const issuedAt = new Date().toISOString();
+
+      // @ts-expect-error - test access to private method
+      const result = await replayServer.verifyReplay({
+        artifact: { id: 'agent-req', agentId: 'btps_ag_1', issuedAt } as BTPAgentArtifact,
+        type: 'agent',
+      });
+      expect(result.isFresh).toBe(true);
+      expect(store.markSeen).toHaveBeenCalledWith(
+        'btps_ag_1:agent-req',
+        Date.parse(issuedAt) + 1000,
+      );
+
+      // @ts-expect-error - test access to private method
+      const stale = await replayServer.verifyReplay({
+        artifact: {
+          id: 'agent-req-2',
+          agentId: 'btps_ag_1',
+          issuedAt: new Date(Date.now() - 2000).toISOString(),
+        } as BTPAgentArtifact,
+        type: 'agent',
+      });
+      expect(stale.isFresh).toBe(false);
+      expect(store.markSeen).toHaveBeenCalledTimes(1);
+    });
+
     it('covers _parseAndValidateArtifact branches', () => {
       // Valid transporter
       // @ts-expect-error - test access to private method
@@ -1069,6 +2097,293 @@ export default function () {
       // @ts-expect-error - test access to private method
       const invalid2 = server._parseAndValidateArtifact(JSON.stringify({ foo: 'bar' }));
       expect(invalid2.error).toBe('VALIDATION');
+      // Unsupported protocol version
+      // @ts-expect-error - test access to private method
+      const unsupported = server._parseAndValidateArtifact(
+        JSON.stringify({
+          version: '9.0.0',
+          id: 'id',
+          issuedAt: new Date().toISOString(),
+          action: 'QUIT',
+        }),
+      );
+      expect(unsupported.error).toBe('VERSION');
+      expect(unsupported.data?.type).toBe('control');
+    });
+
+    it('rejects unsupported versions listing the supported ones', () => {
+      const socket = {
+        destroyed: false,
+        writableEnded: false,
+        writable: true,
+        write: vi.fn(),
+      } as unknown as TLSSocket;
+
+      // @ts-expect-error - test access to private method
+      server.sendUnsupportedVersion(socket, 'req-1', '9.0.0');
+
+      const response = JSON.parse((socket.write as Mock).mock.calls[0][0]);
+      expect(response).toMatchObject({
+        type: 'btps_error',
+        reqId: 'req-1',
+        status: { ok: false, code: 505 },
+        document: {
+          minVersion: '1.0.0',
+          maxVersion: '1.1.0',
+          supportedVersions: ['1.0.0', '1.1.0'],
+        },
+      });
+    });
+
+    it('answers a PING control artifact with a pong document', async () => {
+      const socket = {
+        destroyed: false,
+        writableEnded: false,
+        writable: true,
+        write: vi.fn(),
+        end: vi.fn(),
+      } as unknown as TLSSocket;
+      const issuedAt = new Date(Date.now() - 50).toISOString();
+
+      // @ts-expect-error - test access to private method
+      await server.handleControl(
+        { version: BTP_PROTOCOL_VERSION, id: 'ping-1', issuedAt, action: 'PING' },
+        { req: {} as BTPRequestCtx, res: { socket, reqId: 'ping-1' } as BTPResponseCtx },
+      );
+
+      const response = JSON.parse((socket.write as Mock).mock.calls[0][0]);
+      expect(response).toMatchObject({
+        type: 'btps_response',
+        reqId: 'ping-1',
+        status: { ok: true, code: 200, message: 'pong' },
+        document: { pingIssuedAt: issuedAt },
+      });
+      expect(response.document.latencyMs).toBeGreaterThanOrEqual(0);
+      expect(socket.end).not.toHaveBeenCalled();
+    });
+
+    it('answers CAPABILITIES with a signed capabilities document', async () => {
+      const { publicKey, privateKey } = generateKeyPairSync('ed25519', {
+        publicKeyEncoding: { type: 'spki', format: 'pem' },
+        privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+      });
+      const capabilitiesServer = new BtpsServer({
+        trustStore,
+        serverIdentity: { identity: 'admin$example.com', publicKey, privateKey },
+        tlsOptions: { key: 'test-key', cert: 'test-cert' },
+      });
+      capabilitiesServer.forwardTo(async () => {});
+      const socket = {
+        destroyed: false,
+        writableEnded: false,
+        writable: true,
+        write: vi.fn(),
+        end: vi.fn(),
+      } as unknown as TLSSocket;
+
+      // @ts-expect-error - test access to private method
+      await capabilitiesServer.handleControl(
+        {
+          version: BTP_PROTOCOL_VERSION,
+          id: 'caps-1',
+          issuedAt: new Date().toISOString(),
+          action: 'CAPABILITIES',
+          hostSelector: 'btps1',
+        },
+        { req: {} as BTPRequestCtx, res: { socket, reqId: 'caps-1' } as BTPResponseCtx },
+      );
+
+      const { signature, ...signedMsg } = JSON.parse((socket.write as Mock).mock.calls[0][0]);
+      expect(signedMsg).toMatchObject({
+        type: 'btps_response',
+        reqId: 'caps-1',
+        selector: 'btps1',
+        signedBy: 'admin$example.com',
+        document: {
+          supportedVersions: ['1.0.0', '1.1.0'],
+          artifactTypes: ['TRUST_REQ', 'TRUST_RES', 'BTPS_DOC'],
+          limits: { connectionTimeoutMs: 30000 },
+        },
+      });
+      expect(signedMsg.document.agentActions).toEqual([
+        'trust.request',
+        'trust.respond',
+        'artifact.send',
+      ]);
+      expect(signedMsg.document.crypto.encryptionModes).toContain('2faEncrypt');
+      expect(verifySignature(signedMsg, signature, publicKey).isValid).toBe(true);
+      expect(socket.end).not.toHaveBeenCalled();
+    });
+
+    it('rejects CAPABILITIES without a host selector', async () => {
+      const socket = {
+        destroyed: false,
+        writableEnded: false,
+        writable: true,
+        write: vi.fn(),
+        end: vi.fn(),
+      } as unknown as TLSSocket;
+
+      // @ts-expect-error - test access to private method
+      await server.handleControl(
+        {
+          version: BTP_PROTOCOL_VERSION,
+          id: 'caps-2',
+          issuedAt: new Date().toISOString(),
+          action: 'CAPABILITIES',
+        },
+        { req: {} as BTPRequestCtx, res: { socket, reqId: 'caps-2' } as BTPResponseCtx },
+      );
+
+      const response = JSON.parse((socket.write as Mock).mock.calls[0][0]);
+      expect(response).toMatchObject({ type: 'btps_error', reqId: 'caps-2' });
+      expect(response.signature).toBeUndefined();
+    });
+
+    it('advertises agent actions according to the registered handlers', () => {
+      expect(server.getCapabilities().agentActions).toEqual([]);
+
+      server.onIncomingArtifact('Agent', () => {});
+      expect(server.getCapabilities().agentActions).toEqual([...AGENT_ACTIONS]);
+    });
+
+    it('sends heartbeats on idle connections until the socket closes', () => {
+      vi.useFakeTimers();
+      try {
+        const heartbeatServer = new BtpsServer({
+          port: 3449,
+          trustStore,
+          serverIdentity: { identity: 'test', publicKey: 'test', privateKey: 'test' },
+          tlsOptions: { key: 'test-key', cert: 'test-cert' },
+          heartbeatIntervalMs: 1000,
+        });
+        const stream = new EventEmitter();
+        const socket = Object.assign(new EventEmitter(), {
+          remoteAddress: '127.0.0.1',
+          destroyed: false,
+          writableEnded: false,
+          writable: true,
+          write: vi.fn(),
+          setTimeout: vi.fn(),
+          pipe: vi.fn(() => stream),
+        });
+
+        // @ts-expect-error - test access to private method
+        heartbeatServer.handleConnection(socket as unknown as TLSSocket);
+
+        vi.advanceTimersByTime(1000);
+        expect(socket.write).toHaveBeenCalledTimes(1);
+        expect(JSON.parse(socket.write.mock.calls[0][0])).toMatchObject({ action: 'PING' });
+
+        // Inbound data resets the idle clock
+        vi.advanceTimersByTime(500);
+        stream.emit('data', '');
+        vi.advanceTimersByTime(500);
+        expect(socket.write).toHaveBeenCalledTimes(1);
+
+        socket.emit('close');
+        vi.advanceTimersByTime(5000);
+        expect(socket.write).toHaveBeenCalledTimes(1);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    describe('frame limits', () => {
+      const createConnection = (options: {
+        maxArtifactBytes?: number;
+        headerTimeoutMs?: number;
+      }) => {
+        const limitedServer = new BtpsServer({
+          port: 3450,
+          trustStore,
+          serverIdentity: { identity: 'test', publicKey: 'test', privateKey: 'test' },
+          tlsOptions: { key: 'test-key', cert: 'test-cert' },
+          ...options,
+        });
+        const stream = new EventEmitter();
+        const socket = Object.assign(new EventEmitter(), {
+          remoteAddress: '127.0.0.1',
+          destroyed: false,
+          writableEnded: false,
+          writable: true,
+          write: vi.fn(),
+          setTimeout: vi.fn(),
+          pipe: vi.fn(() => stream),
+          unpipe: vi.fn(),
+          destroy: vi.fn(() => {
+            socket.destroyed = true;
+          }),
+        });
+
+        // @ts-expect-error - test access to private method
+        limitedServer.handleConnection(socket as unknown as TLSSocket);
+        return { limitedServer, socket, stream };
+      };
+
+      const writtenResponse = (socket: { write: Mock }) =>
+        JSON.parse(socket.write.mock.calls[0][0] as string);
+
+      it('rejects an unterminated artifact larger than maxArtifactBytes', async () => {
+        const { socket, stream } = createConnection({ maxArtifactBytes: 16 });
+
+        socket.emit('data', Buffer.from('{"version":"1.0.0",'));
+        await new Promise((resolve) => setImmediate(resolve));
+
+        expect(socket.unpipe).toHaveBeenCalledWith(stream);
+        expect(writtenResponse(socket)).toMatchObject({
+          type: 'btps_error',
+          status: { ok: false, message: 'Artifact exceeds the maximum allowed size' },
+        });
+        expect(socket.destroy).toHaveBeenCalled();
+      });
+
+      it('rejects a complete artifact line larger than maxArtifactBytes', async () => {
+        const { socket, stream } = createConnection({ maxArtifactBytes: 16 });
+
+        stream.emit('data', '{"version":"1.0.0","id":"too-long"}');
+        await new Promise((resolve) => setImmediate(resolve));
+
+        expect(writtenResponse(socket).status.message).toBe(
+          'Artifact exceeds the maximum allowed size',
+        );
+      });
+
+      it('times out artifacts that are not completed within headerTimeoutMs', async () => {
+        vi.useFakeTimers();
+        try {
+          const { socket } = createConnection({ headerTimeoutMs: 1000 });
+
+          socket.emit('data', Buffer.from('{"version"'));
+          vi.advanceTimersByTime(500);
+          socket.emit('data', Buffer.from(':"1.0.0"'));
+          expect(socket.destroy).not.toHaveBeenCalled();
+
+          await vi.advanceTimersByTimeAsync(500);
+          expect(writtenResponse(socket).status.message).toBe('Socket timeout. Connection closed');
+          expect(socket.destroy).toHaveBeenCalled();
+        } finally {
+          vi.useRealTimers();
+        }
+      });
+
+      it('exposes connection byte counters to before parsing middleware', async () => {
+        const { limitedServer, socket, stream } = createConnection({});
+        const executeMiddleware = vi.fn().mockResolvedValue(true);
+        limitedServer['executeMiddleware'] = executeMiddleware;
+
+        const line = '{"version":"1.0.0"}';
+        socket.emit('data', Buffer.from(`${line}\n{"id"`));
+        stream.emit('data', line);
+        await new Promise((resolve) => setImmediate(resolve));
+
+        const req: BTPRequestCtx = executeMiddleware.mock.calls[0][1];
+        expect(req.connectionStats).toEqual({
+          bytesReceived: line.length + 6,
+          artifactsReceived: 1,
+          pendingBytes: 5,
+        });
+      });
     });
 
     it('covers isImmediateAction', () => {
@@ -1271,6 +2586,162 @@ export default function () {
       });
     });
 
+    describe('executeMiddleware failure isolation', () => {
+      let onError: Mock;
+      let metrics: { onMiddlewareExecuted: Mock } & IMetricsTracker;
+
+      const createResCtx = () => {
+        let responseSent = false;
+        return {
+          socket: { destroyed: false, writableEnded: false },
+          sendRes: vi.fn(() => (responseSent = true)),
+          sendError: vi.fn(() => (responseSent = true)),
+          get responseSent() {
+            return responseSent;
+          },
+        } as unknown as BTPResponseCtx;
+      };
+      const failing = (config: MiddlewareDefinition['config']): MiddlewareDefinition => ({
+        phase: 'before',
+        step: 'onArtifact',
+        config,
+        handler: async () => {
+          throw new Error('reputation lookup failed');
+        },
+      });
+      const passing = vi.fn(async (_req, _res, next) => next());
+
+      beforeEach(() => {
+        onError = vi.fn();
+        metrics = {
+          onMessageReceived: vi.fn(),
+          onMessageRejected: vi.fn(),
+          onError: vi.fn(),
+          onMiddlewareExecuted: vi.fn(),
+        };
+        server = new BtpsServer({
+          trustStore,
+          serverIdentity: { identity: 'test', publicKey: 'test', privateKey: 'test' },
+          tlsOptions: { key: 'test-key', cert: 'test-cert' },
+          onError,
+          metrics,
+        });
+      });
+
+      it('rethrows failures by default so the connection is destroyed', async () => {
+        await expect(
+          server['executeMiddleware'](
+            [failing({ name: 'lookup' })],
+            {} as BTPRequestCtx,
+            createResCtx(),
+          ),
+        ).rejects.toThrow('reputation lookup failed');
+      });
+
+      it('skips failing middleware when onFailure is skip', async () => {
+        const resCtx = createResCtx();
+        const result = await server['executeMiddleware'](
+          [
+            failing({ name: 'lookup', onFailure: 'skip' }),
+            { phase: 'before', step: 'onArtifact', handler: passing },
+          ],
+          {} as BTPRequestCtx,
+          resCtx,
+        );
+
+        expect(result).toBe(false);
+        expect(passing).toHaveBeenCalled();
+        expect(onError).toHaveBeenCalledWith(expect.any(BTPErrorException));
+        expect(resCtx.sendError).not.toHaveBeenCalled();
+      });
+
+      it('rejects the artifact without destroying the connection when onFailure is reject', async () => {
+        const resCtx = createResCtx();
+        const result = await server['executeMiddleware'](
+          [failing({ name: 'lookup', onFailure: 'reject' })],
+          {} as BTPRequestCtx,
+          resCtx,
+        );
+
+        expect(result).toBe(true);
+        expect(resCtx.sendError).toHaveBeenCalledWith(BTP_ERROR_MIDDLEWARE_FAILURE);
+      });
+
+      it('times out slow middleware', async () => {
+        vi.useFakeTimers();
+        const resCtx = createResCtx();
+        const slow: MiddlewareDefinition = {
+          phase: 'before',
+          step: 'onArtifact',
+          config: { name: 'slow-lookup', timeoutMs: 50, onFailure: 'reject' },
+          handler: () => new Promise(() => {}),
+        };
+
+        const execution = server['executeMiddleware']([slow], {} as BTPRequestCtx, resCtx);
+        await vi.advanceTimersByTimeAsync(50);
+
+        expect(await execution).toBe(true);
+        expect(resCtx.sendError).toHaveBeenCalledWith(BTP_ERROR_TIMEOUT);
+        expect(metrics.onMiddlewareExecuted).toHaveBeenCalledWith(
+          expect.objectContaining({ name: 'slow-lookup', outcome: 'timeout' }),
+        );
+        vi.useRealTimers();
+      });
+
+      it('ignores responses of skipped middleware sent after its timeout', async () => {
+        vi.useFakeTimers();
+        const resCtx = createResCtx();
+        const slow: MiddlewareDefinition = {
+          phase: 'before',
+          step: 'onArtifact',
+          config: { name: 'slow-lookup', timeoutMs: 50, onFailure: 'skip' },
+          handler: async (_req, res) => {
+            await new Promise((resolve) => setTimeout(resolve, 100));
+            res.sendError({ code: 403, message: 'too late' });
+          },
+        };
+
+        const execution = server['executeMiddleware'](
+          [slow, { phase: 'before', step: 'onArtifact', handler: passing }],
+          {} as BTPRequestCtx,
+          resCtx,
+        );
+        await vi.advanceTimersByTimeAsync(50);
+        expect(await execution).toBe(false);
+        expect(passing).toHaveBeenCalled();
+
+        await vi.advanceTimersByTimeAsync(50);
+        expect(resCtx.sendError).not.toHaveBeenCalled();
+        expect(onError).toHaveBeenLastCalledWith(
+          expect.objectContaining({
+            code: BTP_ERROR_TIMEOUT.code,
+            cause: 'Middleware slow-lookup responded after its 50ms timeout',
+          }),
+        );
+        vi.useRealTimers();
+      });
+
+      it('records the timing of every middleware', async () => {
+        const middleware: MiddlewareDefinition[] = [
+          failing({ name: 'lookup', onFailure: 'skip' }),
+          { phase: 'before', step: 'onArtifact', handler: passing },
+        ];
+        await server['executeMiddleware'](middleware, {} as BTPRequestCtx, createResCtx());
+        await server['executeMiddleware'](middleware, {} as BTPRequestCtx, createResCtx());
+
+        expect(metrics.onMiddlewareExecuted).toHaveBeenCalledTimes(4);
+        expect(server.getMiddlewareMetrics()).toEqual([
+          expect.objectContaining({ name: 'lookup', calls: 2, failures: 2, timeouts: 0 }),
+          expect.objectContaining({
+            name: 'before.onArtifact[1]',
+            calls: 2,
+            failures: 0,
+            maxMs: expect.any(Number),
+          }),
+        ]);
+      });
+    });
+
     describe('executeMiddleware with responseSent behavior', () => {
       it('should return true when middleware calls sendError', async () => {
         const middleware = [
@@ -1884,6 +3355,210 @@ export default function () {
     });
   });
 
+  describe('Multi-tenant hosting', () => {
+    const tenantKeys = generateKeyPairSync('ed25519', {
+      publicKeyEncoding: { type: 'spki', format: 'pem' },
+      privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+    });
+    const tenantIdentity = { identity: 'admin$b.com', ...tenantKeys };
+    let tenantTrustStore: DummyTrustStore;
+    let tenantServer: BtpsServer;
+    const tenantContext = {} as tls.SecureContext;
+
+    beforeEach(() => {
+      tenantTrustStore = new DummyTrustStore();
+      vi.spyOn(tls, 'createSecureContext').mockReturnValue(tenantContext);
+      tenantServer = new BtpsServer({
+        trustStore,
+        serverIdentity: { identity: 'admin$a.com', publicKey: 'test', privateKey: 'test' },
+        tlsOptions: { key: 'test-key', cert: 'test-cert' },
+        tenants: {
+          'B.com': {
+            serverIdentity: tenantIdentity,
+            tlsOptions: { key: 'b-key', cert: 'b-cert' },
+            trustStore: tenantTrustStore,
+            identityStore: {
+              getPublicKeyRecord: vi.fn().mockResolvedValue({
+                selector: 'btps1',
+                publicKey: 'BILLING_KEY',
+                keyType: 'rsa',
+                version: '1.0.0',
+                createdAt: new Date().toISOString(),
+              }),
+            } as unknown as AbstractIdentityStore<BTPIdentityRecord>,
+          },
+        },
+      });
+    });
+
+    it('selects the tenant certificate through SNI', () => {
+      const { SNICallback } = (tls.createServer as unknown as Mock).mock.calls.at(-1)![0];
+      const cb = vi.fn();
+
+      SNICallback('b.com', cb);
+      SNICallback('unknown.com', cb);
+
+      expect(tls.createSecureContext).toHaveBeenCalledWith({ key: 'b-key', cert: 'b-cert' });
+      expect(cb).toHaveBeenNthCalledWith(1, null, tenantContext);
+      expect(cb).toHaveBeenNthCalledWith(2, null, undefined);
+    });
+
+    it('signs identity lookups with the key of the tenant hosting the identity', async () => {
+      const socket = {
+        destroyed: false,
+        writableEnded: false,
+        writable: true,
+        write: vi.fn(),
+        end: vi.fn(),
+      } as unknown as TLSSocket;
+
+      // @ts-expect-error - test access to private method
+      await tenantServer.handleIdentityLookup(
+        {
+          version: BTP_PROTOCOL_VERSION,
+          id: 'lookup-1',
+          issuedAt: new Date().toISOString(),
+          identity: 'billing$b.com',
+          from: 'sender$c.com',
+          hostSelector: 'btps1',
+        },
+        { req: {} as BTPRequestCtx, res: { socket, reqId: 'lookup-1' } as BTPResponseCtx },
+      );
+
+      const { signature, ...signedMsg } = JSON.parse((socket.write as Mock).mock.calls[0][0]);
+      expect(signedMsg.signedBy).toBe('admin$b.com');
+      expect(signedMsg.document.publicKey).toBe('BILLING_KEY');
+      expect(verifySignature(signedMsg, signature, tenantKeys.publicKey).isValid).toBe(true);
+    });
+
+    it('resolves trust from the store of the tenant hosting the recipient', async () => {
+      const tenantGetById = vi.spyOn(tenantTrustStore, 'getById');
+      const defaultGetById = vi.spyOn(trustStore, 'getById');
+
+      // @ts-expect-error - test access to private method
+      await tenantServer.verifyAgentTrust({ agentId: 'agent-1', to: 'billing$b.com' });
+      // @ts-expect-error - test access to private method
+      await tenantServer.verifyAgentTrust({ agentId: 'agent-1', to: 'billing$a.com' });
+
+      expect(tenantGetById).toHaveBeenCalledTimes(1);
+      expect(defaultGetById).toHaveBeenCalledTimes(1);
+      expect(tenantServer.getServerIdentity('b.com')).toBe(tenantIdentity);
+      expect(tenantServer.getDependencies('billing$b.com').trustStore).toBe(tenantTrustStore);
+    });
+  });
+
+  describe('Signed responses', () => {
+    const serverKeys = generateKeyPairSync('ed25519', {
+      publicKeyEncoding: { type: 'spki', format: 'pem' },
+      privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+    });
+
+    it('signs errors with the server identity and selector', async () => {
+      const signingServer = new BtpsServer({
+        trustStore,
+        serverIdentity: { identity: 'admin$a.com', selector: 'btps2', ...serverKeys },
+        tlsOptions: { key: 'test-key', cert: 'test-cert' },
+        signResponses: true,
+      });
+      const socket = {
+        destroyed: false,
+        writableEnded: false,
+        writable: true,
+        write: vi.fn(),
+      } as unknown as TLSSocket;
+
+      // @ts-expect-error - test access to private method
+      await signingServer.sendBtpsError(socket, BTP_ERROR_VALIDATION, 'req-1');
+
+      const { signature, ...signedMsg } = JSON.parse((socket.write as Mock).mock.calls[0][0]);
+      expect(signedMsg).toMatchObject({
+        type: 'btps_error',
+        reqId: 'req-1',
+        signedBy: 'admin$a.com',
+        selector: 'btps2',
+      });
+      expect(verifySignature(signedMsg, signature, serverKeys.publicKey).isValid).toBe(true);
+    });
+
+    it('requires a selector for every signing identity', () => {
+      expect(
+        () =>
+          new BtpsServer({
+            trustStore,
+            serverIdentity: { identity: 'admin$a.com', selector: 'btps1', ...serverKeys },
+            tlsOptions: { key: 'test-key', cert: 'test-cert' },
+            tenants: { 'b.com': { serverIdentity: { identity: 'admin$b.com', ...serverKeys } } },
+            signResponses: true,
+          }),
+      ).toThrow(BTPErrorException);
+    });
+  });
+
+  describe('Encrypted responses', () => {
+    const agentKeys = generateKeyPairSync('rsa', {
+      modulusLength: 2048,
+      publicKeyEncoding: { type: 'spki', format: 'pem' },
+      privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+    });
+    const response: BTPServerResponse = {
+      version: BTP_PROTOCOL_VERSION,
+      status: { ok: true, code: 200 },
+      id: 'res-1',
+      issuedAt: new Date().toISOString(),
+      type: 'btps_response',
+      reqId: 'req-1',
+      document: { results: [] },
+    };
+    const authArtifact = {
+      id: 'req-1',
+      action: 'auth.request',
+      agentId: 'agent-1',
+      to: 'admin$a.com',
+      document: { publicKey: agentKeys.publicKey },
+    } as unknown as BTPAgentArtifact;
+
+    it('encrypts the document to the agent public key', async () => {
+      // @ts-expect-error - test access to private method
+      const { data, error } = await server.encryptAgentResponse(
+        { type: 'agent', artifact: authArtifact, respondNow: true },
+        response,
+      );
+
+      const { document, encryption } = data as BTPServerResponse;
+      expect(error).toBeUndefined();
+      expect(typeof document).toBe('string');
+      expect(encryption).toMatchObject({ type: 'standardEncrypt' });
+      expect((await decryptBtpPayload(document, encryption!, agentKeys.privateKey)).data).toEqual({
+        results: [],
+      });
+    });
+
+    it('refuses to encrypt responses to non agent artifacts', async () => {
+      // @ts-expect-error - test access to private method
+      const { data, error } = await server.encryptAgentResponse(undefined, response);
+
+      expect(data).toBeUndefined();
+      expect(error?.code).toBe('BTP_ERROR_UNSUPPORTED_ENCRYPT');
+    });
+
+    it('reports agents without a known public key', async () => {
+      trustStore.getById = vi.fn().mockResolvedValue(undefined);
+
+      // @ts-expect-error - test access to private method
+      const { error } = await server.encryptAgentResponse(
+        {
+          type: 'agent',
+          artifact: { ...authArtifact, action: 'inbox.fetch', document: undefined },
+          respondNow: true,
+        },
+        response,
+      );
+
+      expect(error?.code).toBe('BTP_ERROR_UNSUPPORTED_ENCRYPT');
+      expect(error?.cause).toBe('Agent agent-1 public key not found');
+    });
+  });
+
   describe('Key Rotation Integration', () => {
     it('should handle complete key rotation workflow with different selectors', async () => {
       // This test simulates a complete key rotation scenario:
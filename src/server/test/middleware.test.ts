@@ -11,6 +11,9 @@ import { existsSync, unlinkSync } from 'fs';
 import path from 'path';
 import { MiddlewareManager } from '../libs/middlewareManager.js';
 import JsonTrustStore from '../../core/trust/storage/JsonTrustStore.js';
+import { BTPErrorException } from '../../core/error/index.js';
+import type { BTPServerResponse } from '../../core/server/types.js';
+import type { MiddlewareDefinition } from '../types.js';
 
 const TEST_FILE = path.join(__dirname, 'test-trust-store.json');
 
@@ -199,6 +202,191 @@ describe('MiddlewareManager', () => {
     });
   });
 
+  describe('use', () => {
+    const codeMiddleware = (name: string, priority?: number): MiddlewareDefinition => ({
+      phase: 'before',
+      step: 'parsing',
+      priority,
+      config: { name },
+      handler: async (_req, _res, next) => {
+        await next();
+      },
+    });
+
+    it('should register a single definition or an array', () => {
+      middlewareManager.use(codeMiddleware('single'));
+      middlewareManager.use([codeMiddleware('first', 5), codeMiddleware('second', 1)]);
+
+      expect(middlewareManager.getAllMiddleware().map((mw) => mw.config?.name)).toEqual([
+        'second',
+        'first',
+        'single',
+      ]);
+    });
+
+    it('should throw for invalid definitions', () => {
+      expect(() =>
+        middlewareManager.use({ ...codeMiddleware('invalid'), phase: 'during' as 'before' }),
+      ).toThrow(BTPErrorException);
+      expect(middlewareManager.getAllMiddleware()).toHaveLength(0);
+    });
+
+    it('should validate timeoutMs and onFailure', () => {
+      const mw = codeMiddleware('bounded');
+      expect(() => middlewareManager.use({ ...mw, config: { timeoutMs: -1 } })).toThrow(
+        'Middleware timeoutMs must be a non-negative number',
+      );
+      expect(() =>
+        middlewareManager.use({ ...mw, config: { onFailure: 'ignore' as 'skip' } }),
+      ).toThrow('Middleware onFailure must be one of skip, reject, destroy');
+
+      middlewareManager.use({ ...mw, config: { timeoutMs: 200, onFailure: 'skip' } });
+      expect(middlewareManager.getAllMiddleware()).toHaveLength(1);
+    });
+
+    it('should skip disabled definitions', () => {
+      middlewareManager.use({ ...codeMiddleware('disabled'), config: { enabled: false } });
+      expect(middlewareManager.getAllMiddleware()).toHaveLength(0);
+    });
+
+    it('should merge file and code middleware by priority, file first on ties', async () => {
+      await fs.writeFile(middlewareFile, priorityMiddleware, 'utf8');
+      middlewareManager.use([codeMiddleware('code-first', 1), codeMiddleware('code-last')]);
+
+      const trustStore = new JsonTrustStore({
+        connection: TEST_FILE,
+        entityName: 'trusted_sender',
+      });
+      await middlewareManager.loadMiddleware({ trustStore });
+
+      expect(middlewareManager.getAllMiddleware().map((mw) => mw.config?.name)).toEqual([
+        'first',
+        'code-first',
+        'third',
+        'second',
+        'code-last',
+      ]);
+    });
+
+    it('should remove file and code middleware by name', async () => {
+      await fs.writeFile(middlewareFile, simpleMiddleware, 'utf8');
+      middlewareManager.use([codeMiddleware('test-middleware'), codeMiddleware('kept')]);
+      const trustStore = new JsonTrustStore({
+        connection: TEST_FILE,
+        entityName: 'trusted_sender',
+      });
+      await middlewareManager.loadMiddleware({ trustStore });
+
+      expect(middlewareManager.removeMiddleware('test-middleware')).toBe(true);
+      expect(middlewareManager.removeMiddleware('unknown')).toBe(false);
+      expect(middlewareManager.getAllMiddleware().map((mw) => mw.config?.name)).toEqual(['kept']);
+    });
+
+    it('should run lifecycle hooks registered in code', async () => {
+      const onServerStart = vi.fn();
+      const onResponseSent = vi.fn().mockRejectedValue(new Error('hook failed'));
+      const onServerStop = vi.fn();
+      const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+      middlewareManager.use({ middleware: [], onServerStart, onResponseSent });
+      middlewareManager.use({ middleware: [], onServerStop });
+
+      const response = { id: 'res-1' } as BTPServerResponse;
+      await middlewareManager.onServerStart();
+      await middlewareManager.onResponseSent(response);
+      await middlewareManager.onServerStop();
+
+      expect(onServerStart).toHaveBeenCalledOnce();
+      expect(onResponseSent).toHaveBeenCalledWith(response);
+      expect(onServerStop).toHaveBeenCalledOnce();
+      expect(consoleError).toHaveBeenCalledWith(
+        '[MiddlewareManager] Error in onResponseSent hook:',
+        expect.any(Error),
+      );
+      consoleError.mockRestore();
+    });
+  });
+
+  describe('reloadMiddleware', () => {
+    const versionedMiddleware = (version: string) => `
+export default function () {
+  return {
+    middleware: [{
+      phase: 'before',
+      step: 'parsing',
+      config: { name: '${version}' },
+      handler: async (req, res, next) => { await next(); }
+    }],
+    onServerStart: () => { globalThis.__btpsHooks.push('start:${version}'); },
+    onServerStop: () => { globalThis.__btpsHooks.push('stop:${version}'); },
+  };
+}
+`;
+    const hooks = globalThis as typeof globalThis & { __btpsHooks: string[] };
+    const trustStore = new JsonTrustStore({
+      connection: TEST_FILE,
+      entityName: 'trusted_sender',
+    });
+
+    beforeEach(() => {
+      hooks.__btpsHooks = [];
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      middlewareManager.stopWatching();
+      vi.restoreAllMocks();
+    });
+
+    it('should swap in the new middleware and run the old stop and new start hooks', async () => {
+      await fs.writeFile(middlewareFile, versionedMiddleware('v1'), 'utf8');
+      await middlewareManager.loadMiddleware({ trustStore });
+      const onReload = vi.fn();
+      middlewareManager.on('reload', onReload);
+
+      await fs.writeFile(middlewareFile, versionedMiddleware('v2'), 'utf8');
+      expect(await middlewareManager.reloadMiddleware()).toBe(true);
+
+      expect(middlewareManager.getAllMiddleware().map((mw) => mw.config?.name)).toEqual(['v2']);
+      expect(hooks.__btpsHooks).toEqual(['stop:v1', 'start:v2']);
+      expect(onReload).toHaveBeenCalledWith({
+        success: true,
+        path: path.resolve(middlewareFile),
+        middlewareCount: 1,
+      });
+    });
+
+    it('should keep the current middleware when the new set is invalid', async () => {
+      await fs.writeFile(middlewareFile, versionedMiddleware('v1'), 'utf8');
+      await middlewareManager.loadMiddleware({ trustStore });
+      const onReload = vi.fn();
+      middlewareManager.on('reload', onReload);
+
+      await fs.writeFile(middlewareFile, invalidMiddlewareWrongPhase, 'utf8');
+      expect(await middlewareManager.reloadMiddleware()).toBe(false);
+
+      expect(middlewareManager.getAllMiddleware().map((mw) => mw.config?.name)).toEqual(['v1']);
+      expect(hooks.__btpsHooks).toEqual([]);
+      expect(onReload).toHaveBeenCalledWith(
+        expect.objectContaining({ success: false, error: expect.any(BTPErrorException) }),
+      );
+    });
+
+    it('should reload when the watched file changes', async () => {
+      middlewareManager = new MiddlewareManager(middlewareFile, {
+        watch: true,
+        watchDebounceMs: 10,
+      });
+      await fs.writeFile(middlewareFile, versionedMiddleware('v1'), 'utf8');
+      await middlewareManager.loadMiddleware({ trustStore });
+
+      const reloaded = new Promise((resolve) => middlewareManager.once('reload', resolve));
+      await fs.writeFile(middlewareFile, versionedMiddleware('v2'), 'utf8');
+
+      expect(await reloaded).toMatchObject({ success: true });
+      expect(middlewareManager.getAllMiddleware().map((mw) => mw.config?.name)).toEqual(['v2']);
+    });
+  });
+
   describe('middleware flow control', () => {
     it('should properly handle middleware that sends response and stops flow', async () => {
       const flowControlMiddleware = `
@@ -10,37 +10,124 @@ import { TlsOptions, TLSSocket } from 'tls';
 import { BTPTrustRecord } from '@core/trust/index.js';
 import { AbstractTrustStore } from '@core/trust/storage/AbstractTrustStore.js';
 import {
+  AgentAction,
+  BTPAgentActionArtifact,
+  BTPAuthReqDoc,
   BTPAgentArtifact,
   BTPControlArtifact,
   BTPIdentityLookupRequest,
   BTPServerResponse,
   BTPTransporterArtifact,
   CurrencyCode,
+  MailboxAction,
 } from '@core/server/types.js';
 import { BTPError } from '@core/error/types.js';
 import { BTPErrorException } from '@core/error/index.js';
-import { BTPIdentityRecord } from '@core/storage/types.js';
+import { BTPIdentityRecord, BTPMailboxRecord } from '@core/storage/types.js';
 import { AbstractIdentityStore } from '@core/storage/AbstractIdentityStore.js';
+import { AbstractMailboxStore } from '@core/storage/AbstractMailboxStore.js';
+import { BtpsDnsResolver } from '@core/dns/types.js';
+import type { BtpsAuthentication } from '@core/authentication/BtpsAuthentication.js';
+import { ReplayStore } from './libs/abstractReplayStore.js';
+import type { IMetricsTracker } from './libs/type.js';
 
 export interface BtpsTlsOptions extends TlsOptions {
   cert: string;
   key: string;
 }
 
+export interface BtpsReplayProtectionOptions {
+  clockSkewMs?: number; // Max allowed difference between artifact issuedAt and server time, defaults to 5 minutes
+  store?: ReplayStore; // Seen-id store keyed by from + id, defaults to an in-memory LRU
+}
+
+export interface BtpsServerIdentity {
+  identity: string;
+  publicKey: string;
+  privateKey: string;
+  selector?: string; // DNS selector of the current key, required to sign responses
+}
+
+/**
+ * A domain hosted by the server next to its default identity
+ */
+export interface BtpsServerTenant {
+  serverIdentity: BtpsServerIdentity; // signs responses for the domain
+  tlsOptions?: BtpsTlsOptions; // certificate selected through SNI, defaults to the server certificate
+  trustStore?: AbstractTrustStore<BTPTrustRecord>; // defaults to the server trust store
+  identityStore?: AbstractIdentityStore<BTPIdentityRecord>; // defaults to the server identity store
+}
+
+/**
+ * Identity and stores serving an artifact, resolved from its `to` domain
+ */
+export interface BtpsTenantContext {
+  serverIdentity: BtpsServerIdentity;
+  trustStore: AbstractTrustStore<BTPTrustRecord>;
+  identityStore?: AbstractIdentityStore<BTPIdentityRecord>;
+}
+
+/**
+ * Built-in mailbox served from a mailbox store
+ */
+export interface BtpsMailboxOptions {
+  store: AbstractMailboxStore<BTPMailboxRecord>;
+  actions?: MailboxAction[]; // Mailbox actions handled by the server, defaults to all of them
+  storeIncoming?: boolean; // Save delivered BTPS_DOC artifacts in the recipient inbox, defaults to true
+}
+
+/**
+ * Request handed to the authentication policy and hooks
+ */
+export interface BtpsAuthContext {
+  artifact: BTPAgentActionArtifact<'auth.request' | 'auth.refresh'>;
+  userIdentity: string; // identity the agent acts for
+  serverIdentity: string; // server identity serving the artifact
+  agentInfo: NonNullable<BTPAuthReqDoc['agentInfo']>;
+}
+
+export type BtpsAuthPolicy = string | ((ctx: BtpsAuthContext) => string | Promise<string>);
+
+/**
+ * Built-in auth.request and auth.refresh handling
+ */
+export interface BtpsAuthenticationOptions {
+  auth: BtpsAuthentication;
+  decidedBy?: BtpsAuthPolicy; // Recorded on the agent trust record, defaults to the user identity
+  decryptBy?: BtpsAuthPolicy; // Identity agents decrypt by, defaults to the server identity serving the artifact
+  approveAgent?: (ctx: BtpsAuthContext) => boolean | Promise<boolean>; // Return false to deny creating the agent
+  enrichAgentInfo?: (
+    ctx: BtpsAuthContext,
+  ) => BtpsAuthContext['agentInfo'] | Promise<BtpsAuthContext['agentInfo']>; // agentInfo stored with the agent
+}
+
 export interface BtpsServerOptions {
-  serverIdentity: {
-    identity: string;
-    publicKey: string;
-    privateKey: string;
-  };
+  serverIdentity: BtpsServerIdentity;
   trustStore: AbstractTrustStore<BTPTrustRecord>;
   tlsOptions: BtpsTlsOptions;
   identityStore?: AbstractIdentityStore<BTPIdentityRecord>;
+  tenants?: Record<string, BtpsServerTenant>; // Additional hosted domains, keyed by domain name
   port?: number;
   onError?: (err: BTPErrorException) => void;
 
   connectionTimeoutMs?: number;
+  maxArtifactBytes?: number; // Max size of a single newline delimited artifact, defaults to 5 MiB
+  headerTimeoutMs?: number; // Max time to receive a complete artifact once its first byte arrived, defaults to 10s
+  heartbeatIntervalMs?: number; // Send a PING on connections idle for this long, disabled by default
+  actionTimeoutMs?: number; // Time immediate agent action handlers have to respond, defaults to 10s, 0 disables
+  actionTimeouts?: Partial<Record<AgentAction, number>>; // Per-action overrides of actionTimeoutMs
   middlewarePath?: string; // Path to btps.middleware.mjs file
+  watchMiddleware?: boolean; // Reload the middleware file on change without restarting the server
+  metrics?: IMetricsTracker; // Receives middleware execution timings
+  dnsResolver?: BtpsDnsResolver; // DNS resolver for identity key lookups, defaults to the shared caching resolver
+  replayProtection?: BtpsReplayProtectionOptions;
+  signResponses?: boolean; // Sign every response, errors included, with the server identity and selector
+  mailbox?: BtpsMailboxOptions; // Serve the mailbox agent actions from a store instead of custom handlers
+  authentication?: BtpsAuthenticationOptions; // Handle auth.request and auth.refresh with BtpsAuthentication
+}
+
+export interface BtpsServerStopOptions {
+  drainTimeoutMs?: number; // Time given to in-flight artifacts before open connections are destroyed, defaults to 10s
 }
 
 // Middleware Types
@@ -52,10 +139,39 @@ export type Step =
   | 'onArtifact'
   | 'onError';
 
+export type MiddlewareFailureAction = 'skip' | 'reject' | 'destroy';
+
 export interface MiddlewareConfig {
   name?: string;
   enabled?: boolean;
   options?: Record<string, unknown>;
+  timeoutMs?: number; // Max time for the handler to complete, a timeout is handled as a failure
+  onFailure?: MiddlewareFailureAction; // skip to the next middleware, reject the artifact or destroy the connection (default)
+}
+
+/**
+ * Timing of a single middleware execution
+ */
+export interface MiddlewareExecution {
+  name: string; // config.name, or phase.step[index] for unnamed middleware
+  phase: Phase;
+  step: Step;
+  durationMs: number;
+  outcome: 'next' | 'responded' | 'failed' | 'timeout';
+}
+
+/**
+ * Execution totals of a middleware since the server started
+ */
+export interface MiddlewareMetrics {
+  name: string;
+  phase: Phase;
+  step: Step;
+  calls: number;
+  failures: number;
+  timeouts: number;
+  totalMs: number;
+  maxMs: number;
 }
 
 export interface MiddlewareContext {
@@ -70,12 +186,27 @@ export interface MiddlewareContext {
 }
 
 export type BtpsErrorAction = 'destroy' | 'end';
+
+/**
+ * Live byte counters of a connection, updated as data arrives
+ */
+export interface BTPConnectionStats {
+  bytesReceived: number; // total bytes received on the connection
+  artifactsReceived: number; // complete artifact lines received
+  pendingBytes: number; // bytes of the artifact currently being received
+}
+
+export interface BtpsSendResOptions {
+  encrypt?: boolean; // Encrypt the document to the public key of the requesting agent
+}
+
 export interface BTPContext {
   socket: TLSSocket;
   startTime: string;
   remoteAddress: string;
+  connectionStats: BTPConnectionStats;
   rawPacket?: string;
-  sendRes?: (res: BTPServerResponse) => void;
+  sendRes?: (res: BTPServerResponse, options?: BtpsSendResOptions) => void;
   sendError?: (err: BTPError, action?: BtpsErrorAction) => void;
 }
 
@@ -86,6 +217,14 @@ export type ArtifactResCtx = {
   sendError: Required<BTPContext>['sendError'];
 };
 
+/**
+ * Handler of a single agent action registered through `handleAgentAction`
+ */
+export type BtpsAgentActionHandler<A extends AgentAction = AgentAction> = (
+  artifact: BTPAgentActionArtifact<A> & { respondNow: boolean },
+  resCtx: ArtifactResCtx,
+) => Promise<void> | void;
+
 // Type helper to determine if artifact should be present
 // Only in parsing phase (before/after) is artifact optional
 // In all other phases/steps, artifact is required
@@ -226,13 +365,31 @@ export type MiddlewareDefinitionArray = Array<
   | MiddlewareDefinition<'after', 'onError'>
 >;
 
-export interface MiddlewareModule {
-  middleware: MiddlewareDefinitionArray;
+export interface MiddlewareLifecycleHooks {
   onServerStart?: () => Promise<void> | void;
   onServerStop?: () => Promise<void> | void;
   onResponseSent?: (response: BTPServerResponse) => Promise<void> | void;
 }
 
+export interface MiddlewareModule extends MiddlewareLifecycleHooks {
+  middleware: MiddlewareDefinitionArray;
+}
+
+export interface MiddlewareManagerOptions {
+  watch?: boolean; // Reload the middleware file when it changes
+  watchDebounceMs?: number; // Delay between the last change event and the reload, defaults to 100ms
+}
+
+/**
+ * Outcome of a middleware file reload
+ */
+export interface MiddlewareReloadEvent {
+  success: boolean;
+  path: string;
+  middlewareCount?: number; // middleware loaded from the file, set on success
+  error?: BTPErrorException; // set on failure, the previous middleware stays active
+}
+
 // Legacy types for backward compatibility
 export type Middleware<T, U> = (req: T, res: U, next: Next) => Promise<void>;
 